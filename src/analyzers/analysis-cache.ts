@@ -0,0 +1,114 @@
+import { createHash } from 'crypto';
+import { existsSync, readFileSync } from 'fs';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import { version } from '../../package.json';
+import { AnalysisCache, AnalyzeOptions, FileAnalysis } from './api-analyzer';
+
+/**
+ * File the analyses are saved in when the cache is enabled without a path,
+ * relative to the working directory
+ */
+export const DEFAULT_CACHE_FILE = join(
+  'node_modules',
+  '.cache',
+  'nest-dto-generator',
+  'analysis.json',
+);
+
+/**
+ * Version of the saved analyses, increased whenever their shape changes
+ */
+const CACHE_FORMAT_VERSION = 9;
+
+interface CacheFile {
+  key: string;
+  files: Record<string, FileAnalysis>;
+}
+
+/**
+ * Lockfiles of the package managers, which change with the installed libraries
+ */
+const LOCKFILES = [
+  'pnpm-lock.yaml',
+  'package-lock.json',
+  'npm-shrinkwrap.json',
+  'yarn.lock',
+  'bun.lock',
+  'bun.lockb',
+];
+
+/**
+ * Find the lockfile of the project in a directory or its parents
+ */
+function findLockfile(directory: string): string | undefined {
+  for (let current = directory; ; current = dirname(current)) {
+    const lockfile = LOCKFILES.map((name) => join(current, name)).find(
+      (fileName) => existsSync(fileName),
+    );
+    if (lockfile || dirname(current) === current) return lockfile;
+  }
+}
+
+/**
+ * Get the key of the analyses made with some options. Saved analyses made
+ * by another version, with other overrides and custom decorators or with
+ * other installed libraries are discarded.
+ * @param directory - Directory the lockfile is looked up from
+ */
+export function getCacheKey(
+  options: Pick<AnalyzeOptions, 'controllers' | 'decorators'>,
+  directory = process.cwd(),
+): string {
+  const lockfile = findLockfile(directory);
+  return createHash('sha1')
+    .update(
+      JSON.stringify([
+        CACHE_FORMAT_VERSION,
+        version,
+        options.controllers ?? {},
+        options.decorators ?? {},
+      ]),
+    )
+    .update(lockfile ? readFileSync(lockfile) : '')
+    .digest('hex');
+}
+
+/**
+ * Load the analyses saved by a previous run.
+ * A missing, unreadable or outdated cache file gives an empty cache.
+ */
+export async function loadAnalysisCache(
+  fileName: string,
+  key: string,
+): Promise<AnalysisCache> {
+  try {
+    const cacheFile = JSON.parse(
+      await readFile(fileName, 'utf-8'),
+    ) as CacheFile;
+    return cacheFile.key === key
+      ? new Map(Object.entries(cacheFile.files))
+      : new Map();
+  } catch {
+    return new Map();
+  }
+}
+
+/**
+ * Save the analyses for the next run, leaving out the files that no longer
+ * exist
+ */
+export async function saveAnalysisCache(
+  fileName: string,
+  key: string,
+  cache: AnalysisCache,
+): Promise<void> {
+  const cacheFile: CacheFile = {
+    key,
+    files: Object.fromEntries(
+      [...cache].filter(([sourceFileName]) => existsSync(sourceFileName)),
+    ),
+  };
+  await mkdir(dirname(fileName), { recursive: true });
+  await writeFile(fileName, JSON.stringify(cacheFile), 'utf-8');
+}
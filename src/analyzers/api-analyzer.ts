@@ -0,0 +1,589 @@
+import ts from 'typescript';
+import { createHash } from 'crypto';
+import { Diagnostic } from '../diagnostics/diagnostics';
+import { count, measure, Profile } from '../diagnostics/profile';
+import { getUniqueName } from '../generators/naming';
+import {
+  ApiModel,
+  ControllerModel,
+  TypeDeclaration,
+  TypeModel,
+} from '../models/api-model';
+import {
+  AppRouting,
+  composeFullPaths,
+  resolveAppRouting,
+} from './app-resolver';
+import { getInstanceType, getMethodSignature } from './class-resolver';
+import { CustomDecorators } from './decorator-resolver';
+import { extractParameters } from './param-resolver';
+import { resolveResponseType } from './response-resolver';
+import { extractRoutes, RouteInfo, Version } from './route-resolver';
+import {
+  DeclaredClass,
+  extractClasses,
+  filterControllerClasses,
+} from './src-resolver';
+import {
+  createDuplicateNameDiagnostic,
+  createTypeResolverContext,
+  getDeclarationKeys,
+  getTypeDeclarations,
+} from './type-resolver';
+
+/**
+ * Settings of one controller that replace what is found in the source code
+ */
+export interface ControllerOverride {
+  /** Leave the controller out of the model */
+  skip?: boolean;
+  /** Paths used instead of the ones given to the Controller decorator */
+  path?: string[];
+}
+
+/**
+ * Analysis of the controllers declared in one source file.
+ * It holds plain data only, so that it can be saved between runs.
+ */
+export interface FileAnalysis {
+  controllers: {
+    /** The `version` option of the Controller decorator */
+    version?: Version[];
+    /** What the full paths of the routes are composed from */
+    routes: Pick<RouteInfo, 'httpMethod' | 'fullPath' | 'version'>[];
+    model: ControllerModel;
+  }[];
+  /** Types reached from the routes of the controllers */
+  declarations: TypeDeclaration[];
+  /**
+   * Identities of the declarations keyed by their names, telling apart the
+   * types of different files having the same name
+   */
+  declarationKeys: Record<string, string>;
+  diagnostics: Diagnostic[];
+  /**
+   * Hashes of the contents of the file and of the project files it imports,
+   * directly or not, keyed by file name
+   */
+  sources: Record<string, string>;
+  /** Hash of the compiler options of the program the analysis was made with */
+  compilerOptions: string;
+}
+
+/**
+ * Analyses kept between runs, keyed by file name
+ */
+export type AnalysisCache = Map<string, FileAnalysis>;
+
+export interface AnalyzeOptions {
+  /**
+   * Collects the problems found instead of throwing, so that the analysis
+   * continues past invalid controllers and routes
+   */
+  diagnostics?: Diagnostic[];
+  /**
+   * Only look for controllers in the files accepted by this filter.
+   * Files that do not mention `Controller` or a custom decorator standing for
+   * it are skipped as well.
+   */
+  isControllerFile?: (fileName: string) => boolean;
+  /** Overrides keyed by controller class name */
+  controllers?: Record<string, ControllerOverride>;
+  /** Custom decorators standing for NestJS ones, keyed by name */
+  decorators?: CustomDecorators;
+  /**
+   * Reuses the analysis of the files that did not change since the previous
+   * run, neither did any file they import
+   */
+  cache?: AnalysisCache;
+  /** Collects the time spent in each step of the analysis */
+  profile?: Profile;
+}
+
+const contentHashes = new WeakMap<ts.SourceFile, string>();
+
+/**
+ * Get the hash of the content of a source file
+ */
+function getContentHash(sourceFile: ts.SourceFile): string {
+  let hash = contentHashes.get(sourceFile);
+  if (!hash) {
+    hash = createHash('sha1').update(sourceFile.text).digest('hex');
+    contentHashes.set(sourceFile, hash);
+  }
+  return hash;
+}
+
+/**
+ * Compiler options about the emitted files, which do not change the analysis
+ * and differ between the apps of a monorepo
+ */
+const EMIT_OPTIONS = new Set([
+  'composite',
+  'configFilePath',
+  'declaration',
+  'declarationDir',
+  'declarationMap',
+  'emitDeclarationOnly',
+  'incremental',
+  'inlineSourceMap',
+  'inlineSources',
+  'mapRoot',
+  'noEmit',
+  'outDir',
+  'outFile',
+  'removeComments',
+  'rootDir',
+  'sourceMap',
+  'sourceRoot',
+  'tsBuildInfoFile',
+]);
+
+const compilerOptionsHashes = new WeakMap<ts.Program, string>();
+
+/**
+ * Get the hash of the compiler options of a program, leaving out those
+ * about the emitted files
+ */
+function getCompilerOptionsHash(program: ts.Program): string {
+  let hash = compilerOptionsHashes.get(program);
+  if (!hash) {
+    const options = Object.entries(program.getCompilerOptions())
+      .filter(([name]) => !EMIT_OPTIONS.has(name))
+      .sort(([a], [b]) => a.localeCompare(b));
+    hash = createHash('sha1').update(JSON.stringify(options)).digest('hex');
+    compilerOptionsHashes.set(program, hash);
+  }
+  return hash;
+}
+
+/**
+ * Get a source file and the project files it imports, directly or not,
+ * declaration files included, e.g. those built from referenced projects.
+ * The declaration files of libraries are left out; they change with the
+ * lockfile, which is part of the key of the saved analyses.
+ */
+function getSourceDependencies(
+  sourceFile: ts.SourceFile,
+  program: ts.Program,
+): ts.SourceFile[] {
+  const checker = program.getTypeChecker();
+  const sources = new Set<ts.SourceFile>();
+  const visit = (file: ts.SourceFile) => {
+    if (sources.has(file) || program.isSourceFileFromExternalLibrary(file)) {
+      return;
+    }
+    sources.add(file);
+    file.statements.forEach((statement) => {
+      if (
+        (ts.isImportDeclaration(statement) ||
+          ts.isExportDeclaration(statement)) &&
+        statement.moduleSpecifier
+      ) {
+        const declaration = checker.getSymbolAtLocation(
+          statement.moduleSpecifier,
+        )?.valueDeclaration;
+        if (declaration && ts.isSourceFile(declaration)) visit(declaration);
+      }
+    });
+  };
+  visit(sourceFile);
+  return [...sources];
+}
+
+/**
+ * Get the 1-based line a node starts at
+ */
+function getLine(node: ts.Node): number {
+  const sourceFile = node.getSourceFile();
+  return sourceFile.getLineAndCharacterOfPosition(node.getStart()).line + 1;
+}
+
+/**
+ * Analyze the controllers declared in one source file
+ */
+function analyzeFile(
+  classes: DeclaredClass[],
+  program: ts.Program,
+  routing: AppRouting,
+  options: AnalyzeOptions,
+): FileAnalysis {
+  const diagnostics = options.diagnostics && [];
+  const context = createTypeResolverContext(program, diagnostics);
+
+  const { decorators } = options;
+  const controllers = filterControllerClasses(
+    classes,
+    program,
+    diagnostics,
+    decorators,
+  )
+    .filter(({ name }) => !options.controllers?.[name]?.skip)
+    .map((info) => {
+      const { name, declaration, version, host, tags } = info;
+      const path = options.controllers?.[name]?.path ?? info.path;
+      const instanceType = getInstanceType(declaration, context.checker);
+      const routes = extractRoutes(
+        info.class,
+        path,
+        program,
+        diagnostics,
+        decorators,
+        info.substitutions,
+      );
+      const model: ControllerModel = {
+        name,
+        fileName: declaration.getSourceFile().fileName,
+        line: getLine(declaration),
+        path,
+        ...(host ? { host } : {}),
+        ...(tags ? { tags } : {}),
+        routes: routes.map((route) => {
+          // Inherited handlers take the type arguments of the controller
+          const signature =
+            instanceType &&
+            getMethodSignature(
+              instanceType,
+              route.name,
+              declaration,
+              context.checker,
+            );
+          return {
+            name: route.name,
+            line: getLine(route.method),
+            httpMethod: route.httpMethod,
+            path: route.path,
+            fullPath: composeFullPaths(routing, info, route),
+            parameters: extractParameters(
+              route.method,
+              program,
+              context,
+              decorators,
+              route.substitutions,
+              signature,
+            ),
+            response: resolveResponseType(
+              route.method,
+              program,
+              context,
+              signature,
+            ),
+          };
+        }),
+      };
+      return {
+        ...(version ? { version } : {}),
+        routes: routes.map(({ httpMethod, fullPath, version }) => ({
+          httpMethod,
+          fullPath,
+          ...(version ? { version } : {}),
+        })),
+        model,
+      };
+    });
+
+  const sources = getSourceDependencies(
+    classes[0].declaration.getSourceFile(),
+    program,
+  );
+  return {
+    controllers,
+    declarations: getTypeDeclarations(context),
+    declarationKeys: getDeclarationKeys(context),
+    diagnostics: diagnostics ?? [],
+    sources: Object.fromEntries(
+      sources.map((source) => [source.fileName, getContentHash(source)]),
+    ),
+    compilerOptions: getCompilerOptionsHash(program),
+  };
+}
+
+/**
+ * Check if the files an analysis depends on have the same content in the
+ * program as when it was made, and the program the same compiler options
+ */
+function isUpToDate(analysis: FileAnalysis, program: ts.Program): boolean {
+  return (
+    analysis.compilerOptions === getCompilerOptionsHash(program) &&
+    Object.entries(analysis.sources).every(([fileName, hash]) => {
+      const source = program.getSourceFile(fileName);
+      return source !== undefined && getContentHash(source) === hash;
+    })
+  );
+}
+
+/**
+ * Reuse an analysis, composing the full paths of its routes again since the
+ * routing of the application may have changed
+ */
+function reuseAnalysis(
+  analysis: FileAnalysis,
+  classes: DeclaredClass[],
+  routing: AppRouting,
+): FileAnalysis {
+  return {
+    ...analysis,
+    controllers: analysis.controllers.map(({ version, routes, model }) => {
+      const { declaration } = classes.find(({ name }) => name === model.name)!;
+      return {
+        version,
+        routes,
+        model: {
+          ...model,
+          routes: model.routes.map((route, index) => ({
+            ...route,
+            fullPath: composeFullPaths(
+              routing,
+              { declaration, version },
+              routes[index],
+            ),
+          })),
+        },
+      };
+    }),
+  };
+}
+
+/**
+ * Replace the names of the declarations a type refers to
+ */
+function renameReferences(
+  type: TypeModel,
+  renames: Map<string, string>,
+): TypeModel {
+  switch (type.kind) {
+    case 'reference':
+      return { ...type, name: renames.get(type.name) ?? type.name };
+    case 'array':
+      return {
+        ...type,
+        elementType: renameReferences(type.elementType, renames),
+      };
+    case 'record':
+      return { ...type, valueType: renameReferences(type.valueType, renames) };
+    case 'object':
+      return {
+        ...type,
+        properties: type.properties.map((property) => ({
+          ...property,
+          type: renameReferences(property.type, renames),
+        })),
+      };
+    case 'union':
+      return {
+        ...type,
+        types: type.types.map((member) => renameReferences(member, renames)),
+      };
+    default:
+      return type;
+  }
+}
+
+/**
+ * Rename declarations of an analysis and the references to them
+ */
+function renameDeclarations(
+  analysis: FileAnalysis,
+  renames: Map<string, string>,
+): FileAnalysis {
+  return {
+    ...analysis,
+    controllers: analysis.controllers.map((controller) => ({
+      ...controller,
+      model: {
+        ...controller.model,
+        routes: controller.model.routes.map((route) => ({
+          ...route,
+          parameters: route.parameters.map((parameter) => ({
+            ...parameter,
+            type: renameReferences(parameter.type, renames),
+          })),
+          response: {
+            ...route.response,
+            type: renameReferences(route.response.type, renames),
+          },
+        })),
+      },
+    })),
+    declarations: analysis.declarations.map((declaration) => ({
+      ...declaration,
+      name: renames.get(declaration.name) ?? declaration.name,
+      ...(declaration.kind === 'object'
+        ? {
+            properties: declaration.properties.map((property) => ({
+              ...property,
+              type: renameReferences(property.type, renames),
+            })),
+          }
+        : {}),
+      ...(declaration.kind === 'alias'
+        ? { type: renameReferences(declaration.type, renames) }
+        : {}),
+    })),
+  };
+}
+
+/**
+ * Find the node naming a declaration in the program, to report problems at
+ */
+function findDeclarationName(
+  declaration: TypeDeclaration,
+  program: ts.Program,
+): ts.Node | undefined {
+  const sourceFile = program.getSourceFile(declaration.fileName);
+  let found: ts.Node | undefined;
+  const visit = (node: ts.Node) => {
+    if (found) return;
+    if (
+      (ts.isClassLike(node) ||
+        ts.isInterfaceDeclaration(node) ||
+        ts.isTypeAliasDeclaration(node) ||
+        ts.isEnumDeclaration(node)) &&
+      getLine(node) === declaration.line
+    ) {
+      found = node.name ?? node;
+      return;
+    }
+    ts.forEachChild(node, visit);
+  };
+  if (sourceFile && declaration.line !== undefined) visit(sourceFile);
+  return found;
+}
+
+/**
+ * Merge the declarations of the analyses of several files. Types having the
+ * same name in different files are told apart by their identity, the later
+ * ones being renamed in their analysis.
+ */
+function mergeDeclarations(
+  analyses: FileAnalysis[],
+  program: ts.Program,
+  diagnostics?: Diagnostic[],
+): { analyses: FileAnalysis[]; declarations: TypeDeclaration[] } {
+  const declarations = new Map<string, TypeDeclaration>();
+  const names = new Map<string, string>();
+
+  const merged = analyses.map((analysis) => {
+    const renames = new Map<string, string>();
+    const added = new Set<string>();
+    analysis.declarations.forEach((declaration) => {
+      const key =
+        analysis.declarationKeys[declaration.name] ??
+        `${declaration.fileName}:${declaration.name}`;
+      let name = names.get(key);
+      if (name === undefined) {
+        name = getUniqueName(
+          declaration.name,
+          (candidate) => declarations.has(candidate),
+          { suffix: 'Dto' },
+        );
+        names.set(key, name);
+        declarations.set(name, declaration);
+        added.add(name);
+        const node =
+          name !== declaration.name &&
+          findDeclarationName(declaration, program);
+        if (node) {
+          diagnostics?.push(
+            createDuplicateNameDiagnostic(node, declaration.name, name),
+          );
+        }
+      }
+      if (name !== declaration.name) renames.set(declaration.name, name);
+    });
+
+    if (renames.size === 0) return analysis;
+    const renamed = renameDeclarations(analysis, renames);
+    renamed.declarations
+      .filter(({ name }) => added.has(name))
+      .forEach((declaration) =>
+        declarations.set(declaration.name, declaration),
+      );
+    return renamed;
+  });
+
+  return {
+    analyses: merged,
+    declarations: [...declarations.values()].sort((a, b) =>
+      a.name.localeCompare(b.name),
+    ),
+  };
+}
+
+/**
+ * Build the filter of the files worth looking into for controllers: a file
+ * declaring one mentions the Controller decorator or a custom decorator
+ * standing for it, which is checked on its text before parsing any class.
+ * Compositions of `applyDecorators` not named after `Controller` are only
+ * found in the files mentioning them when they are listed in `decorators`.
+ */
+function createControllerFileFilter(options: AnalyzeOptions) {
+  const { isControllerFile, decorators = {} } = options;
+  const keywords = [
+    'Controller',
+    ...Object.keys(decorators).filter(
+      (name) => decorators[name] === 'Controller',
+    ),
+  ];
+  return (sourceFile: ts.SourceFile) =>
+    (!isControllerFile || isControllerFile(sourceFile.fileName)) &&
+    keywords.some((keyword) => sourceFile.text.includes(keyword));
+}
+
+/**
+ * Analyze every controller of the program and build the intermediate model.
+ * @param program - The TypeScript program
+ * @param options - Analysis options
+ * @returns The intermediate model of the application
+ */
+export function analyzeProgram(
+  program: ts.Program,
+  options: AnalyzeOptions = {},
+): ApiModel {
+  const { cache, profile } = options;
+  // Creating the type checker binds every source file, which sets the parent
+  // pointers the analyzers rely on.
+  measure(profile, 'bind', () => program.getTypeChecker());
+
+  // The routing is resolved again on every run since any file may change it
+  const routing = measure(profile, 'resolve routing', () =>
+    resolveAppRouting(program, options.diagnostics),
+  );
+
+  const classesByFile = new Map<string, DeclaredClass[]>();
+  measure(profile, 'find controller files', () =>
+    extractClasses(program, createControllerFileFilter(options)),
+  ).forEach((declared) => {
+    const { fileName } = declared.declaration.getSourceFile();
+    classesByFile.set(fileName, [
+      ...(classesByFile.get(fileName) ?? []),
+      declared,
+    ]);
+  });
+
+  const analyses = [...classesByFile].map(([fileName, classes]) => {
+    const cached = cache?.get(fileName);
+    if (cached && isUpToDate(cached, program)) {
+      count(profile, 'reuse files');
+      return reuseAnalysis(cached, classes, routing);
+    }
+    const analysis = measure(profile, 'analyze files', () =>
+      analyzeFile(classes, program, routing, options),
+    );
+    cache?.set(fileName, analysis);
+    return analysis;
+  });
+
+  analyses.forEach((analysis) =>
+    options.diagnostics?.push(...analysis.diagnostics),
+  );
+  // Types shared by several files are resolved once per file
+  const merged = mergeDeclarations(analyses, program, options.diagnostics);
+
+  return {
+    controllers: merged.analyses.flatMap((analysis) =>
+      analysis.controllers.map(({ model }) => model),
+    ),
+    types: merged.declarations,
+  };
+}
@@ -0,0 +1,445 @@
+import ts from 'typescript';
+import { createDiagnostic, Diagnostic } from '../diagnostics/diagnostics';
+import { HttpMethod } from '../models/api-model';
+import { getImportedName } from './decorator-resolver';
+import { resolveToLiteral } from './expression-resolver';
+import { joinPaths, resolveVersions, Version } from './route-resolver';
+
+/** Trailing wildcard of an excluded path, e.g. 'health/(.*)' */
+const WILDCARD = /\/?(\(\.\*\)|\*)$/;
+
+interface ExcludedRoute {
+  path: string;
+  /** Undefined when every method is excluded */
+  method?: HttpMethod;
+}
+
+interface GlobalPrefix {
+  prefix: string;
+  /** Routes excluded from the prefix by the `exclude` option */
+  exclude: ExcludedRoute[];
+}
+
+interface VersioningOptions {
+  type: 'URI' | 'HEADER' | 'MEDIA_TYPE' | 'CUSTOM';
+  /** Prefix of URI versions, 'v' by default */
+  prefix: string;
+  defaultVersion?: Version[];
+}
+
+/**
+ * Application-wide routing configured outside of the controllers
+ */
+export interface AppRouting {
+  /** From `app.setGlobalPrefix()` */
+  globalPrefix?: GlobalPrefix;
+  /** From `app.enableVersioning()` */
+  versioning?: VersioningOptions;
+  /**
+   * Paths given by `RouterModule.register()`, keyed by the declaration of the
+   * controller class, or of the variable it is assigned to
+   */
+  modulePaths: Map<ts.Declaration, string>;
+}
+
+/**
+ * Follow an identifier to the initializer of the variable it refers to
+ */
+function getInitializer(
+  expr: ts.Expression,
+  checker: ts.TypeChecker,
+): ts.Expression {
+  if (!ts.isIdentifier(expr)) return expr;
+  let symbol = checker.getSymbolAtLocation(expr);
+  if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+    symbol = checker.getAliasedSymbol(symbol);
+  }
+  const declaration = symbol?.declarations?.[0];
+  if (
+    declaration &&
+    ts.isVariableDeclaration(declaration) &&
+    declaration.initializer
+  ) {
+    return getInitializer(declaration.initializer, checker);
+  }
+  return expr;
+}
+
+/**
+ * Get the class declaration an identifier refers to
+ */
+function getClassDeclaration(
+  expr: ts.Expression,
+  checker: ts.TypeChecker,
+): ts.ClassDeclaration | undefined {
+  let symbol = checker.getSymbolAtLocation(expr);
+  if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+    symbol = checker.getAliasedSymbol(symbol);
+  }
+  return symbol?.declarations?.find(ts.isClassDeclaration);
+}
+
+/**
+ * Get the declaration of the controller an identifier refers to: its class,
+ * or the variable or default export holding the class
+ */
+function getControllerDeclaration(
+  expr: ts.Expression,
+  checker: ts.TypeChecker,
+): ts.Declaration | undefined {
+  let symbol = checker.getSymbolAtLocation(expr);
+  if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+    symbol = checker.getAliasedSymbol(symbol);
+  }
+  return symbol?.declarations?.find(
+    (declaration) =>
+      ts.isClassDeclaration(declaration) ||
+      ts.isVariableDeclaration(declaration) ||
+      ts.isExportAssignment(declaration),
+  );
+}
+
+function getProperty(
+  options: ts.ObjectLiteralExpression,
+  name: string,
+): ts.Expression | undefined {
+  for (const property of options.properties) {
+    if (
+      ts.isPropertyAssignment(property) &&
+      ts.isIdentifier(property.name) &&
+      property.name.text === name
+    ) {
+      return property.initializer;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Get the member name of an enum access, e.g. VersioningType.URI => 'URI'
+ */
+function getEnumMemberName(expr: ts.Expression): string | undefined {
+  if (ts.isPropertyAccessExpression(expr)) return expr.name.text;
+  if (ts.isElementAccessExpression(expr)) {
+    const argument = expr.argumentExpression;
+    if (ts.isStringLiteral(argument)) return argument.text;
+  }
+  return undefined;
+}
+
+function getCalledMethodName(call: ts.CallExpression): string | undefined {
+  return ts.isPropertyAccessExpression(call.expression)
+    ? call.expression.name.text
+    : undefined;
+}
+
+/**
+ * Resolve the routes excluded from the global prefix,
+ * given as paths or as `{ path, method }` objects
+ */
+function resolveExcludedRoutes(
+  expr: ts.Expression,
+  program: ts.Program,
+): ExcludedRoute[] {
+  const checker = program.getTypeChecker();
+  const initializer = getInitializer(expr, checker);
+  if (!ts.isArrayLiteralExpression(initializer)) return [];
+
+  return initializer.elements.flatMap((element): ExcludedRoute[] => {
+    const route = getInitializer(element, checker);
+    if (ts.isObjectLiteralExpression(route)) {
+      const path = getProperty(route, 'path');
+      const result = path && resolveToLiteral(path, program);
+      if (result?.valueType !== 'StringLiteral') return [];
+      const method = getProperty(route, 'method');
+      const methodName = method && getEnumMemberName(method);
+      return [
+        {
+          path: result.value,
+          ...(methodName && methodName !== 'ALL'
+            ? { method: methodName as HttpMethod }
+            : {}),
+        },
+      ];
+    }
+    const result = resolveToLiteral(route, program);
+    return result.valueType === 'StringLiteral' ? [{ path: result.value }] : [];
+  });
+}
+
+function resolveGlobalPrefix(
+  call: ts.CallExpression,
+  program: ts.Program,
+): GlobalPrefix | undefined {
+  const [prefixArg, optionsArg] = call.arguments;
+  if (!prefixArg) return undefined;
+  const prefix = resolveToLiteral(prefixArg, program);
+  if (prefix.valueType !== 'StringLiteral') return undefined;
+
+  const options =
+    optionsArg && getInitializer(optionsArg, program.getTypeChecker());
+  const exclude =
+    options && ts.isObjectLiteralExpression(options)
+      ? getProperty(options, 'exclude')
+      : undefined;
+  return {
+    prefix: prefix.value,
+    exclude: exclude ? resolveExcludedRoutes(exclude, program) : [],
+  };
+}
+
+function resolveVersioning(
+  call: ts.CallExpression,
+  program: ts.Program,
+): VersioningOptions {
+  // Versioning is by URI when no options are given
+  const versioning: VersioningOptions = { type: 'URI', prefix: 'v' };
+  const [optionsArg] = call.arguments;
+  const options =
+    optionsArg && getInitializer(optionsArg, program.getTypeChecker());
+  if (!options || !ts.isObjectLiteralExpression(options)) return versioning;
+
+  const type = getProperty(options, 'type');
+  const typeName = type && getEnumMemberName(type);
+  if (
+    typeName === 'HEADER' ||
+    typeName === 'MEDIA_TYPE' ||
+    typeName === 'CUSTOM'
+  ) {
+    versioning.type = typeName;
+  }
+
+  const prefix = getProperty(options, 'prefix');
+  if (prefix) {
+    const result = resolveToLiteral(prefix, program);
+    if (result.valueType === 'StringLiteral') versioning.prefix = result.value;
+    if (result.valueType === 'FalseKeyword') versioning.prefix = '';
+  }
+
+  const defaultVersion = getProperty(options, 'defaultVersion');
+  if (defaultVersion) {
+    versioning.defaultVersion = resolveVersions(defaultVersion, program);
+  }
+  return versioning;
+}
+
+/**
+ * Get the controllers of every class decorated with `@Module`
+ */
+function getModuleControllers(
+  sourceFiles: readonly ts.SourceFile[],
+  checker: ts.TypeChecker,
+): Map<ts.ClassDeclaration, ts.Declaration[]> {
+  const modules = new Map<ts.ClassDeclaration, ts.Declaration[]>();
+
+  const visit = (node: ts.Node) => {
+    if (ts.isClassDeclaration(node)) {
+      ts.getDecorators(node)?.forEach(({ expression }) => {
+        if (
+          !ts.isCallExpression(expression) ||
+          getImportedName(
+            expression.expression,
+            ['@nestjs/common'],
+            checker,
+          ) !== 'Module' ||
+          !expression.arguments[0]
+        ) {
+          return;
+        }
+        const metadata = getInitializer(expression.arguments[0], checker);
+        if (!ts.isObjectLiteralExpression(metadata)) return;
+        const controllers = getProperty(metadata, 'controllers');
+        const list = controllers && getInitializer(controllers, checker);
+        if (!list || !ts.isArrayLiteralExpression(list)) return;
+        modules.set(
+          node,
+          list.elements
+            .map((element) => getControllerDeclaration(element, checker))
+            .filter((declaration) => declaration !== undefined),
+        );
+      });
+    }
+    ts.forEachChild(node, visit);
+  };
+  sourceFiles.forEach(visit);
+  return modules;
+}
+
+/**
+ * Collect the paths of the modules registered by `RouterModule.register()`,
+ * joining the paths of nested `children`
+ */
+function collectModulePaths(
+  routes: ts.Expression,
+  parentPath: string,
+  program: ts.Program,
+  modulePaths: Map<ts.Declaration, string>,
+) {
+  const checker = program.getTypeChecker();
+  const list = getInitializer(routes, checker);
+  if (!ts.isArrayLiteralExpression(list)) return;
+
+  list.elements.forEach((element) => {
+    const route = getInitializer(element, checker);
+    // A module given directly as a child shares the path of its parent
+    if (!ts.isObjectLiteralExpression(route)) {
+      const module = getClassDeclaration(route, checker);
+      if (module) modulePaths.set(module, parentPath);
+      return;
+    }
+
+    const pathExpression = getProperty(route, 'path');
+    const path = pathExpression && resolveToLiteral(pathExpression, program);
+    const routePath = joinPaths(
+      parentPath,
+      path?.valueType === 'StringLiteral' ? path.value : '',
+    );
+    const module = getProperty(route, 'module');
+    const moduleClass = module && getClassDeclaration(module, checker);
+    if (moduleClass) modulePaths.set(moduleClass, routePath);
+    const children = getProperty(route, 'children');
+    if (children) {
+      collectModulePaths(children, routePath, program, modulePaths);
+    }
+  });
+}
+
+/**
+ * Discover the application-wide routing of the program:
+ * `setGlobalPrefix()` and `enableVersioning()` calls, usually in main.ts,
+ * and the modules registered by `RouterModule.register()`.
+ * @param program - The TypeScript program
+ * @param diagnostics - Collects warnings about settings that cannot be resolved
+ * @returns The routing to compose the full paths of routes with
+ */
+export function resolveAppRouting(
+  program: ts.Program,
+  diagnostics?: Diagnostic[],
+): AppRouting {
+  const checker = program.getTypeChecker();
+  const sourceFiles = program
+    .getSourceFiles()
+    .filter(
+      (file) =>
+        !file.isDeclarationFile &&
+        !program.isSourceFileFromExternalLibrary(file),
+    );
+  const routing: AppRouting = { modulePaths: new Map() };
+  const registeredPaths = new Map<ts.ClassDeclaration, string>();
+
+  const visit = (node: ts.Node) => {
+    if (ts.isCallExpression(node)) {
+      switch (getCalledMethodName(node)) {
+        case 'setGlobalPrefix': {
+          const globalPrefix = resolveGlobalPrefix(node, program);
+          if (globalPrefix) {
+            routing.globalPrefix = globalPrefix;
+          } else {
+            diagnostics?.push(
+              createDiagnostic(
+                node,
+                'warning',
+                'unresolved-global-prefix',
+                'Global prefix must be a string constant; it is left out of the route paths',
+              ),
+            );
+          }
+          break;
+        }
+        case 'enableVersioning':
+          routing.versioning = resolveVersioning(node, program);
+          break;
+        case 'register': {
+          const target = (node.expression as ts.PropertyAccessExpression)
+            .expression;
+          if (
+            getImportedName(target, ['@nestjs/core'], checker) ===
+              'RouterModule' &&
+            node.arguments[0]
+          ) {
+            collectModulePaths(node.arguments[0], '', program, registeredPaths);
+          }
+          break;
+        }
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  sourceFiles.forEach(visit);
+
+  if (registeredPaths.size > 0) {
+    getModuleControllers(sourceFiles, checker).forEach(
+      (controllers, module) => {
+        const path = registeredPaths.get(module);
+        if (path === undefined) return;
+        controllers.forEach((controller) => {
+          if (!routing.modulePaths.has(controller)) {
+            routing.modulePaths.set(controller, path);
+          }
+        });
+      },
+    );
+  }
+  return routing;
+}
+
+/**
+ * Check if a route is excluded from the global prefix.
+ * Paths ending with a `(.*)` or `*` wildcard match every sub path.
+ */
+function isExcludedFromPrefix(
+  globalPrefix: GlobalPrefix,
+  path: string,
+  httpMethod: HttpMethod,
+): boolean {
+  return globalPrefix.exclude.some((route) => {
+    if (route.method && route.method !== httpMethod) return false;
+    if (WILDCARD.test(route.path)) {
+      const base = joinPaths(route.path.replace(WILDCARD, ''));
+      return path === base || path.startsWith(base === '/' ? '/' : `${base}/`);
+    }
+    return joinPaths(route.path) === path;
+  });
+}
+
+/**
+ * Compose the full URL paths of a route the way NestJS does:
+ * global prefix, URI version, RouterModule path, then the controller and
+ * route paths.
+ * @param routing - The application-wide routing
+ * @param controller - The controller class and its versions
+ * @param route - The route with its controller and route paths joined
+ * @returns The full paths of the route
+ */
+export function composeFullPaths(
+  routing: AppRouting,
+  controller: { declaration: ts.Declaration; version?: Version[] },
+  route: { httpMethod: HttpMethod; fullPath: string[]; version?: Version[] },
+): string[] {
+  const { globalPrefix, versioning } = routing;
+  const modulePath = routing.modulePaths.get(controller.declaration) ?? '';
+  // Versions only change the path with URI versioning
+  const versions =
+    versioning?.type === 'URI'
+      ? (route.version ??
+        controller.version ??
+        versioning.defaultVersion ?? [null])
+      : [null];
+
+  const fullPaths = route.fullPath.flatMap((path) => {
+    const routePath = joinPaths(modulePath, path);
+    const prefix =
+      globalPrefix &&
+      !isExcludedFromPrefix(globalPrefix, routePath, route.httpMethod)
+        ? globalPrefix.prefix
+        : '';
+    return versions.map((version) =>
+      joinPaths(
+        prefix,
+        version === null ? '' : `${versioning!.prefix}${version}`,
+        routePath,
+      ),
+    );
+  });
+  return [...new Set(fullPaths)];
+}
@@ -0,0 +1,234 @@
+import ts from 'typescript';
+import {
+  ArgumentSubstitutions,
+  substituteParameters,
+} from './decorator-resolver';
+
+/**
+ * A class an expression evaluates to
+ */
+export interface ResolvedClass {
+  class: ts.ClassLikeDeclaration;
+  /**
+   * Arguments given to the factory declaring the class, replacing the
+   * references to its parameters in the decorators of the class
+   */
+  substitutions?: ArgumentSubstitutions;
+}
+
+/** Depth of variables and factories followed to find a class */
+const MAX_CLASS_DEPTH = 5;
+
+function skipOuterExpressions(expression: ts.Expression): ts.Expression {
+  while (
+    ts.isParenthesizedExpression(expression) ||
+    ts.isAsExpression(expression) ||
+    ts.isSatisfiesExpression(expression) ||
+    ts.isNonNullExpression(expression)
+  ) {
+    expression = expression.expression;
+  }
+  return expression;
+}
+
+/**
+ * Get the declaration of the value an expression refers to, following imports
+ */
+function getValueDeclaration(
+  expression: ts.Expression,
+  checker: ts.TypeChecker,
+): ts.Declaration | undefined {
+  let symbol = checker.getSymbolAtLocation(expression);
+  if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+    symbol = checker.getAliasedSymbol(symbol);
+  }
+  return symbol?.valueDeclaration ?? symbol?.declarations?.[0];
+}
+
+/**
+ * Get the function an expression calls, if it is declared in the program
+ */
+function getCalledFunction(
+  expression: ts.Expression,
+  checker: ts.TypeChecker,
+): ts.FunctionLikeDeclaration | undefined {
+  const declaration = getValueDeclaration(expression, checker);
+  if (!declaration) return undefined;
+  if (ts.isFunctionDeclaration(declaration)) return declaration;
+  if (ts.isVariableDeclaration(declaration) && declaration.initializer) {
+    const initializer = skipOuterExpressions(declaration.initializer);
+    if (
+      ts.isArrowFunction(initializer) ||
+      ts.isFunctionExpression(initializer)
+    ) {
+      return initializer;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Get the expression a function returns: the body of an arrow function, or
+ * the first return statement of its body
+ */
+function getReturnedExpression(
+  fn: ts.FunctionLikeDeclaration,
+): ts.Expression | undefined {
+  if (!fn.body) return undefined;
+  return ts.isBlock(fn.body)
+    ? fn.body.statements.find(ts.isReturnStatement)?.expression
+    : fn.body;
+}
+
+/**
+ * Find the class an expression evaluates to:
+ *
+ * - a class expression, e.g. `class { ... }`
+ * - a reference to a class or to a variable holding one
+ * - a call to a factory returning a class, e.g. `createCrudController(User)`
+ *   for `function createCrudController(entity) { class Crud {} return Crud; }`
+ * - a parameter of the factory the expression is in, e.g. the base class
+ *   given to a mixin
+ *
+ * @param substitutions - Arguments of the factory the expression is in
+ * @returns The class and the arguments of the factory declaring it, if any
+ */
+export function resolveClass(
+  expression: ts.Expression,
+  checker: ts.TypeChecker,
+  substitutions?: ArgumentSubstitutions,
+  depth = 0,
+): ResolvedClass | undefined {
+  if (depth > MAX_CLASS_DEPTH) return undefined;
+  const expr = skipOuterExpressions(expression);
+
+  if (ts.isClassExpression(expr)) return { class: expr };
+  if (ts.isIdentifier(expr) || ts.isPropertyAccessExpression(expr)) {
+    const declaration = getValueDeclaration(expr, checker);
+    if (declaration && ts.isClassLike(declaration)) {
+      return { class: declaration };
+    }
+    if (declaration && ts.isParameter(declaration)) {
+      const argument = substitutions?.get(declaration);
+      return argument && resolveClass(argument, checker, undefined, depth + 1);
+    }
+    return declaration &&
+      ts.isVariableDeclaration(declaration) &&
+      declaration.initializer
+      ? resolveClass(declaration.initializer, checker, undefined, depth + 1)
+      : undefined;
+  }
+  if (ts.isCallExpression(expr)) {
+    const fn = getCalledFunction(expr.expression, checker);
+    const returned = fn && getReturnedExpression(fn);
+    const resolved =
+      returned && resolveClass(returned, checker, undefined, depth + 1);
+    return (
+      resolved && {
+        class: resolved.class,
+        substitutions: substituteParameters(fn.parameters, expr.arguments),
+      }
+    );
+  }
+  return undefined;
+}
+
+/**
+ * Get the base class a class extends, e.g. `BaseController` for
+ * `class UsersController extends BaseController<User>`
+ */
+export function getBaseClass(
+  { class: cls, substitutions }: ResolvedClass,
+  checker: ts.TypeChecker,
+): ResolvedClass | undefined {
+  const extendsClause = cls.heritageClauses?.find(
+    ({ token }) => token === ts.SyntaxKind.ExtendsKeyword,
+  );
+  const base = extendsClause?.types[0];
+  return base && resolveClass(base.expression, checker, substitutions);
+}
+
+/**
+ * Get a class followed by the classes it inherits from, most derived first
+ */
+export function getClassHierarchy(
+  resolved: ResolvedClass,
+  checker: ts.TypeChecker,
+): ResolvedClass[] {
+  const hierarchy = [resolved];
+  let base = getBaseClass(resolved, checker);
+  while (
+    base &&
+    hierarchy.length <= MAX_CLASS_DEPTH &&
+    !hierarchy.some(({ class: cls }) => cls === base!.class)
+  ) {
+    hierarchy.push(base);
+    base = getBaseClass(base, checker);
+  }
+  return hierarchy;
+}
+
+/**
+ * Get the methods a class exposes: its own and the ones it inherits, each
+ * with the arguments of the factory of the class declaring it. Like the
+ * prototype chain, a method overridden by a subclass hides the base method,
+ * its decorators included.
+ */
+export function getClassMethods(
+  resolved: ResolvedClass,
+  checker: ts.TypeChecker,
+): { method: ts.MethodDeclaration; substitutions?: ArgumentSubstitutions }[] {
+  const methods = new Map<
+    string,
+    { method: ts.MethodDeclaration; substitutions?: ArgumentSubstitutions }
+  >();
+  getClassHierarchy(resolved, checker).forEach(
+    ({ class: cls, substitutions }) =>
+      cls.members.forEach((member) => {
+        if (
+          ts.isMethodDeclaration(member) &&
+          ts.isIdentifier(member.name) &&
+          !methods.has(member.name.text)
+        ) {
+          methods.set(member.name.text, { method: member, substitutions });
+        }
+      }),
+  );
+  return [...methods.values()];
+}
+
+/**
+ * Get the type of the instances of a class from what refers to it: the class
+ * declaration, or the variable or default export holding the class
+ */
+export function getInstanceType(
+  declaration: ts.Declaration,
+  checker: ts.TypeChecker,
+): ts.Type | undefined {
+  if (ts.isClassDeclaration(declaration)) {
+    return checker.getTypeAtLocation(declaration);
+  }
+  const constructorType = checker.getTypeAtLocation(
+    ts.isExportAssignment(declaration) ? declaration.expression : declaration,
+  );
+  return constructorType.getConstructSignatures()[0]?.getReturnType();
+}
+
+/**
+ * Get the signature of a method of a class instance. Inherited methods get
+ * the type arguments the class gives to its base classes, e.g. `findOne(id):
+ * Promise<T>` of `BaseController<T>` returns `Promise<User>` on
+ * `UsersController extends BaseController<User>`.
+ */
+export function getMethodSignature(
+  instanceType: ts.Type,
+  name: string,
+  location: ts.Node,
+  checker: ts.TypeChecker,
+): ts.Signature | undefined {
+  const property = checker.getPropertyOfType(instanceType, name);
+  return (
+    property &&
+    checker.getTypeOfSymbolAtLocation(property, location).getCallSignatures()[0]
+  );
+}
@@ -0,0 +1,395 @@
+import ts from 'typescript';
+
+const NESTJS_COMMON = '@nestjs/common';
+
+/**
+ * Names of the NestJS decorators that custom decorators can stand for
+ */
+export const NEST_DECORATORS = [
+  'Controller',
+  'Get',
+  'Post',
+  'Put',
+  'Patch',
+  'Delete',
+  'Options',
+  'Head',
+  'All',
+  'Version',
+  'Body',
+  'Query',
+  'Param',
+  'Headers',
+] as const;
+
+export type NestDecorator = (typeof NEST_DECORATORS)[number];
+
+/**
+ * Custom decorators keyed by name, mapped to the NestJS decorator they stand
+ * for. The arguments of a custom decorator are read as the arguments of the
+ * NestJS decorator.
+ */
+export type CustomDecorators = Record<string, NestDecorator>;
+
+/**
+ * A decorator resolved to the NestJS decorator it applies
+ */
+export interface ResolvedDecorator {
+  /** Name of the NestJS decorator, e.g. 'Controller' or 'Get' */
+  name: string;
+  /** Arguments given to the NestJS decorator */
+  arguments: ts.Expression[];
+}
+
+/**
+ * Arguments given to a function, keyed by its parameters. A parameter whose
+ * argument was left out is mapped to its default value, if any.
+ */
+export type ArgumentSubstitutions = Map<
+  ts.ParameterDeclaration,
+  ts.Expression | undefined
+>;
+
+/**
+ * Map the parameters of a function to the arguments it is called with.
+ * Passing `undefined` is the same as leaving the argument out.
+ */
+export function substituteParameters(
+  parameters: readonly ts.ParameterDeclaration[],
+  args: readonly ts.Expression[],
+): ArgumentSubstitutions {
+  return new Map(
+    parameters.map((parameter, index) => {
+      const arg = args[index];
+      const isGiven =
+        arg !== undefined &&
+        !(ts.isIdentifier(arg) && arg.text === 'undefined');
+      return [parameter, isGiven ? arg : parameter.initializer];
+    }),
+  );
+}
+
+/** Depth of nested `applyDecorators` compositions followed */
+const MAX_COMPOSITION_DEPTH = 5;
+
+function isModule(
+  moduleSpecifier: ts.Expression | undefined,
+  moduleNames: readonly string[],
+): boolean {
+  return (
+    moduleSpecifier !== undefined &&
+    ts.isStringLiteral(moduleSpecifier) &&
+    moduleNames.includes(moduleSpecifier.text)
+  );
+}
+
+/**
+ * Get the name of the module member an import or export specifier refers to,
+ * if it is imported from one of the modules
+ */
+function getImportName(
+  declaration: ts.Declaration,
+  moduleNames: readonly string[],
+): string | undefined {
+  let moduleSpecifier: ts.Expression | undefined;
+  if (ts.isImportSpecifier(declaration)) {
+    moduleSpecifier = declaration.parent.parent.parent.moduleSpecifier;
+  } else if (ts.isExportSpecifier(declaration)) {
+    moduleSpecifier = declaration.parent.parent.moduleSpecifier;
+  } else {
+    return undefined;
+  }
+  return isModule(moduleSpecifier, moduleNames)
+    ? (declaration.propertyName ?? declaration.name).text
+    : undefined;
+}
+
+function isNamespaceImport(
+  symbol: ts.Symbol | undefined,
+  moduleNames: readonly string[],
+  checker: ts.TypeChecker,
+): boolean {
+  while (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+    const declaration = symbol.declarations?.[0];
+    if (declaration && ts.isNamespaceImport(declaration)) {
+      return isModule(declaration.parent.parent.moduleSpecifier, moduleNames);
+    }
+    symbol = checker.getImmediateAliasedSymbol(symbol);
+  }
+  return false;
+}
+
+function isDeclaredIn(symbol: ts.Symbol, moduleNames: readonly string[]) {
+  return (
+    symbol.declarations?.some((declaration) => {
+      const { fileName } = declaration.getSourceFile();
+      return moduleNames.some((name) =>
+        fileName.includes(`/node_modules/${name}/`),
+      );
+    }) ?? false
+  );
+}
+
+/**
+ * Get the name of the export of one of the modules an expression refers to,
+ * following aliased and namespace imports and re-exports
+ */
+export function getImportedName(
+  expression: ts.Expression,
+  moduleNames: readonly string[],
+  checker: ts.TypeChecker,
+): string | undefined {
+  if (ts.isPropertyAccessExpression(expression)) {
+    // import * as common from '@nestjs/common'; @common.Controller()
+    if (
+      isNamespaceImport(
+        checker.getSymbolAtLocation(expression.expression),
+        moduleNames,
+        checker,
+      )
+    ) {
+      return expression.name.text;
+    }
+  } else if (!ts.isIdentifier(expression)) {
+    return undefined;
+  }
+
+  let symbol = checker.getSymbolAtLocation(expression);
+  if (!symbol) return undefined;
+  while (symbol.flags & ts.SymbolFlags.Alias) {
+    const name = symbol.declarations
+      ?.map((declaration) => getImportName(declaration, moduleNames))
+      .find((name) => name !== undefined);
+    if (name) return name;
+    const aliased = checker.getImmediateAliasedSymbol(symbol);
+    if (!aliased) return undefined;
+    symbol = aliased;
+  }
+  return isDeclaredIn(symbol, moduleNames) ? symbol.name : undefined;
+}
+
+/**
+ * Get the name of the @nestjs/common export an expression refers to.
+ * Identifiers that are not declared at all are taken by their name.
+ */
+export function getNestJsName(
+  expression: ts.Expression,
+  checker: ts.TypeChecker,
+): string | undefined {
+  if (ts.isIdentifier(expression) && !checker.getSymbolAtLocation(expression)) {
+    return expression.text;
+  }
+  return getImportedName(expression, [NESTJS_COMMON], checker);
+}
+
+/**
+ * Get the declaration of the function or value an expression refers to
+ */
+function getDeclaration(
+  expression: ts.Expression,
+  checker: ts.TypeChecker,
+): ts.Declaration | undefined {
+  let symbol = checker.getSymbolAtLocation(expression);
+  if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+    symbol = checker.getAliasedSymbol(symbol);
+  }
+  return symbol?.valueDeclaration;
+}
+
+/**
+ * A decorator built with `applyDecorators`
+ */
+interface Composition {
+  /** Parameters of the function returning the composition, if any */
+  parameters: readonly ts.ParameterDeclaration[];
+  /** The decorators given to `applyDecorators` */
+  decorators: ts.Expression[];
+}
+
+/**
+ * Get the `applyDecorators` composition a function or constant returns
+ */
+function getComposition(
+  expression: ts.Expression,
+  isCalled: boolean,
+  checker: ts.TypeChecker,
+): Composition | undefined {
+  const declaration = getDeclaration(expression, checker);
+  if (!declaration) return undefined;
+
+  let parameters: readonly ts.ParameterDeclaration[] = [];
+  let result: ts.Expression | undefined;
+  let fn: ts.FunctionLikeDeclaration | undefined;
+  if (ts.isFunctionDeclaration(declaration)) {
+    fn = declaration;
+  } else if (ts.isVariableDeclaration(declaration) && declaration.initializer) {
+    const { initializer } = declaration;
+    if (
+      ts.isArrowFunction(initializer) ||
+      ts.isFunctionExpression(initializer)
+    ) {
+      fn = initializer;
+    } else if (!isCalled) {
+      // export const ApiController = applyDecorators(...)
+      result = initializer;
+    }
+  }
+
+  if (fn && isCalled) {
+    parameters = fn.parameters;
+    result =
+      fn.body && ts.isBlock(fn.body)
+        ? fn.body.statements.find(ts.isReturnStatement)?.expression
+        : fn.body;
+  }
+
+  if (
+    !result ||
+    !ts.isCallExpression(result) ||
+    getNestJsName(result.expression, checker) !== 'applyDecorators'
+  ) {
+    return undefined;
+  }
+  return { parameters, decorators: [...result.arguments] };
+}
+
+/**
+ * Replace the references to parameters of a composing function by the
+ * arguments it was called with. The arguments from the first parameter that
+ * was not given are left out.
+ */
+function substituteArguments(
+  args: readonly ts.Expression[],
+  substitutions: ArgumentSubstitutions,
+  checker: ts.TypeChecker,
+): ts.Expression[] {
+  const result: ts.Expression[] = [];
+  for (const arg of args) {
+    const declaration = ts.isIdentifier(arg)
+      ? checker.getSymbolAtLocation(arg)?.valueDeclaration
+      : undefined;
+    if (
+      declaration &&
+      ts.isParameter(declaration) &&
+      substitutions.has(declaration)
+    ) {
+      const substitution = substitutions.get(declaration);
+      if (!substitution) break;
+      result.push(substitution);
+    } else {
+      result.push(arg);
+    }
+  }
+  return result;
+}
+
+/**
+ * Get the local name of an expression and the name it is imported by
+ */
+function getNames(expression: ts.Expression, checker: ts.TypeChecker) {
+  const name = ts.isIdentifier(expression)
+    ? expression
+    : ts.isPropertyAccessExpression(expression)
+      ? expression.name
+      : undefined;
+  if (!name) return [];
+
+  const declaration = checker.getSymbolAtLocation(name)?.declarations?.[0];
+  return declaration && ts.isImportSpecifier(declaration)
+    ? [name.text, (declaration.propertyName ?? declaration.name).text]
+    : [name.text];
+}
+
+function resolveDecoratorExpression(
+  expression: ts.Expression,
+  substitutions: ArgumentSubstitutions,
+  depth: number,
+  checker: ts.TypeChecker,
+  customDecorators: CustomDecorators,
+): ResolvedDecorator[] {
+  const call = ts.isCallExpression(expression) ? expression : undefined;
+  const callee = call ? call.expression : expression;
+  const args = substituteArguments(
+    call?.arguments ?? [],
+    substitutions,
+    checker,
+  );
+
+  const customName = getNames(callee, checker)
+    .map((name) => customDecorators[name])
+    .find((name) => name !== undefined);
+  if (customName) return [{ name: customName, arguments: args }];
+
+  const name = getNestJsName(callee, checker);
+  if (name && call) return [{ name, arguments: args }];
+
+  if (depth >= MAX_COMPOSITION_DEPTH) return [];
+  const composition = getComposition(callee, call !== undefined, checker);
+  if (!composition) return [];
+  const innerSubstitutions = substituteParameters(composition.parameters, args);
+  return composition.decorators.flatMap((decorator) =>
+    resolveDecoratorExpression(
+      decorator,
+      innerSubstitutions,
+      depth + 1,
+      checker,
+      customDecorators,
+    ),
+  );
+}
+
+/**
+ * Resolve a decorator to the NestJS decorators it applies.
+ *
+ * - NestJS decorators are recognized however they are imported, e.g.
+ *   `import { Controller as C }` or `import * as common`
+ * - `applyDecorators` compositions are followed, with the arguments of the
+ *   composing function passed on, e.g.
+ *   `const ApiController = (path: string) =>
+ *     applyDecorators(Controller(path), UseGuards(AuthGuard))`
+ * - Custom decorators are mapped by their name
+ *
+ * @param decorator - The decorator
+ * @param program - The TypeScript program
+ * @param customDecorators - Custom decorators keyed by name
+ * @param substitutions - Arguments of the factory the decorated class is
+ * declared in, replacing the references to its parameters
+ * @returns The NestJS decorators applied, with their arguments
+ */
+export function resolveDecorator(
+  decorator: ts.Decorator,
+  program: ts.Program,
+  customDecorators: CustomDecorators = {},
+  substitutions: ArgumentSubstitutions = new Map(),
+): ResolvedDecorator[] {
+  return resolveDecoratorExpression(
+    decorator.expression,
+    substitutions,
+    0,
+    program.getTypeChecker(),
+    customDecorators,
+  );
+}
+
+/**
+ * Find the first decorator applying one of the given NestJS decorators
+ * @returns The decorator as written and the NestJS decorator it applies
+ */
+export function findDecorator(
+  decorators: readonly ts.Decorator[],
+  names: readonly string[],
+  program: ts.Program,
+  customDecorators?: CustomDecorators,
+  substitutions?: ArgumentSubstitutions,
+): { decorator: ts.Decorator; resolved: ResolvedDecorator } | undefined {
+  for (const decorator of decorators) {
+    const resolved = resolveDecorator(
+      decorator,
+      program,
+      customDecorators,
+      substitutions,
+    ).find(({ name }) => names.includes(name));
+    if (resolved) return { decorator, resolved };
+  }
+  return undefined;
+}
@@ -33,11 +33,21 @@ export type ResolverResult =
       valueType: 'ObjectLiteralExpression';
       value: Record<string, unknown>;
     }
+  | {
+      /** A union of literal types, the value being one of them */
+      valueType: 'UnionType';
+      value: (string | number | boolean)[];
+    }
   | {
       valueType: undefined;
       value: undefined;
     };
 
+const LITERAL_TYPE_FLAGS =
+  ts.TypeFlags.StringLiteral |
+  ts.TypeFlags.NumberLiteral |
+  ts.TypeFlags.BooleanLiteral;
+
 /**
  * Converts an AST Node to a literal value.
  * If conversion is not possible, valueType = undefined.
@@ -72,14 +82,15 @@ export function resolveToLiteral(
         valueType: 'StringLiteral',
         value: (expr as ts.StringLiteral).text,
       };
-    case ts.SyntaxKind.RegularExpressionLiteral:
+    case ts.SyntaxKind.RegularExpressionLiteral: {
+      const text = (expr as ts.RegularExpressionLiteral).text;
+      // split the literal into the pattern between the slashes and the flags
+      const lastSlash = text.lastIndexOf('/');
       return {
         valueType: 'RegularExpressionLiteral',
-        // remove the slashes at the beginning and end of the literal
-        value: new RegExp(
-          (expr as ts.RegularExpressionLiteral).text.slice(1, -1),
-        ),
+        value: new RegExp(text.slice(1, lastSlash), text.slice(lastSlash + 1)),
       };
+    }
     case ts.SyntaxKind.TrueKeyword:
       return {
         valueType: 'TrueKeyword',
@@ -98,9 +109,17 @@ export function resolveToLiteral(
     case ts.SyntaxKind.ArrayLiteralExpression:
       return {
         valueType: 'ArrayLiteralExpression',
-        value: (expr as ts.ArrayLiteralExpression).elements
-          .map((element) => resolveToLiteral(element, program))
-          .map((res) => res.value),
+        value: (expr as ts.ArrayLiteralExpression).elements.flatMap(
+          (element) => {
+            if (ts.isSpreadElement(element)) {
+              const spread = resolveToLiteral(element.expression, program);
+              return spread.valueType === 'ArrayLiteralExpression'
+                ? spread.value
+                : [undefined];
+            }
+            return [resolveToLiteral(element, program).value];
+          },
+        ),
       };
     case ts.SyntaxKind.ParenthesizedExpression:
       return resolveToLiteral(
@@ -121,6 +140,22 @@ export function resolveToLiteral(
     }
     case ts.SyntaxKind.AsExpression:
       return resolveToLiteral((expr as ts.AsExpression).expression, program);
+    case ts.SyntaxKind.SatisfiesExpression:
+      return resolveToLiteral(
+        (expr as ts.SatisfiesExpression).expression,
+        program,
+      );
+    case ts.SyntaxKind.BinaryExpression:
+      return resolveBinaryExpressionToLiteral(
+        expr as ts.BinaryExpression,
+        program,
+      );
+    case ts.SyntaxKind.PropertyAccessExpression:
+    case ts.SyntaxKind.ElementAccessExpression:
+      return resolveAccessExpressionToLiteral(
+        expr as ts.PropertyAccessExpression | ts.ElementAccessExpression,
+        program,
+      );
     case ts.SyntaxKind.ObjectLiteralExpression:
       return {
         valueType: 'ObjectLiteralExpression',
@@ -130,6 +165,18 @@ export function resolveToLiteral(
               const key = resolveToLiteral(prop.name, program);
               const value = resolveToLiteral(prop.initializer, program);
               acc[key.value as string] = value.value;
+            } else if (ts.isShorthandPropertyAssignment(prop)) {
+              const symbol = program
+                .getTypeChecker()
+                .getShorthandAssignmentValueSymbol(prop);
+              acc[prop.name.text] = symbol
+                ? resolveSymbolToLiteral(symbol, program).value
+                : undefined;
+            } else if (ts.isSpreadAssignment(prop)) {
+              const spread = resolveToLiteral(prop.expression, program);
+              if (spread.valueType === 'ObjectLiteralExpression') {
+                Object.assign(acc, spread.value);
+              }
             }
             return acc;
           },
@@ -157,6 +204,132 @@ export function resolveToLiteral(
   return { valueType: undefined, value: undefined };
 }
 
+/**
+ * Wrap a value computed from other literals in a ResolverResult
+ */
+function toResolverResult(value: unknown): ResolverResult {
+  switch (typeof value) {
+    case 'string':
+      return { valueType: 'StringLiteral', value };
+    case 'number':
+      return { valueType: 'NumericLiteral', value };
+    case 'bigint':
+      return { valueType: 'BigIntLiteral', value };
+    case 'boolean':
+      return value
+        ? { valueType: 'TrueKeyword', value: true }
+        : { valueType: 'FalseKeyword', value: false };
+    case 'object':
+      if (value instanceof RegExp) {
+        return { valueType: 'RegularExpressionLiteral', value };
+      }
+      if (Array.isArray(value)) {
+        return { valueType: 'ArrayLiteralExpression', value };
+      }
+      if (value !== null) {
+        return {
+          valueType: 'ObjectLiteralExpression',
+          value: value as Record<string, unknown>,
+        };
+      }
+  }
+  return { valueType: undefined, value: undefined };
+}
+
+/**
+ * Fold `+` of numbers and string concatenation, e.g. 'api/' + VERSION
+ */
+function resolveBinaryExpressionToLiteral(
+  expr: ts.BinaryExpression,
+  program: ts.Program,
+): ResolverResult {
+  if (expr.operatorToken.kind !== ts.SyntaxKind.PlusToken) {
+    return { valueType: undefined, value: undefined };
+  }
+  const left = resolveToLiteral(expr.left, program);
+  const right = resolveToLiteral(expr.right, program);
+
+  if (
+    left.valueType === 'NumericLiteral' &&
+    right.valueType === 'NumericLiteral'
+  ) {
+    return { valueType: 'NumericLiteral', value: left.value + right.value };
+  }
+  if (
+    left.valueType === 'BigIntLiteral' &&
+    right.valueType === 'BigIntLiteral'
+  ) {
+    return { valueType: 'BigIntLiteral', value: left.value + right.value };
+  }
+  const isConcatenable = (result: ResolverResult) =>
+    typeof result.value === 'string' ||
+    typeof result.value === 'number' ||
+    typeof result.value === 'bigint' ||
+    typeof result.value === 'boolean';
+  if (
+    (left.valueType === 'StringLiteral' ||
+      right.valueType === 'StringLiteral') &&
+    isConcatenable(left) &&
+    isConcatenable(right)
+  ) {
+    return {
+      valueType: 'StringLiteral',
+      value: String(left.value) + String(right.value),
+    };
+  }
+  return { valueType: undefined, value: undefined };
+}
+
+/**
+ * Resolve enum members, e.g. Paths.Users, and property or element access
+ * chains on constants, e.g. ROUTES.users.base or BASE_PATHS[0]
+ */
+function resolveAccessExpressionToLiteral(
+  expr: ts.PropertyAccessExpression | ts.ElementAccessExpression,
+  program: ts.Program,
+): ResolverResult {
+  const typeChecker = program.getTypeChecker();
+  const symbol = typeChecker.getSymbolAtLocation(expr);
+  if (symbol && symbol.flags & ts.SymbolFlags.EnumMember) {
+    return resolveSymbolToLiteral(symbol, program);
+  }
+
+  const key = ts.isPropertyAccessExpression(expr)
+    ? expr.name.text
+    : resolveToLiteral(expr.argumentExpression, program).value;
+  const target = resolveToLiteral(expr.expression, program);
+  if (
+    (typeof key === 'string' || typeof key === 'number') &&
+    (target.valueType === 'ObjectLiteralExpression' ||
+      target.valueType === 'ArrayLiteralExpression')
+  ) {
+    const value = (target.value as Record<string | number, unknown>)[key];
+    if (value !== undefined) return toResolverResult(value);
+  }
+
+  // Fall back to a literal type, e.g. of a constant declared in a .d.ts file
+  const type = typeChecker.getTypeAtLocation(expr);
+  if (type.flags & LITERAL_TYPE_FLAGS || type.isUnion()) {
+    return resolveTypeToLiteral(type, program);
+  }
+  return { valueType: undefined, value: undefined };
+}
+
+/**
+ * Resolve the value of an enum member from its initializer,
+ * or from the checker for auto-incremented members
+ */
+function resolveEnumMemberToLiteral(
+  member: ts.EnumMember,
+  program: ts.Program,
+): ResolverResult {
+  if (member.initializer) {
+    const result = resolveToLiteral(member.initializer, program);
+    if (result.valueType !== undefined) return result;
+  }
+  return toResolverResult(program.getTypeChecker().getConstantValue(member));
+}
+
 function resolvePrefixUnaryExpressionToLiteral(
   expr: ts.PrefixUnaryExpression,
   program: ts.Program,
@@ -196,30 +369,51 @@ function resolveSymbolToLiteral(
       if (symbol.valueDeclaration) {
         return resolveToLiteral(symbol.valueDeclaration, program);
       }
+      break;
+    }
+    case ts.SymbolFlags.EnumMember: {
+      if (symbol.valueDeclaration && ts.isEnumMember(symbol.valueDeclaration)) {
+        return resolveEnumMemberToLiteral(symbol.valueDeclaration, program);
+      }
+      break;
     }
   }
   const type = typeChecker.getTypeOfSymbol(symbol);
   return resolveTypeToLiteral(type, program);
 }
 
+/**
+ * Resolve a literal type, including enum members and `true`/`false`.
+ * A union of literal types resolves to the list of its values.
+ */
 function resolveTypeToLiteral(
   typeObject: ts.Type,
   program: ts.Program,
 ): ResolverResult {
-  switch (typeObject.flags) {
-    case ts.TypeFlags.StringLiteral:
-      return {
-        valueType: 'StringLiteral',
-        value: (typeObject as ts.StringLiteralType).value,
-      };
-    case ts.TypeFlags.NumberLiteral:
-      return {
-        valueType: 'NumericLiteral',
-        value: (typeObject as ts.NumberLiteralType).value,
-      };
-    case ts.TypeFlags.Object: {
-      return resolveObjectTypeToLiteral(typeObject as ts.ObjectType, program);
+  if (typeObject.isStringLiteral()) {
+    return { valueType: 'StringLiteral', value: typeObject.value };
+  }
+  if (typeObject.isNumberLiteral()) {
+    return { valueType: 'NumericLiteral', value: typeObject.value };
+  }
+  if (typeObject.flags & ts.TypeFlags.BooleanLiteral) {
+    return program.getTypeChecker().typeToString(typeObject) === 'true'
+      ? { valueType: 'TrueKeyword', value: true }
+      : { valueType: 'FalseKeyword', value: false };
+  }
+  if (typeObject.isUnion()) {
+    const values: (string | number | boolean)[] = [];
+    for (const member of typeObject.types) {
+      if (!(member.flags & LITERAL_TYPE_FLAGS)) break;
+      const result = resolveTypeToLiteral(member, program);
+      values.push(result.value as string | number | boolean);
     }
+    return values.length === typeObject.types.length
+      ? { valueType: 'UnionType', value: values }
+      : { valueType: undefined, value: undefined };
+  }
+  if (typeObject.flags & ts.TypeFlags.Object) {
+    return resolveObjectTypeToLiteral(typeObject as ts.ObjectType, program);
   }
 
   return { valueType: undefined, value: undefined };
@@ -0,0 +1,89 @@
+import ts from 'typescript';
+import { ParamModel, ParamSource } from '../models/api-model';
+import {
+  ArgumentSubstitutions,
+  CustomDecorators,
+  resolveDecorator,
+} from './decorator-resolver';
+import { resolveToLiteral } from './expression-resolver';
+import { resolveType, TypeResolverContext } from './type-resolver';
+
+const PARAM_DECORATORS: Record<string, ParamSource> = {
+  Body: 'body',
+  Query: 'query',
+  Param: 'param',
+  Headers: 'headers',
+};
+
+/**
+ * Get the property key of a parameter decorator.
+ * `@Param('id')` has the key 'id', while `@Body()` and `@Body(ValidationPipe)`
+ * take the whole object and have no key.
+ */
+function getParamKey(
+  args: readonly ts.Expression[],
+  program: ts.Program,
+): string | undefined {
+  const firstArg = args[0];
+  if (!firstArg) return undefined;
+
+  // Pipes may be given as the first argument, so only string keys count
+  const argType = program.getTypeChecker().getTypeAtLocation(firstArg);
+  if (!(argType.flags & ts.TypeFlags.StringLike)) return undefined;
+
+  const result = resolveToLiteral(firstArg, program);
+  return result.valueType === 'StringLiteral' ? result.value : undefined;
+}
+
+/**
+ * Get the decorated parameters of a route handler with their declared types.
+ * @param method - The route handler
+ * @param program - The TypeScript program
+ * @param context - The type resolver context collecting named types
+ * @param customDecorators - Custom decorators standing for NestJS ones
+ * @param substitutions - Arguments of the factory declaring the handler's class
+ * @param signature - Signature of the handler on the controller, whose
+ * parameter types are used instead of the declared ones, e.g. to substitute
+ * the type parameters of a base controller
+ * @returns The list of parameters bound to the request
+ */
+export function extractParameters(
+  method: ts.MethodDeclaration,
+  program: ts.Program,
+  context: TypeResolverContext,
+  customDecorators?: CustomDecorators,
+  substitutions?: ArgumentSubstitutions,
+  signature?: ts.Signature,
+): ParamModel[] {
+  const checker = program.getTypeChecker();
+  const parameters: ParamModel[] = [];
+
+  method.parameters.forEach((parameter, index) => {
+    const symbol = signature?.getParameters()[index];
+    const type = symbol
+      ? checker.getTypeOfSymbolAtLocation(symbol, parameter)
+      : checker.getTypeAtLocation(parameter);
+    const decorators = ts.getDecorators(parameter) ?? [];
+    const resolved = decorators.flatMap((decorator) =>
+      resolveDecorator(decorator, program, customDecorators, substitutions),
+    );
+    resolved.forEach(({ name, arguments: args }) => {
+      const source = PARAM_DECORATORS[name];
+      if (!source) return;
+
+      const model: ParamModel = {
+        name: parameter.name.getText(),
+        source,
+        type: resolveType(type, context),
+        optional:
+          parameter.questionToken !== undefined ||
+          parameter.initializer !== undefined,
+      };
+      const key = getParamKey(args, program);
+      if (key !== undefined) model.key = key;
+      parameters.push(model);
+    });
+  });
+
+  return parameters;
+}
@@ -0,0 +1,75 @@
+import ts from 'typescript';
+import { ResponseModel, TypeModel } from '../models/api-model';
+import { resolveType, TypeResolverContext } from './type-resolver';
+
+/**
+ * Wrapper types whose type argument is the actual response body
+ */
+const WRAPPER_TYPES = ['Promise', 'PromiseLike', 'Observable'];
+
+/**
+ * Unwrap Promise and Observable until the response body type is reached.
+ * e.g. Promise<Observable<UserDto[]>> => UserDto[]
+ */
+function unwrapResponseType(type: ts.Type, checker: ts.TypeChecker): ts.Type {
+  let current = type;
+  while (
+    current.symbol &&
+    WRAPPER_TYPES.includes(current.symbol.name) &&
+    current.flags & ts.TypeFlags.Object &&
+    (current as ts.ObjectType).objectFlags & ts.ObjectFlags.Reference
+  ) {
+    const [typeArgument] = checker.getTypeArguments(
+      current as ts.TypeReference,
+    );
+    if (!typeArgument) break;
+    current = typeArgument;
+  }
+  return current;
+}
+
+/**
+ * Resolve the response body type of a route handler from its declared or
+ * inferred return type.
+ * @param method - The route handler
+ * @param program - The TypeScript program
+ * @param context - The type resolver context collecting named types
+ * @param controllerSignature - Signature of the handler on the controller,
+ * used instead of the declared one, e.g. to substitute the type parameters
+ * of a base controller
+ * @returns The response model of the handler
+ */
+export function resolveResponseType(
+  method: ts.MethodDeclaration,
+  program: ts.Program,
+  context: TypeResolverContext,
+  controllerSignature?: ts.Signature,
+): ResponseModel {
+  const checker = program.getTypeChecker();
+  const signature =
+    controllerSignature ?? checker.getSignatureFromDeclaration(method);
+  if (!signature) {
+    return {
+      type: { kind: 'primitive', type: 'unknown' },
+      isArray: false,
+      named: false,
+    };
+  }
+
+  const returnType = unwrapResponseType(
+    checker.getReturnTypeOfSignature(signature),
+    checker,
+  );
+  const type = resolveType(returnType, context);
+
+  let elementType: TypeModel = type;
+  while (elementType.kind === 'array') {
+    elementType = elementType.elementType;
+  }
+
+  return {
+    type,
+    isArray: type.kind === 'array',
+    named: elementType.kind === 'reference',
+  };
+}
@@ -0,0 +1,252 @@
+import ts from 'typescript';
+import { createDiagnostic, Diagnostic } from '../diagnostics/diagnostics';
+import { HttpMethod } from '../models/api-model';
+import { getClassMethods } from './class-resolver';
+import {
+  ArgumentSubstitutions,
+  CustomDecorators,
+  findDecorator,
+  resolveDecorator,
+} from './decorator-resolver';
+import { resolveToLiteral } from './expression-resolver';
+
+/**
+ * Error thrown when a route method decorator is used incorrectly
+ */
+export class InvalidRouteDecoratorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidRouteDecoratorError';
+  }
+}
+
+/**
+ * A version of a controller or route; `null` stands for VERSION_NEUTRAL
+ */
+export type Version = string | null;
+
+export interface RouteInfo {
+  method: ts.MethodDeclaration;
+  /** Name of the handler method */
+  name: string;
+  httpMethod: HttpMethod;
+  /** Paths given to the route decorator */
+  path: string[];
+  /** Controller paths joined with the route paths */
+  fullPath: string[];
+  /** Versions given to the `@Version` decorator */
+  version?: Version[];
+  /** Arguments of the factory declaring the class of the handler */
+  substitutions?: ArgumentSubstitutions;
+}
+
+const HTTP_METHOD_DECORATORS: Record<string, HttpMethod> = {
+  Get: 'GET',
+  Post: 'POST',
+  Put: 'PUT',
+  Patch: 'PATCH',
+  Delete: 'DELETE',
+  Options: 'OPTIONS',
+  Head: 'HEAD',
+  All: 'ALL',
+};
+
+/**
+ * Get the paths from a route decorator
+ */
+function getRoutePath(
+  args: readonly ts.Expression[],
+  program: ts.Program,
+): string[] {
+  const firstArg = args[0];
+  if (!firstArg) return []; // No argument means the controller path itself
+
+  const result = resolveToLiteral(firstArg, program);
+  if (result.valueType === 'StringLiteral') {
+    return [result.value];
+  }
+  if (
+    result.valueType === 'ArrayLiteralExpression' &&
+    result.value.every((element) => typeof element === 'string')
+  ) {
+    return result.value;
+  }
+
+  throw new InvalidRouteDecoratorError(
+    'Route decorator path must be a string or string array',
+  );
+}
+
+/**
+ * Check if an expression refers to VERSION_NEUTRAL of @nestjs/common
+ */
+function isVersionNeutral(expr: ts.Expression): boolean {
+  if (ts.isIdentifier(expr)) return expr.text === 'VERSION_NEUTRAL';
+  if (ts.isPropertyAccessExpression(expr)) {
+    return expr.name.text === 'VERSION_NEUTRAL';
+  }
+  return false;
+}
+
+/**
+ * Resolve the versions given to `@Version`, the `version` option of
+ * `@Controller` or the `defaultVersion` of `enableVersioning`
+ * @returns The versions, or undefined if they cannot be resolved
+ */
+export function resolveVersions(
+  expr: ts.Expression,
+  program: ts.Program,
+): Version[] | undefined {
+  if (isVersionNeutral(expr)) return [null];
+
+  if (ts.isArrayLiteralExpression(expr)) {
+    const versions: Version[] = [];
+    for (const element of expr.elements) {
+      const resolved = resolveVersions(element, program);
+      if (!resolved) return undefined;
+      versions.push(...resolved);
+    }
+    return versions;
+  }
+
+  const result = resolveToLiteral(expr, program);
+  if (result.valueType === 'StringLiteral') {
+    return [result.value];
+  }
+  if (
+    result.valueType === 'ArrayLiteralExpression' &&
+    result.value.every((element) => typeof element === 'string')
+  ) {
+    return result.value;
+  }
+  return undefined;
+}
+
+/**
+ * Get the versions of a handler from its `@Version` decorator
+ */
+function getRouteVersion(
+  args: readonly ts.Expression[],
+  program: ts.Program,
+): Version[] {
+  const firstArg = args[0];
+  const version = firstArg ? resolveVersions(firstArg, program) : undefined;
+  if (!version) {
+    throw new InvalidRouteDecoratorError(
+      'Version decorator must be given a string, string array or VERSION_NEUTRAL',
+    );
+  }
+  return version;
+}
+
+/**
+ * Join path segments into a normalized URL path.
+ * e.g. ('api/', '/users', ':id') => '/api/users/:id'
+ */
+export function joinPaths(...segments: string[]): string {
+  const parts = segments
+    .flatMap((segment) => segment.split('/'))
+    .filter((part) => part.length > 0);
+  return '/' + parts.join('/');
+}
+
+/**
+ * Get every route of a controller class by its route method decorators,
+ * including the routes it inherits from its base classes.
+ * @param cls - The controller class
+ * @param controllerPath - The paths of the controller
+ * @param program - The TypeScript program
+ * @param diagnostics - Collects invalid route decorators and skips their
+ * routes; without it an InvalidRouteDecoratorError is thrown
+ * @param customDecorators - Custom decorators standing for NestJS ones
+ * @param substitutions - Arguments of the factory declaring the class
+ * @returns The list of routes with their full paths
+ */
+export function extractRoutes(
+  cls: ts.ClassLikeDeclaration,
+  controllerPath: string[],
+  program: ts.Program,
+  diagnostics?: Diagnostic[],
+  customDecorators?: CustomDecorators,
+  substitutions?: ArgumentSubstitutions,
+): RouteInfo[] {
+  const basePaths = controllerPath.length > 0 ? controllerPath : [''];
+  const routes: RouteInfo[] = [];
+
+  /**
+   * Run `resolve`, reporting an InvalidRouteDecoratorError at `node`
+   * when collecting diagnostics
+   */
+  const tryResolve = <T>(node: ts.Node, resolve: () => T): T | undefined => {
+    try {
+      return resolve();
+    } catch (error) {
+      if (!diagnostics || !(error instanceof InvalidRouteDecoratorError)) {
+        throw error;
+      }
+      // Binding the source files sets the parent pointers that locating the
+      // diagnostic relies on
+      program.getTypeChecker();
+      diagnostics.push(
+        createDiagnostic(
+          node,
+          'error',
+          'invalid-route-decorator',
+          `${error.message}; the route is skipped`,
+        ),
+      );
+      return undefined;
+    }
+  };
+
+  const methods = getClassMethods(
+    { class: cls, substitutions },
+    program.getTypeChecker(),
+  );
+  methods.forEach(({ method: member, substitutions }) => {
+    const decorators = ts.getDecorators(member) ?? [];
+    const versionDecorator = findDecorator(
+      decorators,
+      ['Version'],
+      program,
+      customDecorators,
+      substitutions,
+    );
+    const version =
+      versionDecorator &&
+      tryResolve(versionDecorator.decorator, () =>
+        getRouteVersion(versionDecorator.resolved.arguments, program),
+      );
+    if (versionDecorator && !version) return;
+    decorators.forEach((decorator) => {
+      resolveDecorator(
+        decorator,
+        program,
+        customDecorators,
+        substitutions,
+      ).forEach(({ name, arguments: args }) => {
+        const httpMethod = HTTP_METHOD_DECORATORS[name];
+        if (!httpMethod) return;
+
+        const path = tryResolve(decorator, () => getRoutePath(args, program));
+        if (!path) return;
+        const routePaths = path.length > 0 ? path : [''];
+        const fullPath = basePaths.flatMap((base) =>
+          routePaths.map((routePath) => joinPaths(base, routePath)),
+        );
+
+        routes.push({
+          method: member,
+          name: (member.name as ts.Identifier).text,
+          httpMethod,
+          path,
+          fullPath,
+          ...(version ? { version } : {}),
+          ...(substitutions ? { substitutions } : {}),
+        });
+      });
+    });
+  });
+
+  return routes;
+}
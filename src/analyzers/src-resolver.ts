@@ -1,5 +1,16 @@
 import ts from 'typescript';
-import { dirname } from 'path';
+import { dirname, isAbsolute, join, relative, resolve, sep } from 'path';
+import { createDiagnostic, Diagnostic } from '../diagnostics/diagnostics';
+import { toPascalCase } from '../generators/naming';
+import { resolveClass } from './class-resolver';
+import {
+  ArgumentSubstitutions,
+  CustomDecorators,
+  findDecorator,
+  getImportedName,
+} from './decorator-resolver';
+import { resolveToLiteral } from './expression-resolver';
+import { resolveVersions, Version } from './route-resolver';
 
 /**
  * Error thrown when a Controller decorator is used incorrectly
@@ -17,7 +28,10 @@ const formatHost: ts.FormatDiagnosticsHost = {
   getNewLine: () => ts.sys.newLine,
 };
 
-export function getProgram(tsconfigPath: string) {
+/**
+ * Read and parse a tsconfig.json
+ */
+function parseConfig(tsconfigPath: string): ts.ParsedCommandLine {
   const configFile = ts.readConfigFile(tsconfigPath, (path) =>
     ts.sys.readFile(path),
   );
@@ -29,47 +43,416 @@ export function getProgram(tsconfigPath: string) {
     configFile.config,
     ts.sys,
     dirname(tsconfigPath),
+    undefined,
+    tsconfigPath,
   );
   if (parsedConfig.errors.length > 0) {
     throw new Error(ts.formatDiagnostic(parsedConfig.errors[0], formatHost));
   }
+  return parsedConfig;
+}
 
-  return ts.createProgram({
-    rootNames: parsedConfig.fileNames,
-    options: parsedConfig.options,
+/**
+ * Get the projects a tsconfig references, directly or through other
+ * referenced projects
+ */
+function getReferencedProjects(
+  config: ts.ParsedCommandLine,
+  visited = new Set<string>(),
+): ts.ParsedCommandLine[] {
+  return (config.projectReferences ?? []).flatMap((reference) => {
+    const tsconfigPath = ts.resolveProjectReferencePath(reference);
+    if (visited.has(tsconfigPath)) return [];
+    visited.add(tsconfigPath);
+    const project = parseConfig(tsconfigPath);
+    return [project, ...getReferencedProjects(project, visited)];
+  });
+}
+
+/**
+ * Get the directory containing every source file of a project, which is
+ * where the compiler takes the output paths from when `rootDir` is not set
+ */
+function getCommonSourceDirectory(fileNames: string[]): string | undefined {
+  const directories = fileNames
+    .filter((fileName) => !fileName.endsWith('.d.ts'))
+    .map((fileName) => dirname(resolve(fileName)).split(sep));
+  if (directories.length === 0) return undefined;
+  const common = directories.reduce((prefix, directory) => {
+    let length = 0;
+    while (length < prefix.length && prefix[length] === directory[length]) {
+      length++;
+    }
+    return prefix.slice(0, length);
   });
+  return common.join(sep) || sep;
 }
 
-export function extractClasses(program: ts.Program): ts.ClassDeclaration[] {
-  const sourceFiles = program.getSourceFiles();
-  const classes: ts.ClassDeclaration[] = [];
+/**
+ * Get the source file of a referenced project that a declaration file in its
+ * output directory was emitted from
+ */
+function getSourceOfOutput(
+  fileName: string,
+  projects: ts.ParsedCommandLine[],
+): string | undefined {
+  if (!fileName.endsWith('.d.ts')) return undefined;
+  for (const { options, fileNames } of projects) {
+    const outDir = options.declarationDir ?? options.outDir;
+    const rootDir = options.rootDir ?? getCommonSourceDirectory(fileNames);
+    if (!outDir || !rootDir) continue;
+    const path = relative(resolve(outDir), resolve(fileName));
+    if (path.startsWith('..') || isAbsolute(path)) continue;
+
+    const source = join(rootDir, path.replace(/\.d\.ts$/, '.ts'));
+    if (fileNames.some((name) => resolve(name) === source)) return source;
+  }
+  return undefined;
+}
 
-  sourceFiles.forEach((file) => {
-    file.forEachChild((node) => {
-      if (ts.isClassDeclaration(node) && node.name) {
-        classes.push(node);
-      }
+/**
+ * Source files shared by the programs of several projects, so that the files
+ * they have in common are parsed once. The programs must have the same
+ * compiler target.
+ */
+export type SourceFileCache = Map<string, ts.SourceFile>;
+
+/**
+ * Resolve the imports of the declaration files that referenced projects emit
+ * to their sources
+ */
+function redirectOutputsToSources(
+  host: ts.ModuleResolutionHost &
+    Pick<ts.CompilerHost, 'resolveModuleNameLiterals' | 'getCurrentDirectory'>,
+  options: ts.CompilerOptions,
+  references: ts.ParsedCommandLine[],
+) {
+  const cache = ts.createModuleResolutionCache(
+    host.getCurrentDirectory(),
+    (fileName) =>
+      ts.sys.useCaseSensitiveFileNames ? fileName : fileName.toLowerCase(),
+    options,
+  );
+  host.resolveModuleNameLiterals = (
+    literals,
+    containingFile,
+    redirectedReference,
+    compilerOptions,
+    containingSourceFile,
+  ) =>
+    literals.map((literal) => {
+      const resolution = ts.resolveModuleName(
+        literal.text,
+        containingFile,
+        compilerOptions,
+        host,
+        cache,
+        redirectedReference,
+        ts.getModeForUsageLocation(
+          containingSourceFile,
+          literal,
+          compilerOptions,
+        ),
+      );
+      const { resolvedModule } = resolution;
+      const source =
+        resolvedModule &&
+        getSourceOfOutput(resolvedModule.resolvedFileName, references);
+      if (!resolvedModule || !source) return resolution;
+      return {
+        ...resolution,
+        resolvedModule: {
+          ...resolvedModule,
+          resolvedFileName: source,
+          extension: ts.Extension.Ts,
+          isExternalLibraryImport: false,
+        },
+      };
     });
+}
+
+/**
+ * Get the files of a project and of the projects it references
+ */
+function getRootNames(
+  fileNames: readonly string[],
+  references: ts.ParsedCommandLine[],
+): string[] {
+  const rootNames = new Set(fileNames);
+  references.forEach((project) =>
+    project.fileNames.forEach((fileName) => rootNames.add(fileName)),
+  );
+  return [...rootNames];
+}
+
+/**
+ * Create the program of a project.
+ *
+ * The files of the projects it references (`references` of the tsconfig) are
+ * part of the program, and imports resolving to the declaration files those
+ * projects emit are redirected to their sources, so that types of shared
+ * libraries are analyzed from their source code.
+ *
+ * @param tsconfigPath - Path to the tsconfig.json of the project
+ * @param sourceFiles - Cache of the source files shared with other programs
+ */
+export function getProgram(
+  tsconfigPath: string,
+  sourceFiles?: SourceFileCache,
+) {
+  const parsedConfig = parseConfig(tsconfigPath);
+  const { options } = parsedConfig;
+  const references = getReferencedProjects(parsedConfig);
+  const host = ts.createCompilerHost(options);
+
+  if (references.length > 0) {
+    redirectOutputsToSources(host, options, references);
+  }
+
+  if (sourceFiles) {
+    const getSourceFile = host.getSourceFile.bind(host);
+    host.getSourceFile = (fileName, languageVersion, ...rest) => {
+      let sourceFile = sourceFiles.get(fileName);
+      if (!sourceFile) {
+        sourceFile = getSourceFile(fileName, languageVersion, ...rest);
+        if (sourceFile) sourceFiles.set(fileName, sourceFile);
+      }
+      return sourceFile;
+    };
+  }
+
+  return ts.createProgram({
+    rootNames: getRootNames(parsedConfig.fileNames, references),
+    options,
+    host,
   });
+}
 
-  return classes;
+/**
+ * Watch the files of a project and create a new program whenever they change.
+ * The new programs reuse the source files that did not change.
+ *
+ * Like with `getProgram`, the files of the referenced projects are part of the
+ * programs and imports of their declaration files are redirected to their
+ * sources. The references are those of the tsconfig when watching starts.
+ *
+ * @param tsconfigPath - Path to the tsconfig.json of the project
+ * @param onProgram - Called with the first program and every updated one
+ * @param sourceFiles - Cache of the source files shared with the programs of
+ * other projects. The files they have with the same text are bound once.
+ * @returns The watcher, which must be closed to stop watching
+ */
+export function watchProgram(
+  tsconfigPath: string,
+  onProgram: (program: ts.Program) => void,
+  sourceFiles?: SourceFileCache,
+): ts.WatchOfConfigFile<ts.SemanticDiagnosticsBuilderProgram> {
+  const parsedConfig = parseConfig(tsconfigPath);
+  const references = getReferencedProjects(parsedConfig);
+  const host = ts.createWatchCompilerHost(
+    tsconfigPath,
+    {},
+    ts.sys,
+    ts.createSemanticDiagnosticsBuilderProgram,
+    (diagnostic) => console.error(ts.formatDiagnostic(diagnostic, formatHost)),
+    () => {},
+  );
+
+  if (references.length > 0) {
+    redirectOutputsToSources(host, parsedConfig.options, references);
+  }
+
+  const createProgram = host.createProgram;
+  let isSharing = false;
+  // The project references are left out like in `getProgram`: given them,
+  // the program would take the outputs of the referenced projects instead of
+  // their sources
+  host.createProgram = (
+    rootNames,
+    options,
+    compilerHost,
+    oldProgram,
+    configFileParsingDiagnostics,
+  ) => {
+    if (sourceFiles && compilerHost && !isSharing) {
+      shareSourceFiles(compilerHost, sourceFiles);
+      isSharing = true;
+    }
+    return createProgram(
+      rootNames && getRootNames(rootNames, references),
+      options,
+      compilerHost,
+      oldProgram,
+      configFileParsingDiagnostics,
+    );
+  };
+  // Neither emit nor type check, only the program is analyzed
+  host.afterProgramCreate = (builder) => onProgram(builder.getProgram());
+  return ts.createWatchProgram(host);
 }
 
-interface ControllerInfo {
-  class: ts.ClassDeclaration;
-  path: string[];
+/**
+ * Replace the source files a watch host gives by those of the cache having
+ * the same text, and cache the others. The watch host still reads and parses
+ * the files it does not have yet or that changed.
+ */
+function shareSourceFiles(host: ts.CompilerHost, sourceFiles: SourceFileCache) {
+  const share = (sourceFile: ts.SourceFile | undefined) => {
+    if (!sourceFile) return sourceFile;
+    const cached = sourceFiles.get(sourceFile.fileName);
+    if (cached?.text === sourceFile.text) return cached;
+    sourceFiles.set(sourceFile.fileName, sourceFile);
+    return sourceFile;
+  };
+  const getSourceFile = host.getSourceFile.bind(host);
+  host.getSourceFile = (...args) => share(getSourceFile(...args));
+  const getSourceFileByPath = host.getSourceFileByPath?.bind(host);
+  if (getSourceFileByPath) {
+    host.getSourceFileByPath = (...args) => share(getSourceFileByPath(...args));
+  }
 }
 
 /**
- * Check if a decorator is a Controller decorator
+ * A class declared at the top level of a source file or of a namespace,
+ * which may be a controller
  */
-function isControllerDecorator(decorator: ts.Decorator): boolean {
-  if (!ts.isCallExpression(decorator.expression)) return false;
+export interface DeclaredClass {
+  /** Name the class is referred to by */
+  name: string;
+  /**
+   * The class: the class declaration or expression, or the class declared in
+   * the factory creating it
+   */
+  class: ts.ClassLikeDeclaration;
+  /**
+   * What modules refer to: the class declaration, or the variable or default
+   * export the class is assigned to
+   */
+  declaration: ts.Declaration;
+  /** Arguments given to the factory creating the class */
+  substitutions?: ArgumentSubstitutions;
+}
 
-  const expression = decorator.expression.expression;
-  if (!ts.isIdentifier(expression)) return false;
+/**
+ * Name an anonymous default export after its file,
+ * e.g. `users.controller.ts` => `UsersController`
+ */
+function getDefaultExportName(sourceFile: ts.SourceFile): string {
+  const baseName = sourceFile.fileName
+    .split(/[\\/]/)
+    .pop()!
+    .replace(/\.[cm]?tsx?$/, '');
+  return toPascalCase(baseName);
+}
+
+/**
+ * Collect the classes declared by statements, looking into namespaces:
+ * class declarations, default exports, and constants holding a class
+ * expression or the class created by a factory.
+ * Classes of namespaces are named after them, e.g. `V1UsersController` for
+ * `UsersController` of `namespace V1`, so they do not collide with the
+ * classes of other namespaces.
+ */
+function collectClasses(
+  statements: readonly ts.Statement[],
+  checker: ts.TypeChecker,
+  classes: DeclaredClass[],
+  namespace = '',
+) {
+  statements.forEach((statement) => {
+    if (ts.isClassDeclaration(statement)) {
+      const isDefaultExport = ts
+        .getModifiers(statement)
+        ?.some(({ kind }) => kind === ts.SyntaxKind.DefaultKeyword);
+      const name =
+        statement.name?.text ??
+        (isDefaultExport
+          ? getDefaultExportName(statement.getSourceFile())
+          : undefined);
+      if (name) {
+        classes.push({
+          name: namespace + name,
+          class: statement,
+          declaration: statement,
+        });
+      }
+    } else if (ts.isVariableStatement(statement)) {
+      statement.declarationList.declarations.forEach((declaration) => {
+        const { name, initializer } = declaration;
+        if (!ts.isIdentifier(name) || !initializer) return;
+        // Aliases of classes declared elsewhere are left to their declaration
+        if (ts.isIdentifier(initializer)) return;
+        const resolved = resolveClass(initializer, checker);
+        if (resolved) {
+          classes.push({
+            name: namespace + name.text,
+            declaration,
+            ...resolved,
+          });
+        }
+      });
+    } else if (ts.isExportAssignment(statement) && !statement.isExportEquals) {
+      if (ts.isIdentifier(statement.expression)) return;
+      const resolved = resolveClass(statement.expression, checker);
+      if (resolved) {
+        classes.push({
+          name:
+            resolved.class.name?.text ??
+            getDefaultExportName(statement.getSourceFile()),
+          declaration: statement,
+          ...resolved,
+        });
+      }
+    } else if (ts.isModuleDeclaration(statement)) {
+      // namespace Api.V1 { ... } nests a declaration per name
+      let names = namespace + statement.name.text;
+      let body = statement.body;
+      while (body && ts.isModuleDeclaration(body)) {
+        names += body.name.text;
+        body = body.body;
+      }
+      if (body && ts.isModuleBlock(body)) {
+        collectClasses(body.statements, checker, classes, names);
+      }
+    }
+  });
+}
+
+/**
+ * Get the classes of the source files of a program, declared at their top
+ * level or in namespaces, including class expressions and classes created by
+ * factories assigned to constants, e.g.
+ * `export const UsersController = createCrudController(User)`.
+ * Declaration files and files of external libraries are skipped.
+ * @param program - The TypeScript program
+ * @param filter - Only the files accepted by this filter are looked into
+ */
+export function extractClasses(
+  program: ts.Program,
+  filter?: (sourceFile: ts.SourceFile) => boolean,
+): DeclaredClass[] {
+  const checker = program.getTypeChecker();
+  const classes: DeclaredClass[] = [];
+  program
+    .getSourceFiles()
+    .filter(
+      (file) =>
+        !file.isDeclarationFile &&
+        !program.isSourceFileFromExternalLibrary(file) &&
+        (!filter || filter(file)),
+    )
+    .forEach((file) => collectClasses(file.statements, checker, classes));
+  return classes;
+}
 
-  return expression.text === 'Controller';
+export interface ControllerInfo extends DeclaredClass {
+  path: string[];
+  /** The `version` option of the Controller decorator */
+  version?: Version[];
+  /** The `host` option of the Controller decorator */
+  host?: string[];
+  /** Tags given by `@ApiTags()` */
+  tags?: string[];
 }
 
 /**
@@ -126,6 +509,27 @@ function resolveVariable(
     return initializer;
   }
 
+  return getPathFromLiteral(initializer, program);
+}
+
+/**
+ * Get the path from an expression folded to a constant,
+ * e.g. 'api/' + VERSION or ROUTES.users.base
+ */
+function getPathFromLiteral(
+  expr: ts.Expression,
+  program: ts.Program,
+): string | string[] | undefined {
+  const result = resolveToLiteral(expr, program);
+  if (result.valueType === 'StringLiteral') {
+    return result.value;
+  }
+  if (
+    result.valueType === 'ArrayLiteralExpression' &&
+    result.value.every((element) => typeof element === 'string')
+  ) {
+    return result.value;
+  }
   return undefined;
 }
 
@@ -133,16 +537,10 @@ function resolveVariable(
  * Get the path from a Controller decorator
  */
 function getControllerPath(
-  decorator: ts.Decorator,
+  args: readonly ts.Expression[],
   program: ts.Program,
 ): string[] {
-  if (!ts.isCallExpression(decorator.expression)) {
-    throw new InvalidControllerDecoratorError(
-      'Controller decorator must be a function call',
-    );
-  }
-
-  const firstArg = decorator.expression.arguments[0];
+  const firstArg = args[0];
   if (!firstArg) return []; // No argument means empty path array
 
   if (ts.isObjectLiteralExpression(firstArg)) {
@@ -177,19 +575,23 @@ function getPathFromArray(
 
   const paths: string[] = [];
   for (const element of elements) {
+    let resolved: ReturnType<typeof resolveVariable>;
     if (ts.isStringLiteral(element)) {
-      paths.push(element.text);
+      resolved = element.text;
     } else if (ts.isIdentifier(element)) {
-      const resolved = resolveVariable(element, program);
-      if (typeof resolved === 'string') {
-        paths.push(resolved);
-      } else if (Array.isArray(resolved)) {
-        paths.push(...resolved);
-      } else {
-        throw new InvalidControllerDecoratorError(
-          'Controller decorator array elements must be strings or string variables',
-        );
-      }
+      resolved = resolveVariable(element, program);
+    } else {
+      // Spread elements, e.g. [...BASE_PATHS, 'v1'], and folded constants
+      resolved = getPathFromLiteral(
+        ts.isSpreadElement(element) ? element.expression : element,
+        program,
+      );
+    }
+
+    if (typeof resolved === 'string') {
+      paths.push(resolved);
+    } else if (Array.isArray(resolved)) {
+      paths.push(...resolved);
     } else {
       throw new InvalidControllerDecoratorError(
         'Controller decorator array elements must be strings or string variables',
@@ -213,8 +615,26 @@ function getPathFromOptions(
     return prop.name.text === 'path';
   });
 
-  // If path property is not present, return empty array
-  if (!pathProperty) return [];
+  // The path may still come from a spread or shorthand property
+  if (!pathProperty) {
+    const options = resolveToLiteral(arg, program);
+    const path =
+      options.valueType === 'ObjectLiteralExpression'
+        ? options.value.path
+        : undefined;
+    // If path property is not present, return empty array
+    if (path === undefined) return [];
+    if (typeof path === 'string') return [path];
+    if (
+      Array.isArray(path) &&
+      path.every((element) => typeof element === 'string')
+    ) {
+      return path;
+    }
+    throw new InvalidControllerDecoratorError(
+      'Controller decorator path property must be a string, string array, or string variable',
+    );
+  }
 
   if (!ts.isPropertyAssignment(pathProperty)) {
     throw new InvalidControllerDecoratorError(
@@ -231,14 +651,14 @@ function getPathFromOptions(
     return getPathFromArray(initializer.elements, program);
   }
 
-  if (ts.isIdentifier(initializer)) {
-    const resolved = resolveVariable(initializer, program);
-    if (typeof resolved === 'string') {
-      return [resolved];
-    }
-    if (Array.isArray(resolved)) {
-      return resolved;
-    }
+  const resolved = ts.isIdentifier(initializer)
+    ? resolveVariable(initializer, program)
+    : getPathFromLiteral(initializer, program);
+  if (typeof resolved === 'string') {
+    return [resolved];
+  }
+  if (Array.isArray(resolved)) {
+    return resolved;
   }
 
   throw new InvalidControllerDecoratorError(
@@ -246,6 +666,105 @@ function getPathFromOptions(
   );
 }
 
+/**
+ * Get the ControllerOptions object given to a Controller decorator, if any
+ */
+function getControllerOptions(
+  args: readonly ts.Expression[],
+  program: ts.Program,
+): ts.ObjectLiteralExpression | undefined {
+  const firstArg = args[0];
+  if (!firstArg) return undefined;
+  if (ts.isObjectLiteralExpression(firstArg)) return firstArg;
+  if (ts.isIdentifier(firstArg)) {
+    const resolved = resolveVariable(firstArg, program);
+    if (resolved && !Array.isArray(resolved) && typeof resolved !== 'string') {
+      return resolved;
+    }
+  }
+  return undefined;
+}
+
+function getOptionInitializer(
+  options: ts.ObjectLiteralExpression,
+  name: string,
+): ts.Expression | undefined {
+  for (const property of options.properties) {
+    if (
+      ts.isPropertyAssignment(property) &&
+      ts.isIdentifier(property.name) &&
+      property.name.text === name
+    ) {
+      return property.initializer;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Get the tags given to the `@ApiTags()` decorators of @nestjs/swagger
+ */
+function getApiTags(
+  decorators: readonly ts.Decorator[],
+  program: ts.Program,
+): string[] | undefined {
+  const checker = program.getTypeChecker();
+  const tags = decorators.flatMap(({ expression }) => {
+    if (
+      !ts.isCallExpression(expression) ||
+      getImportedName(expression.expression, ['@nestjs/swagger'], checker) !==
+        'ApiTags'
+    ) {
+      return [];
+    }
+    return expression.arguments.flatMap((arg) => {
+      const result = resolveToLiteral(arg, program);
+      return result.valueType === 'StringLiteral' ? [result.value] : [];
+    });
+  });
+  return tags.length > 0 ? tags : undefined;
+}
+
+/**
+ * Get the `version` and `host` options of a Controller decorator
+ */
+function getVersionAndHost(
+  args: readonly ts.Expression[],
+  program: ts.Program,
+): Pick<ControllerInfo, 'version' | 'host'> {
+  const options = getControllerOptions(args, program);
+  if (!options) return {};
+
+  const info: Pick<ControllerInfo, 'version' | 'host'> = {};
+  const versionInitializer = getOptionInitializer(options, 'version');
+  if (versionInitializer) {
+    info.version = resolveVersions(versionInitializer, program);
+    if (!info.version) {
+      throw new InvalidControllerDecoratorError(
+        'Controller decorator version property must be a string, string array, or VERSION_NEUTRAL',
+      );
+    }
+  }
+
+  const hostInitializer = getOptionInitializer(options, 'host');
+  if (hostInitializer) {
+    const result = resolveToLiteral(hostInitializer, program);
+    if (result.valueType === 'StringLiteral') {
+      info.host = [result.value];
+    } else if (
+      result.valueType === 'ArrayLiteralExpression' &&
+      result.value.every((element) => typeof element === 'string')
+    ) {
+      info.host = result.value;
+    } else {
+      throw new InvalidControllerDecoratorError(
+        'Controller decorator host property must be a string or string array',
+      );
+    }
+  }
+  return info;
+}
+
 /**
  * Get the path from a string literal or variable reference
  */
@@ -268,36 +787,80 @@ function getPathFromArgument(
     if (resolved && ts.isObjectLiteralExpression(resolved)) {
       return getPathFromOptions(resolved, program);
     }
+    return undefined;
   }
 
-  return undefined;
+  const resolved = getPathFromLiteral(arg as ts.Expression, program);
+  if (typeof resolved === 'string') {
+    return [resolved];
+  }
+  return resolved;
 }
 
 /**
  * Check if the class is a controller class and get its path.
- * Check by nestjs Controller decorator.
+ * Check by nestjs Controller decorator, however it is imported or composed.
  * @param classes - The list of classes to check
  * @param program - The TypeScript program
+ * @param diagnostics - Collects invalid Controller decorators and skips
+ * their classes; without it an InvalidControllerDecoratorError is thrown
+ * @param customDecorators - Custom decorators standing for NestJS ones
  * @returns The list of controller classes with their paths
  */
 export function filterControllerClasses(
-  classes: ts.ClassDeclaration[],
+  classes: DeclaredClass[],
   program: ts.Program,
+  diagnostics?: Diagnostic[],
+  customDecorators?: CustomDecorators,
 ): ControllerInfo[] {
   return classes
-    .map((cls) => {
+    .map((declared) => {
+      const { class: cls, substitutions } = declared;
       const decorators = ts.canHaveDecorators(cls)
         ? ts.getDecorators(cls)
         : undefined;
       if (!decorators) return null;
 
-      const controllerDecorator = decorators.find(isControllerDecorator);
-      if (!controllerDecorator) return null;
-
-      const path = getControllerPath(controllerDecorator, program);
-      if (path === undefined) return null;
-
-      return { class: cls, path };
+      const controller = findDecorator(
+        decorators,
+        ['Controller'],
+        program,
+        customDecorators,
+        substitutions,
+      );
+      if (!controller) return null;
+      const { decorator: controllerDecorator, resolved } = controller;
+
+      try {
+        const path = getControllerPath(resolved.arguments, program);
+        const tags = getApiTags(decorators, program);
+
+        return {
+          ...declared,
+          path,
+          ...getVersionAndHost(resolved.arguments, program),
+          ...(tags ? { tags } : {}),
+        };
+      } catch (error) {
+        if (
+          !diagnostics ||
+          !(error instanceof InvalidControllerDecoratorError)
+        ) {
+          throw error;
+        }
+        // Binding the source files sets the parent pointers that locating the
+        // diagnostic relies on
+        program.getTypeChecker();
+        diagnostics.push(
+          createDiagnostic(
+            controllerDecorator,
+            'error',
+            'invalid-controller-decorator',
+            `${error.message}; ${declared.name} is skipped`,
+          ),
+        );
+        return null;
+      }
     })
     .filter((info) => info !== null);
 }
@@ -0,0 +1,935 @@
+import ts from 'typescript';
+import { createDiagnostic, Diagnostic } from '../diagnostics/diagnostics';
+import { getUniqueName, toPascalCase } from '../generators/naming';
+import { getImportedName } from './decorator-resolver';
+import { resolveToLiteral } from './expression-resolver';
+import {
+  Discriminator,
+  PropertyModel,
+  TypeDeclaration,
+  TypeModel,
+} from '../models/api-model';
+
+/**
+ * State shared while resolving the types of a program.
+ * Named types are collected in `declarations` so they are resolved only once.
+ */
+export interface TypeResolverContext {
+  program: ts.Program;
+  checker: ts.TypeChecker;
+  /** Declarations keyed by the name they are generated with */
+  declarations: Map<string, TypeDeclaration>;
+  /** Names of the declarations keyed by their identity, see `getTypeKey` */
+  names: Map<string, string>;
+  /** Collects the types renamed since another one has the same name */
+  diagnostics?: Diagnostic[];
+}
+
+export function createTypeResolverContext(
+  program: ts.Program,
+  diagnostics?: Diagnostic[],
+): TypeResolverContext {
+  return {
+    program,
+    checker: program.getTypeChecker(),
+    declarations: new Map(),
+    names: new Map(),
+    diagnostics,
+  };
+}
+
+/**
+ * Get the collected declarations sorted by name
+ */
+export function getTypeDeclarations(
+  context: TypeResolverContext,
+): TypeDeclaration[] {
+  return [...context.declarations.values()].sort((a, b) =>
+    a.name.localeCompare(b.name),
+  );
+}
+
+/**
+ * Get the identities of the collected declarations keyed by their names,
+ * which tell apart the types of different files having the same name
+ */
+export function getDeclarationKeys(
+  context: TypeResolverContext,
+): Record<string, string> {
+  return Object.fromEntries(
+    [...context.names].map(([key, name]) => [name, key]),
+  );
+}
+
+/**
+ * Create the diagnostic of a type renamed since another type has its name
+ */
+export function createDuplicateNameDiagnostic(
+  node: ts.Node,
+  name: string,
+  uniqueName: string,
+): Diagnostic {
+  return createDiagnostic(
+    node,
+    'warning',
+    'duplicate-type-name',
+    `Another type is named ${name}; this one is generated as ${uniqueName}`,
+  );
+}
+
+/**
+ * Get the name a declaration is generated with, numbering the name it is
+ * declared with when a different type already has it
+ */
+function getGeneratedName(
+  key: string,
+  name: string,
+  symbol: ts.Symbol | undefined,
+  context: TypeResolverContext,
+): string {
+  const uniqueName = getUniqueName(
+    name,
+    (candidate) => context.declarations.has(candidate),
+    { suffix: 'Dto' },
+  );
+  context.names.set(key, uniqueName);
+  const node = symbol?.declarations?.[0];
+  if (uniqueName !== name && node) {
+    context.diagnostics?.push(
+      createDuplicateNameDiagnostic(
+        ts.getNameOfDeclaration(node) ?? node,
+        name,
+        uniqueName,
+      ),
+    );
+  }
+  return uniqueName;
+}
+
+/**
+ * Get what identifies a named type in the program: the file of its
+ * declaration and its fully qualified name, with its type arguments
+ */
+function getTypeKey(
+  type: ts.Type,
+  symbol: ts.Symbol | undefined,
+  checker: ts.TypeChecker,
+): string {
+  const name = checker.typeToString(
+    type,
+    undefined,
+    ts.TypeFormatFlags.UseFullyQualifiedType | ts.TypeFormatFlags.NoTruncation,
+  );
+  return `${getFileName(symbol)}:${name}`;
+}
+
+const PRIMITIVE_TYPES: [ts.TypeFlags, TypeModel][] = [
+  [ts.TypeFlags.Any, { kind: 'primitive', type: 'any' }],
+  [ts.TypeFlags.Unknown, { kind: 'primitive', type: 'unknown' }],
+  [ts.TypeFlags.String, { kind: 'primitive', type: 'string' }],
+  [ts.TypeFlags.Number, { kind: 'primitive', type: 'number' }],
+  [ts.TypeFlags.Boolean, { kind: 'primitive', type: 'boolean' }],
+  [ts.TypeFlags.BigInt, { kind: 'primitive', type: 'bigint' }],
+  [ts.TypeFlags.Null, { kind: 'primitive', type: 'null' }],
+  [ts.TypeFlags.Undefined, { kind: 'primitive', type: 'undefined' }],
+  [ts.TypeFlags.Void, { kind: 'primitive', type: 'void' }],
+  [ts.TypeFlags.Never, { kind: 'primitive', type: 'never' }],
+  [ts.TypeFlags.NonPrimitive, { kind: 'primitive', type: 'object' }],
+];
+
+const NULLISH_FLAGS = ts.TypeFlags.Null | ts.TypeFlags.Undefined;
+
+/**
+ * Converts a TypeScript type to a TypeModel.
+ * Named classes, interfaces, type aliases, unions and enums are registered in the
+ * context and returned as references.
+ *
+ * @param type: ts.Type
+ * @param context: TypeResolverContext
+ * @returns TypeModel
+ */
+export function resolveType(
+  type: ts.Type,
+  context: TypeResolverContext,
+): TypeModel {
+  if (type.flags & ts.TypeFlags.EnumLike && type.symbol) {
+    return resolveEnumType(type, context);
+  }
+
+  for (const [flag, model] of PRIMITIVE_TYPES) {
+    if (type.flags & flag) return model;
+  }
+
+  if (type.isStringLiteral() || type.isNumberLiteral()) {
+    return { kind: 'literal', value: type.value };
+  }
+  if (type.flags & ts.TypeFlags.BooleanLiteral) {
+    return {
+      kind: 'literal',
+      value: context.checker.typeToString(type) === 'true',
+    };
+  }
+
+  if (type.isUnion()) {
+    return resolveUnionType(type, context);
+  }
+
+  if (type.isIntersection()) {
+    return resolveIntersectionType(type, context);
+  }
+
+  if (type.flags & ts.TypeFlags.Object) {
+    return resolveObjectType(type as ts.ObjectType, context);
+  }
+
+  return { kind: 'primitive', type: 'unknown' };
+}
+
+function resolveUnionType(
+  type: ts.UnionType,
+  context: TypeResolverContext,
+): TypeModel {
+  const aliased = getAliasedUnion(type);
+  if (!aliased) return resolveUnionMembers(type.types, context);
+
+  const reference = resolveAliasedUnion(aliased, context);
+  return type.types.some((member) => member.flags & ts.TypeFlags.Null)
+    ? { kind: 'union', types: [reference, { kind: 'primitive', type: 'null' }] }
+    : reference;
+}
+
+/**
+ * Get the named union of object types a union is, or is made of with null
+ * and undefined, e.g. `Shape` of `shape?: Shape` or `shape: Shape | null`.
+ * TypeScript flattens those into a new union, which keeps the union it was
+ * made of as its (internal) origin.
+ */
+function getAliasedUnion(type: ts.UnionType): ts.UnionType | undefined {
+  let aliased: ts.Type | undefined = type;
+  if (!type.aliasSymbol) {
+    const { origin } = type as ts.UnionType & { origin?: ts.Type };
+    const members = origin?.isUnion()
+      ? origin.types.filter((member) => !(member.flags & NULLISH_FLAGS))
+      : [];
+    aliased = members.length === 1 ? members[0] : undefined;
+  }
+  if (
+    !aliased?.isUnion() ||
+    !aliased.aliasSymbol ||
+    isLibSymbol(aliased.aliasSymbol)
+  ) {
+    return undefined;
+  }
+  const members = aliased.types.filter(
+    (member) => !(member.flags & NULLISH_FLAGS),
+  );
+  return members.length > 1 &&
+    members.some((member) => member.flags & ts.TypeFlags.Object)
+    ? aliased
+    : undefined;
+}
+
+/**
+ * Register a named union in the context and return a reference to it
+ */
+function resolveAliasedUnion(
+  type: ts.UnionType,
+  context: TypeResolverContext,
+): TypeModel {
+  const { checker } = context;
+  const symbol = type.aliasSymbol;
+  const key = getTypeKey(type, symbol, checker);
+  let name = context.names.get(key);
+  if (name === undefined) {
+    name = getGeneratedName(
+      key,
+      getDeclarationName(type, checker)!,
+      symbol,
+      context,
+    );
+    const declaration: TypeDeclaration = {
+      kind: 'alias',
+      name,
+      fileName: getFileName(symbol),
+      ...getLine(symbol),
+      type: { kind: 'primitive', type: 'unknown' },
+    };
+    const description = getDescription(symbol, checker);
+    if (description) declaration.description = description;
+    // Register before resolving the members to support recursive types
+    context.declarations.set(name, declaration);
+
+    declaration.type = resolveUnionMembers(
+      type.types.filter((member) => !(member.flags & NULLISH_FLAGS)),
+      context,
+    );
+  }
+  return { kind: 'reference', name };
+}
+
+function resolveUnionMembers(
+  unionTypes: readonly ts.Type[],
+  context: TypeResolverContext,
+): TypeModel {
+  const members = unionTypes.filter(
+    (member) => !(member.flags & ts.TypeFlags.Undefined),
+  );
+
+  // `A | B | null` of a discriminated union is kept as `(A | B) | null`
+  const nonNull = members.filter(
+    (member) => !(member.flags & ts.TypeFlags.Null),
+  );
+  const discriminator = findDiscriminator(nonNull, context.checker);
+  if (discriminator) {
+    const union: TypeModel = {
+      kind: 'union',
+      types: nonNull.map((member) => resolveType(member, context)),
+      discriminator,
+    };
+    return nonNull.length === members.length
+      ? union
+      : { kind: 'union', types: [union, { kind: 'primitive', type: 'null' }] };
+  }
+
+  const hasTrue = members.some(
+    (member) =>
+      member.flags & ts.TypeFlags.BooleanLiteral &&
+      context.checker.typeToString(member) === 'true',
+  );
+  const hasFalse = members.some(
+    (member) =>
+      member.flags & ts.TypeFlags.BooleanLiteral &&
+      context.checker.typeToString(member) === 'false',
+  );
+
+  const types: TypeModel[] = [];
+  if (hasTrue && hasFalse) {
+    types.push({ kind: 'primitive', type: 'boolean' });
+  }
+  members.forEach((member) => {
+    if (hasTrue && hasFalse && member.flags & ts.TypeFlags.BooleanLiteral) {
+      return;
+    }
+    // The members of an enum, e.g. of `Role | undefined` under
+    // strictNullChecks, all resolve to the same reference to the enum
+    const model = resolveType(member, context);
+    if (!types.some((type) => isSameType(type, model))) types.push(model);
+  });
+
+  if (types.length === 0) return { kind: 'primitive', type: 'undefined' };
+  if (types.length === 1) return types[0];
+  return { kind: 'union', types };
+}
+
+function isSameType(a: TypeModel, b: TypeModel): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Find the first property of the object types of a union whose type is a
+ * different string or number literal in each of them
+ */
+function findDiscriminator(
+  types: readonly ts.Type[],
+  checker: ts.TypeChecker,
+): Discriminator | undefined {
+  if (
+    types.length < 2 ||
+    !types.every(
+      (type) => type.flags & ts.TypeFlags.Object && !checker.isArrayType(type),
+    )
+  ) {
+    return undefined;
+  }
+
+  for (const property of checker.getPropertiesOfType(types[0])) {
+    const values: (string | number)[] = [];
+    for (const type of types) {
+      const symbol = checker.getPropertyOfType(type, property.name);
+      const propertyType = symbol && checker.getTypeOfSymbol(symbol);
+      if (
+        !propertyType ||
+        !(propertyType.isStringLiteral() || propertyType.isNumberLiteral())
+      ) {
+        break;
+      }
+      values.push(propertyType.value);
+    }
+    if (
+      values.length === types.length &&
+      new Set(values).size === values.length
+    ) {
+      return { propertyName: property.name, values };
+    }
+  }
+  return undefined;
+}
+
+function resolveObjectType(
+  type: ts.ObjectType,
+  context: TypeResolverContext,
+): TypeModel {
+  const { checker } = context;
+
+  if (checker.isArrayType(type)) {
+    const [elementType] = checker.getTypeArguments(type as ts.TypeReference);
+    return { kind: 'array', elementType: resolveType(elementType, context) };
+  }
+  if (checker.isTupleType(type)) {
+    const elementTypes = checker
+      .getTypeArguments(type as ts.TypeReference)
+      .map((elementType) => resolveType(elementType, context));
+    return {
+      kind: 'array',
+      elementType:
+        elementTypes.length === 1
+          ? elementTypes[0]
+          : { kind: 'union', types: elementTypes },
+    };
+  }
+
+  const symbol = type.aliasSymbol ?? type.symbol;
+  if (symbol && isLibSymbol(symbol)) {
+    if (symbol.name === 'Date') return { kind: 'date' };
+    // Utility types like Record<K, V> are resolved by their structure,
+    // other built-in types are not described any further.
+    if (!type.aliasSymbol) return { kind: 'primitive', type: 'object' };
+    return resolveStructure(type, context);
+  }
+
+  return resolveNamedType(type, symbol, context);
+}
+
+/**
+ * Resolve an intersection to an object with the properties of its members,
+ * e.g. `Page & { extra: boolean }`. Branded primitives like
+ * `string & { __brand: 'Email' }` resolve to their primitive member.
+ */
+function resolveIntersectionType(
+  type: ts.IntersectionType,
+  context: TypeResolverContext,
+): TypeModel {
+  const primitive = type.types.find(
+    (member) => !(member.flags & ts.TypeFlags.Object),
+  );
+  if (primitive) return resolveType(primitive, context);
+  return resolveNamedType(type, type.aliasSymbol, context);
+}
+
+/**
+ * Register a named type in the context and return a reference to it, or
+ * resolve the structure of an anonymous type
+ */
+function resolveNamedType(
+  type: ts.Type,
+  symbol: ts.Symbol | undefined,
+  context: TypeResolverContext,
+): TypeModel {
+  const { checker } = context;
+  const declaredName = getDeclarationName(type, checker);
+  if (declaredName === undefined) {
+    return resolveStructure(type, context);
+  }
+
+  const key = getTypeKey(type, symbol, checker);
+  let name = context.names.get(key);
+  if (name === undefined) {
+    name = getGeneratedName(key, declaredName, symbol, context);
+    const declaration: TypeDeclaration = {
+      kind: 'object',
+      name,
+      fileName: getFileName(symbol),
+      ...getLine(symbol),
+      properties: [],
+    };
+    const description = getDescription(symbol, checker);
+    if (description) declaration.description = description;
+    // Register before resolving the properties to support recursive types
+    context.declarations.set(name, declaration);
+
+    const structure = resolveStructure(type, context);
+    if (structure.kind === 'object') {
+      declaration.properties = structure.properties;
+    }
+  }
+  return { kind: 'reference', name };
+}
+
+/**
+ * Get the name a type is declared with, or undefined for anonymous types.
+ * Instantiations of generic types are named after their type arguments,
+ * e.g. `PaginatedResponse<UserDto>` is `PaginatedResponseOfUserDto`.
+ */
+function getDeclarationName(
+  type: ts.Type,
+  checker: ts.TypeChecker,
+): string | undefined {
+  let name: string | undefined;
+  if (type.aliasSymbol) {
+    name = type.aliasSymbol.name;
+  } else if (
+    type.symbol &&
+    type.symbol.flags & (ts.SymbolFlags.Class | ts.SymbolFlags.Interface)
+  ) {
+    name = type.symbol.name;
+  }
+  if (name === undefined) return undefined;
+
+  const typeArguments = getTypeArguments(type, checker);
+  if (typeArguments.length === 0) return name;
+  return `${name}Of${typeArguments
+    .map((argument) => getTypeArgumentName(argument, checker))
+    .join('And')}`;
+}
+
+/**
+ * Get the type arguments a generic type is instantiated with
+ */
+function getTypeArguments(
+  type: ts.Type,
+  checker: ts.TypeChecker,
+): readonly ts.Type[] {
+  if (type.aliasSymbol) return type.aliasTypeArguments ?? [];
+  if (
+    !(type.flags & ts.TypeFlags.Object) ||
+    !((type as ts.ObjectType).objectFlags & ts.ObjectFlags.Reference)
+  ) {
+    return [];
+  }
+
+  const { target } = type as ts.TypeReference;
+  if (target === type) return [];
+  // Classes and interfaces have an implicit `this` type argument at the end
+  return checker
+    .getTypeArguments(type as ts.TypeReference)
+    .slice(0, target.typeParameters?.length ?? 0);
+}
+
+/**
+ * Get the name a type argument contributes to the name of an instantiation
+ */
+function getTypeArgumentName(type: ts.Type, checker: ts.TypeChecker): string {
+  if (type.flags & ts.TypeFlags.EnumLike && type.symbol) {
+    // A member of an enum is named after the enum itself
+    const declaration = type.symbol.declarations?.[0];
+    return declaration && ts.isEnumMember(declaration)
+      ? declaration.parent.name.text
+      : type.symbol.name;
+  }
+  if (type.flags & ts.TypeFlags.Boolean) return 'Boolean';
+  if (type.isUnion()) {
+    const names = new Set(
+      type.types.map((member) => getTypeArgumentName(member, checker)),
+    );
+    // Nullable types read as `StatusOrNull`
+    const nullish = ['Null', 'Undefined'].filter((name) => names.delete(name));
+    return [...names, ...nullish].join('Or');
+  }
+  if (type.flags & ts.TypeFlags.Object) {
+    if (checker.isArrayType(type)) {
+      const [elementType] = checker.getTypeArguments(type as ts.TypeReference);
+      return `${getTypeArgumentName(elementType, checker)}Array`;
+    }
+    return getDeclarationName(type, checker) ?? 'Object';
+  }
+  return toPascalCase(checker.typeToString(type));
+}
+
+/**
+ * Resolve the members of an object type
+ */
+function resolveStructure(
+  type: ts.Type,
+  context: TypeResolverContext,
+): TypeModel {
+  const { checker } = context;
+
+  // Classes extending PartialType(), PickType() and the like get the
+  // properties of the mapped type and their own
+  const classDeclaration = type.symbol?.declarations?.find(
+    ts.isClassDeclaration,
+  );
+  const mappedProperties =
+    classDeclaration && getMappedBaseProperties(classDeclaration, context);
+
+  const properties = checker
+    .getPropertiesOfType(type)
+    .filter(
+      (property) =>
+        !mappedProperties ||
+        property.declarations?.some(
+          (declaration) => declaration.parent === classDeclaration,
+        ),
+    )
+    .map((property) => resolveProperty(property, context))
+    .filter((property) => property !== undefined);
+  if (mappedProperties) {
+    return {
+      kind: 'object',
+      properties: mergeProperties(mappedProperties, properties),
+    };
+  }
+
+  const indexType = checker.getIndexTypeOfType(type, ts.IndexKind.String);
+  if (properties.length === 0 && indexType) {
+    return { kind: 'record', valueType: resolveType(indexType, context) };
+  }
+
+  return { kind: 'object', properties };
+}
+
+function resolveProperty(
+  property: ts.Symbol,
+  context: TypeResolverContext,
+): PropertyModel | undefined {
+  const { checker } = context;
+  if (
+    property.flags & (ts.SymbolFlags.Method | ts.SymbolFlags.Prototype) ||
+    !isPublicProperty(property)
+  ) {
+    return undefined;
+  }
+  const propertyType = checker.getTypeOfSymbol(property);
+  if (propertyType.getCallSignatures().length > 0) return undefined;
+
+  const model: PropertyModel = {
+    name: property.name,
+    type: resolveType(propertyType, context),
+    optional:
+      (property.flags & ts.SymbolFlags.Optional) !== 0 ||
+      (propertyType.isUnion() &&
+        propertyType.types.some(
+          (member) => member.flags & ts.TypeFlags.Undefined,
+        )),
+  };
+  const description = getDescription(property, checker);
+  if (description) model.description = description;
+  const defaultValue = getDefaultValue(property, context);
+  if (defaultValue !== undefined) model.default = defaultValue;
+  const pattern = getPattern(property, context);
+  if (pattern !== undefined) {
+    model.pattern = pattern.source;
+    if (pattern.flags) model.patternFlags = pattern.flags;
+  }
+  const tags = property.getJsDocTags(checker);
+  if (tags.length > 0) {
+    model.tags = Object.fromEntries(
+      tags.map((tag) => [tag.name, ts.displayPartsToString(tag.text)]),
+    );
+  }
+  return model;
+}
+
+/**
+ * Whether a property is part of the payload: neither private nor protected,
+ * nor a getter without a setter, which is computed rather than sent
+ */
+function isPublicProperty(property: ts.Symbol): boolean {
+  if (
+    property.flags & ts.SymbolFlags.GetAccessor &&
+    !(property.flags & ts.SymbolFlags.SetAccessor)
+  ) {
+    return false;
+  }
+  return !property.declarations?.some(
+    (declaration) =>
+      ts.getCombinedModifierFlags(declaration) &
+        (ts.ModifierFlags.Private | ts.ModifierFlags.Protected) ||
+      (ts.isPropertyDeclaration(declaration) &&
+        ts.isPrivateIdentifier(declaration.name)),
+  );
+}
+
+/**
+ * Merge lists of properties, later properties replacing earlier ones with
+ * the same name
+ */
+function mergeProperties(...lists: PropertyModel[][]): PropertyModel[] {
+  const properties = new Map<string, PropertyModel>();
+  lists.flat().forEach((property) => properties.set(property.name, property));
+  return [...properties.values()];
+}
+
+/** Modules exporting the mapped type helpers of NestJS */
+const MAPPED_TYPE_MODULES = [
+  '@nestjs/mapped-types',
+  '@nestjs/swagger',
+  '@nestjs/graphql',
+];
+
+/**
+ * Get the properties of the mapped type a class extends,
+ * e.g. `class UpdateUserDto extends PartialType(CreateUserDto) {}`
+ */
+function getMappedBaseProperties(
+  declaration: ts.ClassDeclaration,
+  context: TypeResolverContext,
+): PropertyModel[] | undefined {
+  const base = declaration.heritageClauses?.find(
+    (clause) => clause.token === ts.SyntaxKind.ExtendsKeyword,
+  )?.types[0]?.expression;
+  if (!base || !ts.isCallExpression(base)) return undefined;
+  return resolveMappedTypeProperties(base, context);
+}
+
+/**
+ * Resolve the properties of a class reference or a call to a mapped type
+ * helper: PartialType, PickType, OmitType or IntersectionType
+ */
+function resolveMappedTypeProperties(
+  expression: ts.Expression,
+  context: TypeResolverContext,
+): PropertyModel[] | undefined {
+  const { checker } = context;
+  if (!ts.isCallExpression(expression)) {
+    const [signature] = checker
+      .getTypeAtLocation(expression)
+      .getConstructSignatures();
+    if (!signature) return undefined;
+    const structure = resolveStructure(signature.getReturnType(), context);
+    return structure.kind === 'object' ? structure.properties : undefined;
+  }
+
+  const helper = getImportedName(
+    expression.expression,
+    MAPPED_TYPE_MODULES,
+    checker,
+  );
+  const [classRef, keys] = expression.arguments;
+  switch (helper) {
+    case 'PartialType':
+      return resolveMappedTypeProperties(classRef, context)?.map(
+        (property) => ({ ...property, optional: true }),
+      );
+    case 'PickType':
+    case 'OmitType': {
+      const properties = resolveMappedTypeProperties(classRef, context);
+      const result = keys && resolveToLiteral(keys, context.program);
+      if (!properties || result?.valueType !== 'ArrayLiteralExpression') {
+        return undefined;
+      }
+      return properties.filter(
+        ({ name }) => result.value.includes(name) === (helper === 'PickType'),
+      );
+    }
+    case 'IntersectionType': {
+      const lists = expression.arguments.map((argument) =>
+        resolveMappedTypeProperties(argument, context),
+      );
+      if (lists.some((list) => list === undefined)) return undefined;
+      return mergeProperties(...(lists as PropertyModel[][]));
+    }
+  }
+  return undefined;
+}
+
+function resolveEnumType(
+  type: ts.Type,
+  context: TypeResolverContext,
+): TypeModel {
+  const { checker } = context;
+  let symbol = type.symbol;
+  // A member of an enum resolves to the enum itself
+  const memberDeclaration = symbol.declarations?.find(ts.isEnumMember);
+  if (memberDeclaration) {
+    symbol =
+      checker.getSymbolAtLocation(memberDeclaration.parent.name) ?? symbol;
+  }
+  const key = getTypeKey(
+    checker.getDeclaredTypeOfSymbol(symbol),
+    symbol,
+    checker,
+  );
+  let name = context.names.get(key);
+
+  if (name === undefined) {
+    name = getGeneratedName(key, symbol.name, symbol, context);
+    const declaration = symbol.declarations?.find(ts.isEnumDeclaration);
+    const members =
+      declaration?.members.map((member) => ({
+        name: ts.isStringLiteral(member.name)
+          ? member.name.text
+          : member.name.getText(),
+        value: getEnumMemberValue(member, context),
+      })) ?? [];
+    const model: TypeDeclaration = {
+      kind: 'enum',
+      name,
+      fileName: getFileName(symbol),
+      ...getLine(symbol),
+      members,
+    };
+    const description = getDescription(symbol, checker);
+    if (description) model.description = description;
+    context.declarations.set(name, model);
+  }
+  return { kind: 'reference', name };
+}
+
+/**
+ * Get the value of an enum member from its initializer,
+ * or from the checker for auto-incremented members
+ */
+function getEnumMemberValue(
+  member: ts.EnumMember,
+  context: TypeResolverContext,
+): string | number {
+  if (member.initializer) {
+    const result = resolveToLiteral(member.initializer, context.program);
+    if (
+      result.valueType === 'StringLiteral' ||
+      result.valueType === 'NumericLiteral'
+    ) {
+      return result.value;
+    }
+  }
+  return context.checker.getConstantValue(member) ?? member.name.getText();
+}
+
+/**
+ * Get the default value of a property from its initializer
+ */
+function getDefaultValue(
+  property: ts.Symbol,
+  context: TypeResolverContext,
+): unknown {
+  const declaration = property.valueDeclaration;
+  if (
+    !declaration ||
+    !ts.isPropertyDeclaration(declaration) ||
+    !declaration.initializer
+  ) {
+    return undefined;
+  }
+
+  const result = resolveToLiteral(declaration.initializer, context.program);
+  switch (result.valueType) {
+    case 'StringLiteral':
+    case 'NumericLiteral':
+    case 'TrueKeyword':
+    case 'FalseKeyword':
+    case 'ArrayLiteralExpression':
+    case 'ObjectLiteralExpression':
+      return result.value;
+  }
+  return undefined;
+}
+
+/**
+ * Flags that do not change which strings a regular expression matches,
+ * unlike `i`, `m`, `s`, `v` and `y`
+ */
+const MATCH_NEUTRAL_FLAGS = ['d', 'g', 'u'];
+
+/**
+ * Resolve the arguments of `@Matches()`: a regular expression, or a string
+ * and optionally its flags
+ */
+function resolveMatchesArguments(
+  [pattern, modifiers]: readonly ts.Expression[],
+  program: ts.Program,
+): RegExp | undefined {
+  const result = pattern && resolveToLiteral(pattern, program);
+  if (result?.valueType === 'RegularExpressionLiteral') return result.value;
+  if (result?.valueType !== 'StringLiteral') return undefined;
+
+  // The second argument is either the flags or the validation options
+  const flags =
+    modifiers && !ts.isObjectLiteralExpression(modifiers)
+      ? resolveToLiteral(modifiers, program)
+      : undefined;
+  if (flags && flags.valueType !== 'StringLiteral') return undefined;
+  try {
+    return new RegExp(result.value, flags?.value);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Get the regular expression a property is validated with by the
+ * `@Matches()` decorator of class-validator
+ */
+function getPattern(
+  property: ts.Symbol,
+  context: TypeResolverContext,
+): RegExp | undefined {
+  const declaration = property.valueDeclaration;
+  if (!declaration || !ts.isPropertyDeclaration(declaration)) return undefined;
+
+  for (const decorator of ts.getDecorators(declaration) ?? []) {
+    const call = decorator.expression;
+    if (
+      !ts.isCallExpression(call) ||
+      getImportedName(call.expression, ['class-validator'], context.checker) !==
+        'Matches'
+    ) {
+      continue;
+    }
+    const pattern = resolveMatchesArguments(call.arguments, context.program);
+    if (!pattern) {
+      context.diagnostics?.push(
+        createDiagnostic(
+          call,
+          'warning',
+          'unresolved-pattern',
+          'The regular expression of @Matches() cannot be resolved; ' +
+            `${property.name} is generated without it`,
+        ),
+      );
+      return undefined;
+    }
+    const unsupported = [...pattern.flags].filter(
+      (flag) => !MATCH_NEUTRAL_FLAGS.includes(flag),
+    );
+    if (unsupported.length > 0) {
+      context.diagnostics?.push(
+        createDiagnostic(
+          call,
+          'warning',
+          'unsupported-pattern-flags',
+          `JSON Schema and OpenAPI cannot express the ${unsupported.join('')} flag(s) of ${String(pattern)}; ` +
+            `their schemas of ${property.name} leave the pattern out`,
+        ),
+      );
+    }
+    return pattern;
+  }
+  return undefined;
+}
+
+function getFileName(symbol: ts.Symbol | undefined): string {
+  return symbol?.declarations?.[0]?.getSourceFile().fileName ?? '';
+}
+
+/**
+ * Get the 1-based line of the declaration of a symbol
+ */
+function getLine(symbol: ts.Symbol | undefined): { line?: number } {
+  const declaration = symbol?.declarations?.[0];
+  if (!declaration) return {};
+  const sourceFile = declaration.getSourceFile();
+  return {
+    line:
+      sourceFile.getLineAndCharacterOfPosition(declaration.getStart()).line + 1,
+  };
+}
+
+function getDescription(
+  symbol: ts.Symbol | undefined,
+  checker: ts.TypeChecker,
+): string | undefined {
+  if (!symbol) return undefined;
+  const description = ts.displayPartsToString(
+    symbol.getDocumentationComment(checker),
+  );
+  return description.length > 0 ? description : undefined;
+}
+
+function isLibSymbol(symbol: ts.Symbol): boolean {
+  return (
+    symbol.declarations?.some(
+      (declaration) => declaration.getSourceFile().hasNoDefaultLib,
+    ) ?? false
+  );
+}
@@ -0,0 +1,157 @@
+import { relative } from 'path';
+import { analyzeProgram } from '../analyzers/api-analyzer';
+import { SourceFileCache } from '../analyzers/src-resolver';
+import {
+  Diagnostic,
+  hasDiagnosticsOfSeverity,
+  uniqueDiagnostics,
+} from '../diagnostics/diagnostics';
+import {
+  ApiModel,
+  ControllerModel,
+  TypeDeclaration,
+} from '../models/api-model';
+import {
+  AnalyzeCommandOptions,
+  createProgram,
+  loadCache,
+  reportDiagnostics,
+  reportProfile,
+  resolveAnalyzeSettings,
+  saveCache,
+} from './generate';
+
+/**
+ * Version of the JSON output, increased on breaking changes of its shape
+ */
+export const ANALYSIS_FORMAT_VERSION = 1;
+
+/**
+ * The model of one analyzed project
+ */
+export interface ProjectAnalysis {
+  /** Name of the monorepo app, unset when a single project is analyzed */
+  name?: string;
+  model: ApiModel;
+}
+
+/**
+ * The intermediate model and diagnostics of an analysis, as printed by
+ * `analyze --json`. File names are relative to `cwd`.
+ */
+export interface AnalysisReport {
+  version: typeof ANALYSIS_FORMAT_VERSION;
+  controllers: (ControllerModel & {
+    /** Name of the monorepo app the controller is part of */
+    app?: string;
+  })[];
+  /** Named types of every project; those of shared libraries are listed once */
+  types: TypeDeclaration[];
+  diagnostics: Diagnostic[];
+}
+
+/**
+ * Build the report of an analysis, with file names relative to `cwd` so
+ * that it does not depend on where the project is checked out
+ */
+export function createAnalysisReport(
+  projects: ProjectAnalysis[],
+  diagnostics: Diagnostic[],
+  cwd = process.cwd(),
+): AnalysisReport {
+  const toRelative = (fileName: string) =>
+    fileName && relative(cwd, fileName).split('\\').join('/');
+
+  // Types of libraries shared by several apps are resolved in each of them
+  const types = new Map<string, TypeDeclaration>();
+  projects.forEach(({ model }) =>
+    model.types.forEach((declaration) => {
+      const key = `${declaration.fileName}:${declaration.name}`;
+      if (!types.has(key)) types.set(key, declaration);
+    }),
+  );
+
+  return {
+    version: ANALYSIS_FORMAT_VERSION,
+    controllers: projects.flatMap(({ name, model }) =>
+      model.controllers.map((controller) => ({
+        ...(name ? { app: name } : {}),
+        ...controller,
+        fileName: toRelative(controller.fileName),
+      })),
+    ),
+    types: [...types.values()]
+      .sort(
+        (a, b) =>
+          a.name.localeCompare(b.name) || a.fileName.localeCompare(b.fileName),
+      )
+      .map((declaration) => ({
+        ...declaration,
+        fileName: toRelative(declaration.fileName),
+      })),
+    diagnostics: diagnostics.map((diagnostic) => ({
+      ...diagnostic,
+      fileName: toRelative(diagnostic.fileName),
+    })),
+  };
+}
+
+/**
+ * Format the routes of every controller, one line per route path
+ */
+function formatRoutes(report: AnalysisReport): string {
+  return report.controllers
+    .map((controller) => {
+      const lines = [
+        `${controller.app ? `[${controller.app}] ` : ''}${controller.name} (${controller.fileName}:${controller.line})`,
+      ];
+      controller.routes.forEach((route) =>
+        route.fullPath.forEach((path) =>
+          lines.push(
+            `  ${route.httpMethod.padEnd(7)} ${path}  ${controller.name}.${route.name}`,
+          ),
+        ),
+      );
+      return lines.join('\n');
+    })
+    .join('\n\n');
+}
+
+/**
+ * Analyze the project and print its routes, or the whole intermediate model
+ * as JSON for other tools to build on
+ */
+export const analyzeCommand = async (
+  options: AnalyzeCommandOptions & {
+    /** Print the intermediate model as JSON */
+    json?: boolean;
+  },
+) => {
+  const settings = await resolveAnalyzeSettings(options);
+  const { projects, analyzeOptions, failOn } = settings;
+  const sourceFiles: SourceFileCache = new Map();
+  const cache = await loadCache(settings);
+  const diagnostics: Diagnostic[] = [];
+  const analyses = projects.map(({ name, tsconfig }) => ({
+    name,
+    model: analyzeProgram(
+      createProgram(tsconfig, sourceFiles, analyzeOptions.profile),
+      { ...analyzeOptions, cache, diagnostics },
+    ),
+  }));
+  await saveCache(settings, cache);
+
+  const unique = uniqueDiagnostics(diagnostics);
+  const report = createAnalysisReport(analyses, unique);
+  if (options.json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    console.log(formatRoutes(report));
+    reportDiagnostics(unique);
+  }
+  reportProfile(analyzeOptions.profile);
+
+  if (failOn && hasDiagnosticsOfSeverity(unique, failOn)) {
+    process.exitCode = 1;
+  }
+};
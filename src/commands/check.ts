@@ -0,0 +1,92 @@
+import { createTwoFilesPatch, FILE_HEADERS_ONLY } from 'diff';
+import { join, relative } from 'path';
+import { hasDiagnosticsOfSeverity } from '../diagnostics/diagnostics';
+import { findStaleFiles, StaleFile } from '../writers/file-writer';
+import {
+  GenerateCommandOptions,
+  generateProjects,
+  loadCache,
+  reportDiagnostics,
+  reportProfile,
+  resolveGenerateSettings,
+  saveCache,
+} from './generate';
+
+type CheckCommandOptions = Omit<GenerateCommandOptions, 'watch'>;
+
+const COLORS = {
+  '+': '\u001b[32m',
+  '-': '\u001b[31m',
+  '@': '\u001b[36m',
+  reset: '\u001b[0m',
+};
+
+/**
+ * Create the unified diff from the file on disk to the generated one.
+ * Missing files are diffed from an empty file, and files that are not
+ * generated to one.
+ */
+function createPatch(file: StaleFile, outDir: string, color: boolean) {
+  const fileName = relative(process.cwd(), join(outDir, file.path))
+    .split('\\')
+    .join('/');
+  const patch = createTwoFilesPatch(
+    file.current === undefined ? '/dev/null' : `a/${fileName}`,
+    file.expected === undefined ? '/dev/null' : `b/${fileName}`,
+    file.current ?? '',
+    file.expected ?? '',
+    undefined,
+    undefined,
+    { headerOptions: FILE_HEADERS_ONLY },
+  );
+  if (!color) return patch;
+  return patch
+    .split('\n')
+    .map((line) => {
+      const prefix = line[0] as keyof typeof COLORS;
+      return prefix in COLORS
+        ? `${COLORS[prefix]}${line}${COLORS.reset}`
+        : line;
+    })
+    .join('\n');
+}
+
+/**
+ * Generate the files in memory and compare them with the output directory.
+ * Exits with a non-zero code when a file is missing, out of date or not
+ * generated anymore.
+ */
+export const checkCommand = async (options: CheckCommandOptions) => {
+  const settings = await resolveGenerateSettings(options);
+  const cache = await loadCache(settings);
+  const { files, diagnostics } = generateProjects(settings, cache);
+  await saveCache(settings, cache);
+  reportDiagnostics(diagnostics);
+  reportProfile(settings.analyzeOptions.profile);
+
+  const stale = await findStaleFiles(settings.out, files);
+  stale.forEach((file) =>
+    console.log(createPatch(file, settings.out, process.stdout.isTTY)),
+  );
+  const outdated = stale.filter(({ expected }) => expected !== undefined);
+  if (outdated.length > 0) {
+    console.error(
+      `${outdated.length} generated file(s) are out of date; ` +
+        'run `nest-dto-generator generate` to update them',
+    );
+  }
+  const extraneous = stale.length - outdated.length;
+  if (extraneous > 0) {
+    console.error(
+      `${extraneous} file(s) of the output directory are not generated; ` +
+        'remove them',
+    );
+  }
+
+  if (
+    stale.length > 0 ||
+    (settings.failOn && hasDiagnosticsOfSeverity(diagnostics, settings.failOn))
+  ) {
+    process.exitCode = 1;
+  }
+};
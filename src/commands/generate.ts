@@ -1,14 +1,415 @@
-type GenerateCommandOptions = {
-  src: string;
-  out: string;
+import ts from 'typescript';
+import { resolve } from 'path';
+import {
+  DEFAULT_CACHE_FILE,
+  getCacheKey,
+  loadAnalysisCache,
+  saveAnalysisCache,
+} from '../analyzers/analysis-cache';
+import {
+  AnalysisCache,
+  analyzeProgram,
+  AnalyzeOptions,
+  FileAnalysis,
+} from '../analyzers/api-analyzer';
+import {
+  getProgram,
+  SourceFileCache,
+  watchProgram,
+} from '../analyzers/src-resolver';
+import {
+  loadConfig,
+  InvalidConfigError,
+  ResolvedConfig,
+} from '../config/config';
+import { matchesGlob } from '../config/glob';
+import { loadNestProjects, NEST_CLI_FILE_NAME } from '../config/nest-cli';
+import {
+  Diagnostic,
+  DiagnosticSeverity,
+  formatDiagnostics,
+  hasDiagnosticsOfSeverity,
+  uniqueDiagnostics,
+} from '../diagnostics/diagnostics';
+import {
+  formatProfile,
+  measure,
+  measureAsync,
+  Profile,
+} from '../diagnostics/profile';
+import {
+  GenerateOptions,
+  generateProjectFiles,
+  OutputFormat,
+  ProjectModel,
+} from '../generators';
+import { TypesGrouping } from '../generators/types-generator';
+import { writeGeneratedFiles } from '../writers/file-writer';
+
+export type GenerateCommandOptions = {
+  /** Path to the config file, `nest-dto-generator.config.*` by default */
+  config?: string;
+  /** Path to the tsconfig.json of the NestJS project */
+  src?: string;
+  /** Names of the monorepo apps to analyze, every application by default */
+  project?: string[];
+  /** Output directory of the generated files */
+  out?: string;
+  /** Output formats, class-validator DTOs by default */
+  format?: OutputFormat[];
+  /** Decorate DTO properties with `@ApiProperty` of @nestjs/swagger */
+  swagger?: boolean;
+  /** File name of the OpenAPI document, `.yaml` or `.yml` for YAML */
+  openapiFile?: string;
+  /** Group the modules of the `types` format by controller or by tag */
+  typesGroupBy?: TypesGrouping;
+  /** Exit with a non-zero code on diagnostics of at least this severity */
+  failOn?: DiagnosticSeverity;
+  /** Generate again whenever the source files change */
+  watch?: boolean;
+  /**
+   * Save the analyses of the controller files between runs, in this file or
+   * under `node_modules/.cache` when `true`
+   */
+  cache?: boolean | string;
+  /** Print the time spent in each step */
+  profile?: boolean;
 };
 
-export const generateCommand = async (options: GenerateCommandOptions) => {
-  const { src, out } = options;
+/**
+ * Build a filter of the files controllers are looked up in from absolute globs
+ */
+function createFileFilter(include?: string[], exclude?: string[]) {
+  if (!include && !exclude) return undefined;
+  return (fileName: string) => {
+    const path = fileName.split('\\').join('/');
+    return (
+      (!include || matchesGlob(path, include)) &&
+      !(exclude && matchesGlob(path, exclude))
+    );
+  };
+}
+
+/**
+ * A project to analyze
+ */
+export interface ProjectSettings {
+  /**
+   * Name of the app in nest-cli.json, unset when a single project is analyzed.
+   * The files of a named project are generated in a directory of its name.
+   */
+  name?: string;
+  /** Path to the tsconfig.json of the project */
+  tsconfig: string;
+}
+
+export interface AnalyzeSettings {
+  projects: ProjectSettings[];
+  analyzeOptions: AnalyzeOptions;
+  failOn?: DiagnosticSeverity;
+  /** File the analyses are saved in between runs, unset to not save them */
+  cacheFile?: string;
+}
+
+export interface GenerateSettings extends AnalyzeSettings {
+  out: string;
+  generateOptions: GenerateOptions;
+}
+
+/**
+ * Get the projects to analyze: the project of the tsconfig when one is
+ * given, the applications of the Nest monorepo otherwise
+ */
+async function getProjects(
+  options: Pick<GenerateCommandOptions, 'src' | 'project'>,
+  config: ResolvedConfig,
+): Promise<ProjectSettings[]> {
+  const tsconfig = options.src ? resolve(options.src) : config.tsconfig;
+  if (tsconfig) return [{ tsconfig }];
+
+  const apps = (
+    await loadNestProjects(config.nestCli ?? resolve(NEST_CLI_FILE_NAME))
+  )?.filter(({ type }) => type === 'application');
+  if (!apps) {
+    throw new InvalidConfigError(
+      'Missing the tsconfig path (--src); ' +
+        `pass it as an option, set it in the config file or run in a Nest monorepo with a ${NEST_CLI_FILE_NAME}`,
+    );
+  }
+
+  const names = options.project ?? config.projects;
+  const unknown = names?.filter(
+    (name) => !apps.some((app) => app.name === name),
+  );
+  if (unknown && unknown.length > 0) {
+    throw new InvalidConfigError(
+      `Unknown project(s) ${unknown.join(', ')}; ` +
+        `the applications of ${NEST_CLI_FILE_NAME} are ${apps.map(({ name }) => name).join(', ')}`,
+    );
+  }
+  return apps
+    .filter(({ name }) => !names || names.includes(name))
+    .map(({ name, tsconfig }) => ({ name, tsconfig }));
+}
+
+/**
+ * Options of the commands that analyze the project, see `addAnalyzeOptions`
+ */
+export type AnalyzeCommandOptions = Pick<
+  GenerateCommandOptions,
+  'config' | 'src' | 'project' | 'failOn' | 'cache' | 'profile'
+>;
+
+async function getAnalyzeSettings(
+  options: Omit<AnalyzeCommandOptions, 'config'>,
+  config: ResolvedConfig,
+): Promise<AnalyzeSettings> {
+  const cache = options.cache ?? config.cache;
+  return {
+    projects: await getProjects(options, config),
+    analyzeOptions: {
+      isControllerFile: createFileFilter(config.include, config.exclude),
+      controllers: config.controllers,
+      decorators: config.decorators,
+      ...(options.profile ? { profile: new Map() } : {}),
+    },
+    failOn: options.failOn ?? config.failOn,
+    cacheFile:
+      typeof cache === 'string'
+        ? resolve(cache)
+        : cache
+          ? resolve(DEFAULT_CACHE_FILE)
+          : undefined,
+  };
+}
+
+/**
+ * Merge the options of a command that only analyzes the project with the
+ * config file. Options take precedence over the config file.
+ */
+export async function resolveAnalyzeSettings(
+  options: AnalyzeCommandOptions,
+): Promise<AnalyzeSettings> {
+  return getAnalyzeSettings(options, await loadConfig(options.config));
+}
 
+/**
+ * Merge the command options with the config file.
+ * Options take precedence over the config file.
+ */
+export async function resolveGenerateSettings(
+  options: GenerateCommandOptions,
+): Promise<GenerateSettings> {
+  const config = await loadConfig(options.config);
+  const settings = await getAnalyzeSettings(options, config);
+  const out = options.out ? resolve(options.out) : config.out;
+  if (!out) {
+    throw new InvalidConfigError(
+      'Missing the output directory (--out); ' +
+        'pass it as an option or set it in the config file',
+    );
+  }
+
+  return {
+    ...settings,
+    out,
+    generateOptions: {
+      formats: options.format ?? config.formats ?? ['class-validator'],
+      swagger: options.swagger ?? config.swagger ?? false,
+      openapi: {
+        fileName: options.openapiFile ?? config.openapiFile ?? 'openapi.json',
+      },
+      naming: config.naming,
+      types: {
+        groupBy: options.typesGroupBy ?? config.typesGroupBy ?? 'controller',
+      },
+    },
+  };
+}
+
+/**
+ * Analyze the programs of the projects and generate the files of every output
+ * format. The files of named projects are put in directories of their names,
+ * and the DTO classes they have alike in a shared directory.
+ * @param projects - Projects whose program is got when they are analyzed,
+ * one after the other
+ * @returns The generated files, and the problems found during the analysis
+ */
+export function generateInMemory(
+  projects: { name?: string; getProgram: () => ts.Program }[],
+  settings: Pick<GenerateSettings, 'analyzeOptions' | 'generateOptions'>,
+) {
   // 1. Analyze source files
+  const diagnostics: Diagnostic[] = [];
+  const models: ProjectModel[] = projects.map(({ name, getProgram }) => ({
+    name,
+    model: analyzeProgram(getProgram(), {
+      ...settings.analyzeOptions,
+      diagnostics,
+    }),
+  }));
 
   // 2. Structuring output types
+  const files = measure(settings.analyzeOptions.profile, 'generate', () =>
+    generateProjectFiles(models, settings.generateOptions),
+  );
+  return { files, diagnostics: uniqueDiagnostics(diagnostics) };
+}
+
+/**
+ * Load the analyses saved by the previous run when the cache is enabled
+ */
+export function loadCache(settings: AnalyzeSettings): Promise<AnalysisCache> {
+  const { cacheFile, analyzeOptions } = settings;
+  return cacheFile
+    ? measureAsync(analyzeOptions.profile, 'load cache', () =>
+        loadAnalysisCache(cacheFile, getCacheKey(analyzeOptions)),
+      )
+    : Promise.resolve(new Map<string, FileAnalysis>());
+}
+
+/**
+ * Save the analyses for the next run when the cache is enabled
+ */
+export async function saveCache(
+  settings: AnalyzeSettings,
+  cache: AnalysisCache,
+): Promise<void> {
+  const { cacheFile, analyzeOptions } = settings;
+  if (!cacheFile) return;
+  await measureAsync(analyzeOptions.profile, 'save cache', () =>
+    saveAnalysisCache(cacheFile, getCacheKey(analyzeOptions), cache),
+  );
+}
+
+/**
+ * Print the time spent in each step, when profiling
+ */
+export function reportProfile(profile: Profile | undefined) {
+  if (profile && profile.size > 0) console.error(formatProfile(profile));
+}
+
+/**
+ * Create the program of a project, sharing the source files parsed for the
+ * other projects
+ */
+export function createProgram(
+  tsconfig: string,
+  sourceFiles: SourceFileCache,
+  profile?: Profile,
+): ts.Program {
+  return measure(profile, 'create program', () =>
+    getProgram(tsconfig, sourceFiles),
+  );
+}
+
+/**
+ * Analyze every project and generate its files.
+ * The projects share the source files and the analyses of the controllers
+ * they have in common, e.g. those of libraries, which are analyzed once.
+ * @param cache - Analyses of the previous run, updated with those of this one
+ */
+export function generateProjects(
+  settings: GenerateSettings,
+  cache: AnalysisCache = new Map(),
+) {
+  const sourceFiles: SourceFileCache = new Map();
+  const { profile } = settings.analyzeOptions;
+  return generateInMemory(
+    settings.projects.map(({ name, tsconfig }) => ({
+      name,
+      getProgram: () => createProgram(tsconfig, sourceFiles, profile),
+    })),
+    { ...settings, analyzeOptions: { ...settings.analyzeOptions, cache } },
+  );
+}
 
+export function reportDiagnostics(diagnostics: Diagnostic[]) {
+  if (diagnostics.length > 0) {
+    console.error(
+      formatDiagnostics(diagnostics, { color: process.stderr.isTTY }),
+    );
+  }
+}
+
+/**
+ * Generate the files of every project, and again whenever their source
+ * files change
+ * @returns A function that stops watching
+ */
+export function watchProjects(settings: GenerateSettings): () => void {
+  const { projects, out, analyzeOptions } = settings;
+  let queue = Promise.resolve();
+  const sourceFiles: SourceFileCache = new Map();
+  // Files whose analysis is reused while they and their imports are unchanged
+  const cache: AnalysisCache = new Map();
+  // Latest program of each project
+  const programs = new Map<ProjectSettings, ts.Program>();
+  let isFirstRun = true;
+  const watchers = projects.map((project) =>
+    watchProgram(
+      project.tsconfig,
+      (program) => {
+        programs.set(project, program);
+        // Files are generated once every project has its first program
+        if (programs.size < projects.length) return;
+        queue = queue
+          .then(async () => {
+            const profile: Profile | undefined =
+              analyzeOptions.profile && new Map();
+            const { files, diagnostics } = generateInMemory(
+              projects.map((project) => ({
+                name: project.name,
+                getProgram: () => programs.get(project)!,
+              })),
+              {
+                ...settings,
+                analyzeOptions: { ...analyzeOptions, cache, profile },
+              },
+            );
+            const written = await measureAsync(profile, 'write', () =>
+              writeGeneratedFiles(out, files),
+            );
+            // Outputs written inside the project trigger another run,
+            // which writes nothing and has nothing new to report
+            if (written.length === 0 && !isFirstRun) return;
+            isFirstRun = false;
+            reportDiagnostics(diagnostics);
+            reportProfile(profile);
+            console.log(
+              `[${new Date().toLocaleTimeString()}] ` +
+                `Updated ${written.length} file(s). Watching for file changes.`,
+            );
+          })
+          .catch((error: unknown) => console.error(error));
+      },
+      sourceFiles,
+    ),
+  );
+  return () => watchers.forEach((watcher) => watcher.close());
+}
+
+export const generateCommand = async (options: GenerateCommandOptions) => {
+  const settings = await resolveGenerateSettings(options);
+  const { out, analyzeOptions, failOn } = settings;
+
+  if (options.watch) {
+    watchProjects(settings);
+    return;
+  }
+
+  const cache = await loadCache(settings);
+  const { files, diagnostics } = generateProjects(settings, cache);
   // 3. Write to files
+  await measureAsync(analyzeOptions.profile, 'write', () =>
+    writeGeneratedFiles(out, files),
+  );
+  await saveCache(settings, cache);
+
+  // 4. Report problems found during the analysis
+  reportDiagnostics(diagnostics);
+  reportProfile(analyzeOptions.profile);
+  if (failOn && hasDiagnosticsOfSeverity(diagnostics, failOn)) {
+    process.exitCode = 1;
+  }
 };
@@ -0,0 +1,297 @@
+import ts from 'typescript';
+import { existsSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { createRequire } from 'module';
+import { dirname, join, relative, resolve } from 'path';
+import { runInThisContext } from 'vm';
+import { ControllerOverride } from '../analyzers/api-analyzer';
+import {
+  CustomDecorators,
+  NEST_DECORATORS,
+} from '../analyzers/decorator-resolver';
+import { DiagnosticSeverity } from '../diagnostics/diagnostics';
+import { OUTPUT_FORMATS, OutputFormat } from '../generators';
+import { NamingOptions } from '../generators/type-hoisting';
+import { TYPES_GROUPINGS, TypesGrouping } from '../generators/types-generator';
+
+/**
+ * Error thrown when a config file cannot be loaded or is invalid
+ */
+export class InvalidConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidConfigError';
+  }
+}
+
+/**
+ * Config file names looked up in the working directory, in order
+ */
+export const CONFIG_FILE_NAMES = [
+  'nest-dto-generator.config.ts',
+  'nest-dto-generator.config.js',
+  'nest-dto-generator.config.json',
+];
+
+/**
+ * Contents of a config file.
+ * Paths and globs are relative to the directory of the config file.
+ */
+export interface NestDtoGeneratorConfig {
+  /** Path to the tsconfig.json of the NestJS project */
+  tsconfig?: string;
+  /** Globs of the files controllers are looked up in, every file by default */
+  include?: string[];
+  /** Globs of the files controllers are never looked up in */
+  exclude?: string[];
+  /** Output directory of the generated files */
+  out?: string;
+  formats?: OutputFormat[];
+  /** Decorate DTO properties with `@ApiProperty` of @nestjs/swagger */
+  swagger?: boolean;
+  /** File name of the OpenAPI document, `.yaml` or `.yml` for YAML */
+  openapiFile?: string;
+  /** Group the modules of the `types` format by controller or by tag */
+  typesGroupBy?: TypesGrouping;
+  /** Exit with a non-zero code on diagnostics of at least this severity */
+  failOn?: DiagnosticSeverity;
+  /**
+   * Path to the nest-cli.json of a monorepo, whose apps are analyzed when
+   * `tsconfig` is not set. `nest-cli.json` of the working directory by default.
+   */
+  nestCli?: string;
+  /** Names of the monorepo apps to analyze, every application by default */
+  projects?: string[];
+  /**
+   * Save the analyses of the controller files between runs, in this file or
+   * under `node_modules/.cache` when `true`
+   */
+  cache?: boolean | string;
+  naming?: NamingOptions;
+  /** Custom decorators keyed by name, mapped to the NestJS decorator they stand for */
+  decorators?: CustomDecorators;
+  /** Overrides keyed by controller class name */
+  controllers?: Record<
+    string,
+    Omit<ControllerOverride, 'path'> & { path?: string | string[] }
+  >;
+}
+
+/**
+ * A validated config whose paths and globs are absolute
+ */
+export interface ResolvedConfig
+  extends Omit<NestDtoGeneratorConfig, 'controllers'> {
+  controllers?: Record<string, ControllerOverride>;
+}
+
+type Validator = (value: unknown) => boolean;
+
+const isString: Validator = (value) => typeof value === 'string';
+const isBoolean: Validator = (value) => typeof value === 'boolean';
+const isStringArray: Validator = (value) =>
+  Array.isArray(value) && value.every(isString);
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isOneOf =
+  (choices: readonly string[]): Validator =>
+  (value) =>
+    typeof value === 'string' && choices.includes(value);
+
+const OPTION_VALIDATORS: Record<
+  keyof NestDtoGeneratorConfig,
+  [Validator, string]
+> = {
+  tsconfig: [isString, 'a string'],
+  include: [isStringArray, 'an array of globs'],
+  exclude: [isStringArray, 'an array of globs'],
+  out: [isString, 'a string'],
+  formats: [
+    (value) => Array.isArray(value) && value.every(isOneOf(OUTPUT_FORMATS)),
+    `an array of ${OUTPUT_FORMATS.join(', ')}`,
+  ],
+  swagger: [isBoolean, 'a boolean'],
+  openapiFile: [isString, 'a string'],
+  typesGroupBy: [isOneOf(TYPES_GROUPINGS), "'controller' or 'tag'"],
+  failOn: [isOneOf(['error', 'warning']), "'error' or 'warning'"],
+  nestCli: [isString, 'a string'],
+  projects: [isStringArray, 'an array of project names'],
+  cache: [
+    (value) => isBoolean(value) || isString(value),
+    'a boolean or a file name',
+  ],
+  naming: [isObject, 'an object'],
+  decorators: [isObject, 'an object keyed by decorator name'],
+  controllers: [isObject, 'an object keyed by controller class name'],
+};
+
+const NAMING_VALIDATORS: Record<keyof NamingOptions, [Validator, string]> = {
+  dtoSuffix: [isString, 'a string'],
+};
+
+const CONTROLLER_VALIDATORS: Record<
+  keyof ControllerOverride,
+  [Validator, string]
+> = {
+  skip: [isBoolean, 'a boolean'],
+  path: [
+    (value) => isString(value) || isStringArray(value),
+    'a string or string array',
+  ],
+};
+
+/**
+ * Validate the options of an object, adding a message per invalid option
+ */
+function validateOptions(
+  value: Record<string, unknown>,
+  validators: Record<string, [Validator, string]>,
+  prefix: string,
+  errors: string[],
+) {
+  Object.entries(value).forEach(([key, option]) => {
+    const validator = validators[key];
+    if (!validator) {
+      errors.push(`"${prefix}${key}" is not a known option`);
+    } else if (option !== undefined && !validator[0](option)) {
+      errors.push(`"${prefix}${key}" must be ${validator[1]}`);
+    }
+  });
+}
+
+/**
+ * Validate the contents of a config file
+ * @throws InvalidConfigError listing every invalid option
+ */
+export function validateConfig(
+  value: unknown,
+  fileName: string,
+): NestDtoGeneratorConfig {
+  const name = relative(process.cwd(), fileName);
+  if (!isObject(value)) {
+    throw new InvalidConfigError(`${name}: the config must be an object`);
+  }
+
+  const errors: string[] = [];
+  validateOptions(value, OPTION_VALIDATORS, '', errors);
+  if (isObject(value.naming)) {
+    validateOptions(value.naming, NAMING_VALIDATORS, 'naming.', errors);
+  }
+  if (isObject(value.decorators)) {
+    Object.entries(value.decorators).forEach(([name, decorator]) => {
+      if (!isOneOf(NEST_DECORATORS)(decorator)) {
+        errors.push(
+          `"decorators.${name}" must be one of ${NEST_DECORATORS.join(', ')}`,
+        );
+      }
+    });
+  }
+  if (isObject(value.controllers)) {
+    Object.entries(value.controllers).forEach(([controller, override]) => {
+      const prefix = `controllers.${controller}.`;
+      if (isObject(override)) {
+        validateOptions(override, CONTROLLER_VALIDATORS, prefix, errors);
+      } else {
+        errors.push(`"${prefix.slice(0, -1)}" must be an object`);
+      }
+    });
+  }
+
+  if (errors.length > 0) {
+    throw new InvalidConfigError(
+      `Invalid config ${name}:\n${errors.map((error) => `  - ${error}`).join('\n')}`,
+    );
+  }
+  return value as NestDtoGeneratorConfig;
+}
+
+/**
+ * Evaluate a TypeScript or JavaScript config file and get its default export
+ */
+function evaluateModule(source: string, fileName: string): unknown {
+  const { outputText } = ts.transpileModule(source, {
+    fileName,
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2020,
+      esModuleInterop: true,
+    },
+  });
+  const module: { exports: Record<string, unknown> } = { exports: {} };
+  const run = runInThisContext(
+    `(function (exports, require, module, __filename, __dirname) {${outputText}\n})`,
+    { filename: fileName },
+  ) as (...args: unknown[]) => void;
+  run(
+    module.exports,
+    createRequire(fileName),
+    module,
+    fileName,
+    dirname(fileName),
+  );
+  return module.exports.default ?? module.exports;
+}
+
+/**
+ * Find the config file in a directory
+ */
+export function findConfigFile(dir: string): string | undefined {
+  return CONFIG_FILE_NAMES.map((name) => join(dir, name)).find((fileName) =>
+    existsSync(fileName),
+  );
+}
+
+/**
+ * Load, validate and resolve a config file.
+ * @param fileName - Path to the config file; when omitted, the config file of
+ * the working directory is used if there is one
+ * @returns The config with absolute paths and globs
+ */
+export async function loadConfig(fileName?: string): Promise<ResolvedConfig> {
+  const path = fileName ? resolve(fileName) : findConfigFile(process.cwd());
+  if (!path) return {};
+  if (!existsSync(path)) {
+    throw new InvalidConfigError(`Config file ${fileName} does not exist`);
+  }
+
+  const source = await readFile(path, 'utf-8');
+  let value: unknown;
+  try {
+    value = path.endsWith('.json')
+      ? JSON.parse(source)
+      : evaluateModule(source, path);
+  } catch (error) {
+    throw new InvalidConfigError(
+      `Cannot load config ${relative(process.cwd(), path)}: ${(error as Error).message}`,
+    );
+  }
+
+  const config = validateConfig(value, path);
+  const dir = dirname(path);
+  const toGlob = (pattern: string) => join(dir, pattern).split('\\').join('/');
+  return {
+    ...config,
+    tsconfig: config.tsconfig && resolve(dir, config.tsconfig),
+    out: config.out && resolve(dir, config.out),
+    nestCli: config.nestCli && resolve(dir, config.nestCli),
+    cache:
+      typeof config.cache === 'string'
+        ? resolve(dir, config.cache)
+        : config.cache,
+    include: config.include?.map(toGlob),
+    exclude: config.exclude?.map(toGlob),
+    controllers:
+      config.controllers &&
+      Object.fromEntries(
+        Object.entries(config.controllers).map(([name, override]) => [
+          name,
+          {
+            ...override,
+            ...(typeof override.path === 'string'
+              ? { path: [override.path] }
+              : { path: override.path }),
+          },
+        ]),
+      ),
+  };
+}
@@ -0,0 +1,51 @@
+/**
+ * Convert a glob pattern to a regular expression matching whole paths.
+ * Supports `**` (any number of directories), `*` (anything but a slash),
+ * `?` (one character but a slash) and `{a,b}` alternatives.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern[index];
+    if (char === '*' && pattern[index + 1] === '*') {
+      // `**/` also matches no directory at all
+      if (pattern[index + 2] === '/') {
+        source += '(?:.*/)?';
+        index += 2;
+      } else {
+        source += '.*';
+        index += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      const end = pattern.indexOf('}', index);
+      if (end === -1) {
+        source += '\\{';
+        continue;
+      }
+      const alternatives = pattern
+        .slice(index + 1, end)
+        .split(',')
+        .map((alternative) => globToRegExp(alternative).source.slice(1, -1));
+      source += `(?:${alternatives.join('|')})`;
+      index = end;
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check if a path matches any of the glob patterns.
+ * The path should use forward slashes and be relative to the directory the
+ * patterns are relative to.
+ */
+export function matchesGlob(path: string, patterns: string[]): boolean {
+  return patterns.some((pattern) =>
+    globToRegExp(pattern.replace(/^\.\//, '')).test(path),
+  );
+}
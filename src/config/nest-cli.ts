@@ -0,0 +1,70 @@
+import { existsSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { dirname, join, relative, resolve } from 'path';
+import { InvalidConfigError } from './config';
+
+export const NEST_CLI_FILE_NAME = 'nest-cli.json';
+
+/**
+ * An app or library of a Nest monorepo
+ */
+export interface NestProject {
+  name: string;
+  type: 'application' | 'library';
+  /** Absolute path of the directory of the project */
+  root: string;
+  /** Absolute path of the tsconfig.json the project is built with */
+  tsconfig: string;
+}
+
+interface NestCliProject {
+  type?: string;
+  root?: string;
+  compilerOptions?: { tsConfigPath?: string };
+}
+
+interface NestCliConfig {
+  monorepo?: boolean;
+  projects?: Record<string, NestCliProject>;
+}
+
+/**
+ * Load the projects of a Nest monorepo from its nest-cli.json.
+ * The tsconfig of a project is its `compilerOptions.tsConfigPath`, or
+ * `tsconfig.app.json` (`tsconfig.lib.json` for libraries) in its root.
+ * @param fileName - Path to the nest-cli.json
+ * @returns The projects, or undefined if the file does not exist or does not
+ * describe a monorepo
+ */
+export async function loadNestProjects(
+  fileName: string,
+): Promise<NestProject[] | undefined> {
+  if (!existsSync(fileName)) return undefined;
+
+  let config: NestCliConfig;
+  try {
+    config = JSON.parse(await readFile(fileName, 'utf-8')) as NestCliConfig;
+  } catch (error) {
+    throw new InvalidConfigError(
+      `Cannot load ${relative(process.cwd(), fileName)}: ${(error as Error).message}`,
+    );
+  }
+  if (!config.monorepo || !config.projects) return undefined;
+
+  const dir = dirname(fileName);
+  return Object.entries(config.projects).map(([name, project]) => {
+    const type = project.type === 'library' ? 'library' : 'application';
+    const root = resolve(dir, project.root ?? join('apps', name));
+    return {
+      name,
+      type,
+      root,
+      tsconfig: project.compilerOptions?.tsConfigPath
+        ? resolve(dir, project.compilerOptions.tsConfigPath)
+        : join(
+            root,
+            type === 'library' ? 'tsconfig.lib.json' : 'tsconfig.app.json',
+          ),
+    };
+  });
+}
@@ -0,0 +1,148 @@
+import ts from 'typescript';
+import { relative } from 'path';
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+interface Position {
+  /** 1-based line number */
+  line: number;
+  /** 1-based column number */
+  column: number;
+}
+
+/**
+ * A problem found while analyzing the source code
+ */
+export interface Diagnostic extends Position {
+  severity: DiagnosticSeverity;
+  /** Stable identifier of the problem, e.g. 'invalid-controller-decorator' */
+  code: string;
+  message: string;
+  /** Absolute path of the file the problem is in */
+  fileName: string;
+  /** End of the code the problem is about */
+  end: Position;
+  /** Source lines from `line` to `end.line` */
+  snippet: string[];
+}
+
+const SEVERITY_ORDER: Record<DiagnosticSeverity, number> = {
+  warning: 0,
+  error: 1,
+};
+
+/**
+ * Create a diagnostic located at a node
+ */
+export function createDiagnostic(
+  node: ts.Node,
+  severity: DiagnosticSeverity,
+  code: string,
+  message: string,
+): Diagnostic {
+  const sourceFile = node.getSourceFile();
+  const start = sourceFile.getLineAndCharacterOfPosition(node.getStart());
+  const end = sourceFile.getLineAndCharacterOfPosition(node.getEnd());
+  const lines = sourceFile.text.split(/\r?\n/);
+
+  return {
+    severity,
+    code,
+    message,
+    fileName: sourceFile.fileName,
+    line: start.line + 1,
+    column: start.character + 1,
+    end: { line: end.line + 1, column: end.character + 1 },
+    snippet: lines.slice(start.line, end.line + 1),
+  };
+}
+
+/**
+ * Check if any diagnostic is at least as severe as `failOn`
+ */
+export function hasDiagnosticsOfSeverity(
+  diagnostics: Diagnostic[],
+  failOn: DiagnosticSeverity,
+): boolean {
+  return diagnostics.some(
+    ({ severity }) => SEVERITY_ORDER[severity] >= SEVERITY_ORDER[failOn],
+  );
+}
+
+/**
+ * Remove the diagnostics reported more than once at the same place,
+ * e.g. in a file shared by several projects
+ */
+export function uniqueDiagnostics(diagnostics: Diagnostic[]): Diagnostic[] {
+  const keys = new Set<string>();
+  return diagnostics.filter(({ fileName, line, column, code }) => {
+    const key = `${fileName}:${line}:${column}:${code}`;
+    if (keys.has(key)) return false;
+    keys.add(key);
+    return true;
+  });
+}
+
+interface FormatOptions {
+  /** Colorize the output with ANSI escape codes */
+  color?: boolean;
+  /** Directory the file names are shown relative to */
+  cwd?: string;
+}
+
+const COLORS = {
+  error: '\u001b[91m',
+  warning: '\u001b[93m',
+  fileName: '\u001b[96m',
+  position: '\u001b[93m',
+  gutter: '\u001b[7m',
+  reset: '\u001b[0m',
+};
+
+/**
+ * Format diagnostics with the code they are about, in the style of
+ * `ts.formatDiagnosticsWithColorAndContext`:
+ *
+ *   src/users.controller.ts:3:1 - error invalid-controller-decorator: ...
+ *
+ *   3 @Controller(getPath())
+ *     ~~~~~~~~~~~~~~~~~~~~~~
+ */
+export function formatDiagnostics(
+  diagnostics: Diagnostic[],
+  options: FormatOptions = {},
+): string {
+  const paint = (color: keyof typeof COLORS, text: string) =>
+    options.color ? `${COLORS[color]}${text}${COLORS.reset}` : text;
+
+  return diagnostics
+    .map((diagnostic) => {
+      const fileName = relative(
+        options.cwd ?? process.cwd(),
+        diagnostic.fileName,
+      );
+      const header =
+        `${paint('fileName', fileName)}:` +
+        `${paint('position', String(diagnostic.line))}:` +
+        `${paint('position', String(diagnostic.column))} - ` +
+        `${paint(diagnostic.severity, diagnostic.severity)} ` +
+        `${diagnostic.code}: ${diagnostic.message}`;
+
+      const gutterWidth = String(diagnostic.end.line).length;
+      const context = diagnostic.snippet.flatMap((text, index) => {
+        const line = diagnostic.line + index;
+        const from = index === 0 ? diagnostic.column - 1 : 0;
+        const to =
+          line === diagnostic.end.line
+            ? diagnostic.end.column - 1
+            : text.length;
+        const underline = ' '.repeat(from) + '~'.repeat(Math.max(to - from, 1));
+        return [
+          `${paint('gutter', String(line).padStart(gutterWidth))} ${text}`,
+          `${paint('gutter', ' '.repeat(gutterWidth))} ${paint(diagnostic.severity, underline)}`,
+        ];
+      });
+      return [header, '', ...context].join('\n');
+    })
+    .join('\n\n');
+}
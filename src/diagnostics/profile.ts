@@ -0,0 +1,86 @@
+/**
+ * Time spent in a step of a run and how many times it was taken, or how many
+ * items it counted
+ */
+export interface ProfileEntry {
+  /** Milliseconds */
+  duration: number;
+  count: number;
+}
+
+/**
+ * Timings of the steps of a run, keyed by step, in the order they were
+ * first taken
+ */
+export type Profile = Map<string, ProfileEntry>;
+
+function getEntry(profile: Profile, step: string): ProfileEntry {
+  let entry = profile.get(step);
+  if (!entry) {
+    entry = { duration: 0, count: 0 };
+    profile.set(step, entry);
+  }
+  return entry;
+}
+
+/**
+ * Run a step, adding the time it takes to the profile when there is one
+ */
+export function measure<T>(
+  profile: Profile | undefined,
+  step: string,
+  run: () => T,
+): T {
+  if (!profile) return run();
+  const start = performance.now();
+  try {
+    return run();
+  } finally {
+    const entry = getEntry(profile, step);
+    entry.duration += performance.now() - start;
+    entry.count++;
+  }
+}
+
+/**
+ * Run an asynchronous step, adding the time it takes to the profile when
+ * there is one
+ */
+export async function measureAsync<T>(
+  profile: Profile | undefined,
+  step: string,
+  run: () => Promise<T>,
+): Promise<T> {
+  if (!profile) return run();
+  const start = performance.now();
+  try {
+    return await run();
+  } finally {
+    const entry = getEntry(profile, step);
+    entry.duration += performance.now() - start;
+    entry.count++;
+  }
+}
+
+/**
+ * Count items of a step, e.g. the files it skipped
+ */
+export function count(profile: Profile | undefined, step: string, amount = 1) {
+  if (profile) getEntry(profile, step).count += amount;
+}
+
+/**
+ * Format the profile as a table of steps, durations and counts
+ */
+export function formatProfile(profile: Profile): string {
+  const width = Math.max(...[...profile.keys()].map((step) => step.length));
+  return [...profile]
+    .map(([step, { duration, count }]) =>
+      [
+        step.padEnd(width),
+        duration > 0 ? `${duration.toFixed(1).padStart(9)} ms` : ' '.repeat(12),
+        `${count}`.padStart(7),
+      ].join('  '),
+    )
+    .join('\n');
+}
@@ -0,0 +1,395 @@
+import {
+  ApiModel,
+  PropertyModel,
+  TypeDeclaration,
+  TypeModel,
+} from '../models/api-model';
+import { GENERATED_FILE_HEADER, GeneratedFile } from './generated-file';
+import {
+  addImport,
+  addTypeImport,
+  Imports,
+  renderDocComment,
+  renderImports,
+} from './imports';
+import { getUniqueName, toKebabCase } from './naming';
+import { renderTypeDeclaration } from './ts-declarations';
+import {
+  collectReferences,
+  getDeclarationReferences,
+  renderLiteral,
+  renderPropertyAccess,
+  renderTsType,
+  stripNull,
+  toPropertyName,
+} from './ts-type';
+import { getApiPropertyDecorator } from './swagger-decorators';
+import { hoistAnonymousTypes } from './type-hoisting';
+
+const OUTPUT_DIR = 'dto';
+
+/**
+ * Get the module name of a declaration, without extension.
+ * e.g. CreateUserDto => 'create-user.dto', Role => 'role.enum',
+ * Shape => 'shape.type'
+ */
+function getModuleName(declaration: TypeDeclaration): string {
+  if (declaration.kind === 'enum') {
+    return `${toKebabCase(declaration.name)}.enum`;
+  }
+  if (declaration.kind === 'alias') {
+    return `${toKebabCase(declaration.name)}.type`;
+  }
+  const name = declaration.name.replace(/Dto$/, '') || declaration.name;
+  return `${toKebabCase(name)}.dto`;
+}
+
+/**
+ * Get the paths of the modules the declarations are generated in, without
+ * extension, keyed by name, e.g. CreateUserDto => 'dto/create-user.dto'
+ */
+export function getDtoModulePaths(
+  declarations: TypeDeclaration[],
+): Map<string, string> {
+  return new Map(
+    [...getModuleNames(declarations)].map(([name, moduleName]) => [
+      name,
+      `${OUTPUT_DIR}/${moduleName}`,
+    ]),
+  );
+}
+
+/**
+ * Get the module names of the declarations keyed by their names, numbering
+ * the names given to several declarations,
+ * e.g. User => 'user.dto', UserDto => 'user-2.dto'
+ */
+function getModuleNames(declarations: TypeDeclaration[]): Map<string, string> {
+  const moduleNames = new Map<string, string>();
+  const taken = new Set<string>();
+  declarations.forEach((declaration) => {
+    const moduleName = getModuleName(declaration);
+    const uniqueName = getUniqueName(
+      moduleName,
+      (candidate) => taken.has(candidate),
+      { suffix: moduleName.slice(moduleName.indexOf('.')), separator: '-' },
+    );
+    taken.add(uniqueName);
+    moduleNames.set(declaration.name, uniqueName);
+  });
+  return moduleNames;
+}
+
+interface TypeDecoratorOptions {
+  /** Validate every element of an array */
+  each?: boolean;
+  /** Validate numbers as integers */
+  integer?: boolean;
+}
+
+/**
+ * Get the class-validator and class-transformer decorators validating a type
+ */
+function getTypeDecorators(
+  type: TypeModel,
+  declarations: Map<string, TypeDeclaration>,
+  imports: Imports,
+  { each = false, integer = false }: TypeDecoratorOptions = {},
+): string[] {
+  const options = each ? '{ each: true }' : '';
+  const validator = (name: string, ...args: string[]) => {
+    addImport(imports, 'class-validator', name);
+    return `@${name}(${[...args, ...(options ? [options] : [])].join(', ')})`;
+  };
+  const transformer = (target: string, transformOptions?: string) => {
+    addImport(imports, 'class-transformer', 'Type');
+    return `@Type(${[`() => ${target}`, ...(transformOptions ? [transformOptions] : [])].join(', ')})`;
+  };
+
+  switch (type.kind) {
+    case 'primitive':
+      switch (type.type) {
+        case 'string':
+          return [validator('IsString')];
+        case 'number':
+          return [validator(integer ? 'IsInt' : 'IsNumber')];
+        case 'boolean':
+          return [validator('IsBoolean')];
+        case 'object':
+          return [validator('IsObject')];
+      }
+      return [];
+    case 'date':
+      return [validator('IsDate'), transformer('Date')];
+    case 'literal':
+      return [validator('Equals', renderLiteral(type.value))];
+    case 'reference': {
+      const declaration = declarations.get(type.name);
+      if (declaration?.kind === 'enum') {
+        return [validator('IsEnum', type.name)];
+      }
+      if (declaration?.kind === 'alias') {
+        return getTypeDecorators(declaration.type, declarations, imports, {
+          each,
+          integer,
+        });
+      }
+      return [validator('ValidateNested'), transformer(type.name)];
+    }
+    case 'array':
+      if (each) return [];
+      return [
+        validator('IsArray'),
+        ...getTypeDecorators(type.elementType, declarations, imports, {
+          each: true,
+          integer,
+        }),
+      ];
+    case 'record':
+    case 'object':
+      return [validator('IsObject')];
+    case 'union':
+      if (type.types.every((member) => member.kind === 'literal')) {
+        const values = type.types.map((member) =>
+          member.kind === 'literal' ? renderLiteral(member.value) : 'null',
+        );
+        return [validator('IsIn', `[${values.join(', ')}]`)];
+      }
+      // class-transformer picks the class by the discriminator's value
+      if (
+        type.discriminator?.values.every((value) => typeof value === 'string')
+      ) {
+        const { propertyName, values } = type.discriminator;
+        const subTypes = type.types.map((member, index) =>
+          member.kind === 'reference'
+            ? `{ value: ${member.name}, name: ${renderLiteral(values[index])} }`
+            : undefined,
+        );
+        if (subTypes.every((subType) => subType !== undefined)) {
+          return [
+            validator('ValidateNested'),
+            transformer(
+              'Object',
+              `{ discriminator: { property: ${renderLiteral(propertyName)}, subTypes: [${subTypes.join(', ')}] }, keepDiscriminatorProperty: true }`,
+            ),
+          ];
+        }
+      }
+      return [];
+  }
+}
+
+export interface ClassValidatorOptions {
+  /** Also decorate every property with `@ApiProperty` of @nestjs/swagger */
+  swagger?: boolean;
+  /**
+   * Modules of declarations generated elsewhere keyed by name, relative to
+   * the output directory, e.g. '../../shared/dto/user.dto'. These
+   * declarations are imported instead of generated.
+   */
+  modules?: Map<string, string>;
+}
+
+/**
+ * Get the decorators of a DTO property
+ */
+function getPropertyDecorators(
+  property: PropertyModel,
+  declarations: Map<string, TypeDeclaration>,
+  imports: Imports,
+  options: ClassValidatorOptions,
+): string[] {
+  const { type, nullable } = stripNull(property.type);
+  const validators: string[] = [];
+
+  if (property.optional) {
+    addImport(imports, 'class-validator', 'IsOptional');
+    validators.push('@IsOptional()');
+  } else if (nullable) {
+    // @IsOptional() would let the property be missing too
+    addImport(imports, 'class-validator', 'ValidateIf');
+    validators.push(
+      `@ValidateIf((o) => ${renderPropertyAccess('o', property.name)} !== null)`,
+    );
+  }
+
+  // Numbers are validated as integers when tagged with `@integer` or `@int`
+  const integer =
+    property.tags !== undefined &&
+    ('integer' in property.tags || 'int' in property.tags);
+  validators.push(
+    ...getTypeDecorators(type, declarations, imports, { integer }),
+  );
+  if (property.pattern !== undefined) {
+    addImport(imports, 'class-validator', 'Matches');
+    validators.push(
+      `@Matches(/${property.pattern}/${property.patternFlags ?? ''})`,
+    );
+  }
+
+  if (validators.length === 0) {
+    // Keep the property when the ValidationPipe whitelists properties
+    addImport(imports, 'class-validator', 'IsDefined');
+    validators.push('@IsDefined()');
+  }
+
+  if (options.swagger) {
+    return [
+      getApiPropertyDecorator(property, declarations, imports),
+      ...validators,
+    ];
+  }
+  return validators;
+}
+
+function renderEnum(
+  declaration: Extract<TypeDeclaration, { kind: 'enum' }>,
+): string {
+  const lines: string[] = [];
+  if (declaration.description) {
+    lines.push(renderDocComment(declaration.description));
+  }
+  lines.push(`export enum ${declaration.name} {`);
+  declaration.members.forEach((member) => {
+    lines.push(
+      `  ${toPropertyName(member.name)} = ${renderLiteral(member.value)},`,
+    );
+  });
+  lines.push('}');
+  return lines.join('\n');
+}
+
+/**
+ * Render the members of a DTO class.
+ * `decorate` returns the decorators of each property.
+ */
+function renderClass(
+  declaration: Extract<TypeDeclaration, { kind: 'object' }>,
+  decorate: (property: PropertyModel) => string[],
+): string {
+  const lines: string[] = [];
+  if (declaration.description) {
+    lines.push(renderDocComment(declaration.description));
+  }
+  lines.push(`export class ${declaration.name} {`);
+  declaration.properties.forEach((property, index) => {
+    if (index > 0) lines.push('');
+    if (property.description) {
+      lines.push(renderDocComment(property.description, '  '));
+    }
+    decorate(property).forEach((decorator) => lines.push(`  ${decorator}`));
+    lines.push(
+      `  ${toPropertyName(property.name)}${property.optional ? '?' : '!'}: ${renderTsType(property.type)};`,
+    );
+  });
+  lines.push('}');
+  return lines.join('\n');
+}
+
+/**
+ * Render the module of a declaration with its imports
+ * @param modules - Modules of the declarations keyed by name, relative to the
+ * output directory
+ */
+function renderModule(
+  declaration: TypeDeclaration,
+  moduleName: string,
+  modules: Map<string, string>,
+  declarations: Map<string, TypeDeclaration>,
+  imports: Imports,
+  body: string,
+): GeneratedFile {
+  const references = getDeclarationReferences(declaration);
+  // The decorators of properties typed with an alias name its members
+  if (declaration.kind === 'object') {
+    references.forEach((name) => {
+      const reference = declarations.get(name);
+      if (reference?.kind === 'alias') {
+        collectReferences(reference.type, references);
+      }
+    });
+  }
+  references.delete(declaration.name);
+  references.forEach((name) => {
+    const module = modules.get(name);
+    if (module && declarations.get(name)?.kind === 'alias') {
+      addTypeImport(imports, module, name);
+    } else if (module) {
+      addImport(imports, module, name);
+    }
+  });
+
+  const importStatements = renderImports(imports);
+  return {
+    path: `${OUTPUT_DIR}/${moduleName}.ts`,
+    content:
+      GENERATED_FILE_HEADER +
+      '\n' +
+      (importStatements ? importStatements + '\n\n' : '') +
+      body +
+      '\n',
+  };
+}
+
+/**
+ * Render the index module re-exporting every declaration
+ */
+function renderIndex(modules: Map<string, string>): GeneratedFile {
+  const exports = [...modules.values()]
+    .map((module) => `export * from '${module}';`)
+    .sort();
+  return {
+    path: `${OUTPUT_DIR}/index.ts`,
+    content: GENERATED_FILE_HEADER + '\n' + exports.join('\n') + '\n',
+  };
+}
+
+/**
+ * Generate a DTO class file decorated with class-validator for every request
+ * and response type, and an enum or type alias file for every enum and named
+ * union they use.
+ * The index module re-exports the declarations of `options.modules` as well.
+ */
+export function generateClassValidatorDtos(
+  model: ApiModel,
+  options: ClassValidatorOptions = {},
+): GeneratedFile[] {
+  const { types } = hoistAnonymousTypes(model);
+  const declarations = new Map(types.map((type) => [type.name, type]));
+  const generated = types.filter(({ name }) => !options.modules?.has(name));
+  const moduleNames = getModuleNames(generated);
+  const modules = new Map([
+    ...(options.modules ?? []),
+    ...[...moduleNames].map(([name, moduleName]): [string, string] => [
+      name,
+      `./${moduleName}`,
+    ]),
+  ]);
+
+  const files = generated.map((declaration) => {
+    const imports: Imports = new Map();
+    let body: string;
+    if (declaration.kind === 'enum') {
+      body = renderEnum(declaration);
+    } else if (declaration.kind === 'alias') {
+      body = renderTypeDeclaration(declaration);
+    } else {
+      body = renderClass(declaration, (property) =>
+        getPropertyDecorators(property, declarations, imports, options),
+      );
+    }
+    return renderModule(
+      declaration,
+      moduleNames.get(declaration.name)!,
+      modules,
+      declarations,
+      imports,
+      body,
+    );
+  });
+
+  if (types.length > 0) {
+    files.push(renderIndex(modules));
+  }
+  return files;
+}
@@ -0,0 +1,458 @@
+import {
+  ApiModel,
+  ControllerModel,
+  ParamModel,
+  ParamSource,
+  RouteModel,
+} from '../models/api-model';
+import { GENERATED_FILE_HEADER, GeneratedFile } from './generated-file';
+import {
+  getRouteNames,
+  getUniqueName,
+  toCamelCase,
+  toKebabCase,
+} from './naming';
+import { renderTypeDeclaration } from './ts-declarations';
+import {
+  collectReferences,
+  renderLiteral,
+  renderTsType,
+  toPropertyName,
+  TsTypeOptions,
+} from './ts-type';
+import { hoistAnonymousTypes } from './type-hoisting';
+
+const OUTPUT_DIR = 'client';
+
+const TRANSPORT_MODULE = `export type HttpMethod =
+  | 'GET'
+  | 'POST'
+  | 'PUT'
+  | 'PATCH'
+  | 'DELETE'
+  | 'OPTIONS'
+  | 'HEAD';
+
+export interface HttpRequest {
+  method: HttpMethod;
+  /** Path of the route with its parameters filled in, e.g. '/users/1' */
+  path: string;
+  query?: Record<string, unknown>;
+  headers?: Record<string, string | undefined>;
+  body?: unknown;
+}
+
+/**
+ * Sends a request and resolves with the response body.
+ * Implement it to use any HTTP library.
+ */
+export type HttpTransport = <T>(request: HttpRequest) => Promise<T>;
+
+export interface FetchTransportOptions {
+  /** fetch implementation, the global fetch by default */
+  fetch?: typeof fetch;
+  /** Headers sent with every request */
+  headers?: Record<string, string>;
+}
+
+function toHeaders(
+  ...sources: (Record<string, string | undefined> | undefined)[]
+): Record<string, string> {
+  const headers: Record<string, string> = {};
+  sources.forEach((source) =>
+    Object.entries(source ?? {}).forEach(([key, value]) => {
+      if (value !== undefined) headers[key] = value;
+    }),
+  );
+  return headers;
+}
+
+function toQueryString(query: Record<string, unknown> = {}): string {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value === undefined || value === null) return;
+    const values = Array.isArray(value) ? value : [value];
+    values.forEach((item) =>
+      params.append(
+        key,
+        item instanceof Date
+          ? item.toISOString()
+          : typeof item === 'object'
+            ? JSON.stringify(item)
+            : String(item),
+      ),
+    );
+  });
+  const queryString = params.toString();
+  return queryString ? \`?\${queryString}\` : '';
+}
+
+/**
+ * Create a transport sending requests with fetch
+ */
+export function createFetchTransport(
+  baseUrl: string,
+  options: FetchTransportOptions = {},
+): HttpTransport {
+  const send = options.fetch ?? fetch;
+  return async <T>(request: HttpRequest): Promise<T> => {
+    const response = await send(
+      baseUrl.replace(/\\/$/, '') + request.path + toQueryString(request.query),
+      {
+        method: request.method,
+        headers: toHeaders(
+          request.body !== undefined
+            ? { 'Content-Type': 'application/json' }
+            : undefined,
+          options.headers,
+          request.headers,
+        ),
+        body:
+          request.body !== undefined ? JSON.stringify(request.body) : undefined,
+      },
+    );
+    if (!response.ok) {
+      throw new Error(
+        \`\${request.method} \${request.path} failed with status \${response.status}\`,
+      );
+    }
+    const text = await response.text();
+    return (text ? JSON.parse(text) : undefined) as T;
+  };
+}
+
+/**
+ * The subset of an axios instance used by the axios transport
+ */
+export interface AxiosLike {
+  request<T>(config: {
+    method: string;
+    url: string;
+    params?: Record<string, unknown>;
+    headers?: Record<string, string | undefined>;
+    data?: unknown;
+  }): Promise<{ data: T }>;
+}
+
+/**
+ * Create a transport sending requests with an axios instance
+ */
+export function createAxiosTransport(axios: AxiosLike): HttpTransport {
+  return async <T>(request: HttpRequest): Promise<T> => {
+    const response = await axios.request<T>({
+      method: request.method,
+      url: request.path,
+      params: request.query,
+      headers: request.headers,
+      data: request.body,
+    });
+    return response.data;
+  };
+}
+`;
+
+/**
+ * Types of the client describe the JSON the transports send and parse,
+ * where dates are ISO 8601 strings
+ */
+export const PAYLOAD_TYPE_OPTIONS: TsTypeOptions = { datesAsStrings: true };
+
+/**
+ * Request fields of a client function, keyed by parameter source
+ */
+const REQUEST_FIELDS: Record<ParamSource, string> = {
+  param: 'params',
+  query: 'query',
+  headers: 'headers',
+  body: 'body',
+};
+
+/**
+ * Get the base name of a controller, e.g. UsersController => 'Users'
+ */
+function getControllerBaseName(controller: ControllerModel): string {
+  return controller.name.replace(/Controller$/, '') || controller.name;
+}
+
+/**
+ * Get a distinct base name for each controller, numbering the names whose
+ * modules would have the same file name, e.g. 'Users' and 'Users2' for two
+ * UsersController classes of different files
+ */
+export function getControllerBaseNames(
+  controllers: ControllerModel[],
+): string[] {
+  const taken = new Set<string>();
+  return controllers.map((controller) => {
+    const name = getUniqueName(getControllerBaseName(controller), (candidate) =>
+      taken.has(toKebabCase(candidate)),
+    );
+    taken.add(toKebabCase(name));
+    return name;
+  });
+}
+
+/**
+ * Get the TypeScript type of one request field, combining a whole-object
+ * parameter with the parameters bound by key
+ */
+function getRequestFieldType(
+  parameters: ParamModel[],
+  extraKeys: string[] = [],
+): { type: string; optional: boolean } {
+  const whole = parameters.find(({ key }) => key === undefined);
+  const keyed = parameters.filter(({ key }) => key !== undefined);
+  const members = [
+    ...keyed.map(
+      (parameter) =>
+        `${toPropertyName(parameter.key!)}${parameter.optional ? '?' : ''}: ${renderTsType(parameter.type, PAYLOAD_TYPE_OPTIONS)}`,
+    ),
+    ...extraKeys.map((key) => `${toPropertyName(key)}: string`),
+  ];
+
+  const types: string[] = [];
+  if (whole) types.push(renderTsType(whole.type, PAYLOAD_TYPE_OPTIONS));
+  if (members.length > 0) types.push(`{ ${members.join('; ')} }`);
+
+  return {
+    type: types.join(' & '),
+    optional:
+      parameters.every(({ optional }) => optional) && extraKeys.length === 0,
+  };
+}
+
+/**
+ * Render the expression building the path of a route from its params.
+ * e.g. '/users/:id' => `/users/${encodeURIComponent(String(request.params.id))}`
+ */
+function renderPathExpression(path: string): string {
+  if (!path.includes(':')) return renderLiteral(path);
+  const template = path
+    .replace(/[`$\\]/g, '\\$&')
+    .replace(
+      /:([A-Za-z0-9_]+)\??/g,
+      (_, name: string) =>
+        `\${encodeURIComponent(String(request.params[${renderLiteral(name)}]))}`,
+    );
+  return `\`${template}\``;
+}
+
+function getPathParameterNames(path: string): string[] {
+  return [...path.matchAll(/:([A-Za-z0-9_]+)/g)].map(([, name]) => name);
+}
+
+/**
+ * A field of the request object of a route, e.g. `params` or `body`
+ */
+export interface RequestField {
+  name: string;
+  /** Source of the parameters the field holds */
+  source: ParamSource;
+  type: string;
+  optional: boolean;
+}
+
+/**
+ * Get the fields of the request object of a route, one per parameter source.
+ * Path parameters without a `@Param()` are typed as strings.
+ */
+export function getRequestFields(route: RouteModel): RequestField[] {
+  const path = route.fullPath[0] ?? '/';
+  const pathParameterNames = getPathParameterNames(path);
+  const declaredParams = new Set(
+    route.parameters
+      .filter(({ source, key }) => source === 'param' && key !== undefined)
+      .map(({ key }) => key!),
+  );
+  const hasWholeParams = route.parameters.some(
+    ({ source, key }) => source === 'param' && key === undefined,
+  );
+
+  return (Object.keys(REQUEST_FIELDS) as ParamSource[]).flatMap((source) => {
+    const parameters = route.parameters.filter(
+      (parameter) => parameter.source === source,
+    );
+    const extraKeys =
+      source === 'param' && !hasWholeParams
+        ? pathParameterNames.filter((name) => !declaredParams.has(name))
+        : [];
+    if (parameters.length === 0 && extraKeys.length === 0) return [];
+    return [
+      {
+        name: REQUEST_FIELDS[source],
+        source,
+        ...getRequestFieldType(parameters, extraKeys),
+      },
+    ];
+  });
+}
+
+/**
+ * Render the client function of a route
+ */
+function renderRouteFunction(route: RouteModel, name: string): string {
+  const path = route.fullPath[0] ?? '/';
+  const requestFields = getRequestFields(route);
+  const fields = [
+    ...(route.httpMethod === 'ALL' ? ['method: HttpMethod;'] : []),
+    ...requestFields.map(
+      ({ name, type, optional }) => `${name}${optional ? '?' : ''}: ${type};`,
+    ),
+  ];
+  const requestKeys = requestFields
+    .filter(({ source }) => source !== 'param')
+    .map(({ name }) => name);
+
+  const responseType = renderTsType(route.response.type, PAYLOAD_TYPE_OPTIONS);
+  const requestObject = [
+    `method: ${route.httpMethod === 'ALL' ? 'request.method' : renderLiteral(route.httpMethod)}`,
+    `path: ${renderPathExpression(path)}`,
+    // Spreading gives interfaces the index signature of HttpRequest
+    ...requestKeys.map((key) =>
+      key === 'body' ? 'body: request.body' : `${key}: { ...request.${key} }`,
+    ),
+  ];
+  const signature =
+    fields.length > 0
+      ? `request: {\n${fields.map((field) => `      ${field}`).join('\n')}\n    }`
+      : '';
+
+  return [
+    `    ${name}(${signature}): Promise<${responseType}> {`,
+    `      return transport<${responseType}>({`,
+    ...requestObject.map((entry) => `        ${entry},`),
+    '      });',
+    '    },',
+  ].join('\n');
+}
+
+/**
+ * Render the module of a controller
+ */
+function renderControllerModule(
+  controller: ControllerModel,
+  baseName: string,
+): GeneratedFile {
+  const references = new Set<string>();
+  controller.routes.forEach((route) => {
+    route.parameters.forEach(({ type }) => collectReferences(type, references));
+    collectReferences(route.response.type, references);
+  });
+  const usesHttpMethod = controller.routes.some(
+    ({ httpMethod }) => httpMethod === 'ALL',
+  );
+
+  const imports = [
+    `import { ${usesHttpMethod ? 'HttpMethod, ' : ''}HttpTransport } from './transport';`,
+  ];
+  if (references.size > 0) {
+    imports.push(
+      `import type { ${[...references].sort().join(', ')} } from './types';`,
+    );
+  }
+
+  const routeNames = getRouteNames(controller.routes);
+  const body = [
+    `export function ${getFactoryName(baseName)}(transport: HttpTransport) {`,
+    '  return {',
+    controller.routes
+      .map((route, index) => renderRouteFunction(route, routeNames[index]))
+      .join('\n'),
+    '  };',
+    '}',
+  ].join('\n');
+
+  return {
+    path: `${OUTPUT_DIR}/${getClientModuleName(baseName)}.ts`,
+    content:
+      GENERATED_FILE_HEADER + '\n' + imports.join('\n') + '\n\n' + body + '\n',
+  };
+}
+
+function getClientModuleName(baseName: string): string {
+  return `${toKebabCase(baseName)}.api`;
+}
+
+function getFactoryName(baseName: string): string {
+  return `create${baseName}Api`;
+}
+
+/**
+ * Render the index module creating a client of every controller
+ */
+function renderIndexModule(baseNames: string[]): GeneratedFile {
+  const imports = baseNames.map(
+    (baseName) =>
+      `import { ${getFactoryName(baseName)} } from './${getClientModuleName(baseName)}';`,
+  );
+  const exports = [
+    "export * from './transport';",
+    "export * from './types';",
+    ...baseNames.map(
+      (baseName) => `export * from './${getClientModuleName(baseName)}';`,
+    ),
+  ];
+  const body = [
+    '/**',
+    ' * Create a client of every controller sharing one transport',
+    ' */',
+    'export function createApiClient(transport: HttpTransport) {',
+    '  return {',
+    ...baseNames.map(
+      (baseName) =>
+        `    ${toCamelCase(baseName)}: ${getFactoryName(baseName)}(transport),`,
+    ),
+    '  };',
+    '}',
+  ].join('\n');
+
+  return {
+    path: `${OUTPUT_DIR}/index.ts`,
+    content:
+      GENERATED_FILE_HEADER +
+      '\n' +
+      ["import { HttpTransport } from './transport';", ...imports].join('\n') +
+      '\n\n' +
+      exports.join('\n') +
+      '\n\n' +
+      body +
+      '\n',
+  };
+}
+
+/**
+ * Generate a typed HTTP client with one function per route.
+ * Requests are sent through a pluggable transport, so the client works
+ * with fetch, axios or any other HTTP library.
+ */
+export function generateClient(model: ApiModel): GeneratedFile[] {
+  const { controllers, types } = hoistAnonymousTypes(model);
+  const sortedControllers = [...controllers].sort((a, b) =>
+    a.name.localeCompare(b.name),
+  );
+  const baseNames = getControllerBaseNames(sortedControllers);
+
+  const typesContent =
+    types.length > 0
+      ? types
+          .map((declaration) =>
+            renderTypeDeclaration(declaration, PAYLOAD_TYPE_OPTIONS),
+          )
+          .join('\n\n') + '\n'
+      : 'export {};\n';
+
+  return [
+    {
+      path: `${OUTPUT_DIR}/transport.ts`,
+      content: GENERATED_FILE_HEADER + '\n' + TRANSPORT_MODULE,
+    },
+    {
+      path: `${OUTPUT_DIR}/types.ts`,
+      content: GENERATED_FILE_HEADER + '\n' + typesContent,
+    },
+    ...sortedControllers.map((controller, index) =>
+      renderControllerModule(controller, baseNames[index]),
+    ),
+    renderIndexModule(baseNames),
+  ];
+}
@@ -0,0 +1,11 @@
+/**
+ * A file produced by a generator.
+ * `path` is relative to the output directory.
+ */
+export interface GeneratedFile {
+  path: string;
+  content: string;
+}
+
+export const GENERATED_FILE_HEADER =
+  '// This file is generated by nest-dto-generator. Do not edit manually.\n';
@@ -0,0 +1,59 @@
+/**
+ * Named imports of a generated module, keyed by module specifier
+ */
+export type Imports = Map<string, Set<string>>;
+
+export function addImport(imports: Imports, from: string, name: string) {
+  const names = imports.get(from) ?? new Set<string>();
+  names.add(name);
+  imports.set(from, names);
+}
+
+/**
+ * Add the import of a name that is only a type, e.g. a type alias, which
+ * decorated classes must import with `import type` under isolatedModules
+ */
+export function addTypeImport(imports: Imports, from: string, name: string) {
+  addImport(imports, from, `type ${name}`);
+}
+
+function renderNamedImports(from: string, names: Set<string>): string {
+  const sorted = [...names]
+    .map((name) => name.replace(/^type /, ''))
+    .sort()
+    .map((name) => (names.has(name) ? name : `type ${name}`));
+  if (sorted.every((name) => name.startsWith('type '))) {
+    return `import type { ${sorted.map((name) => name.slice(5)).join(', ')} } from '${from}';`;
+  }
+  return `import { ${sorted.join(', ')} } from '${from}';`;
+}
+
+/**
+ * Render import statements, packages first and relative modules last
+ */
+export function renderImports(imports: Imports): string {
+  const isRelative = (from: string) => from.startsWith('.');
+  return [...imports.entries()]
+    .sort(([a], [b]) =>
+      isRelative(a) === isRelative(b)
+        ? a.localeCompare(b)
+        : isRelative(a)
+          ? 1
+          : -1,
+    )
+    .map(([from, names]) => renderNamedImports(from, names))
+    .join('\n');
+}
+
+/**
+ * Render a JSDoc comment with the given indentation
+ */
+export function renderDocComment(text: string, indent = ''): string {
+  const lines = text.split('\n');
+  if (lines.length === 1) return `${indent}/** ${text} */`;
+  return [
+    `${indent}/**`,
+    ...lines.map((line) => `${indent} * ${line}`.trimEnd()),
+    `${indent} */`,
+  ].join('\n');
+}
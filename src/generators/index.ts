@@ -0,0 +1,220 @@
+import { posix } from 'path';
+import { ApiModel, TypeDeclaration } from '../models/api-model';
+import {
+  generateClassValidatorDtos,
+  getDtoModulePaths,
+} from './class-validator-generator';
+import { generateClient } from './client-generator';
+import { GeneratedFile } from './generated-file';
+import { generateJsonSchemas } from './json-schema-generator';
+import { generateOpenApi, OpenApiOptions } from './openapi-generator';
+import { generateRoutes } from './routes-generator';
+import { getDeclarationReferences } from './ts-type';
+import { hoistAnonymousTypes, NamingOptions } from './type-hoisting';
+import { generateTypes, TypesOptions } from './types-generator';
+import { generateZodSchemas } from './zod-generator';
+
+export type { GeneratedFile } from './generated-file';
+
+export const OUTPUT_FORMATS = [
+  'class-validator',
+  'client',
+  'json-schema',
+  'openapi',
+  'routes',
+  'types',
+  'zod',
+] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+export interface GenerateOptions {
+  formats: OutputFormat[];
+  /** Decorate DTO properties with `@ApiProperty` of @nestjs/swagger */
+  swagger?: boolean;
+  openapi?: OpenApiOptions;
+  naming?: NamingOptions;
+  types?: TypesOptions;
+}
+
+/**
+ * Directory of the DTO classes that several projects have in common
+ */
+export const SHARED_DIR = 'shared';
+
+const GENERATORS: Record<
+  OutputFormat,
+  (
+    model: ApiModel,
+    options: GenerateOptions,
+    dtoModules: Map<string, string>,
+  ) => GeneratedFile[]
+> = {
+  'class-validator': (model, options, dtoModules) =>
+    generateClassValidatorDtos(model, {
+      swagger: options.swagger,
+      modules: dtoModules,
+    }),
+  client: generateClient,
+  'json-schema': generateJsonSchemas,
+  openapi: (model, options) => generateOpenApi(model, options.openapi),
+  routes: generateRoutes,
+  types: (model, options) => generateTypes(model, options.types),
+  zod: generateZodSchemas,
+};
+
+/**
+ * Build the output files of every requested format from a model whose
+ * anonymous types are hoisted
+ * @param dtoModules - Modules of the DTO classes generated elsewhere
+ */
+function renderFormats(
+  model: ApiModel,
+  options: GenerateOptions,
+  dtoModules: Map<string, string> = new Map(),
+): GeneratedFile[] {
+  return options.formats.flatMap((format) =>
+    GENERATORS[format](model, options, dtoModules),
+  );
+}
+
+/**
+ * Build the output files of every requested format from the intermediate model.
+ */
+export function generateFiles(
+  model: ApiModel,
+  options: GenerateOptions,
+): GeneratedFile[] {
+  // Name anonymous types once, so every format agrees on their names
+  return renderFormats(hoistAnonymousTypes(model, options.naming), options);
+}
+
+/**
+ * The model of one of the projects files are generated for
+ */
+export interface ProjectModel {
+  /**
+   * Name of the project, whose files are put in a directory of this name.
+   * Unset when a single project is generated.
+   */
+  name?: string;
+  model: ApiModel;
+}
+
+/**
+ * Get the declarations that several models have alike, e.g. the types of
+ * shared libraries. Those referring to a type another model declares
+ * differently are left out.
+ */
+function getSharedDeclarations(models: ApiModel[]): TypeDeclaration[] {
+  const serialized = models.map(
+    ({ types }) =>
+      new Map(
+        types.map((declaration) => [
+          declaration.name,
+          JSON.stringify(declaration),
+        ]),
+      ),
+  );
+
+  // The most common declaration of each name, when several models have it
+  const shared = new Map<string, string>();
+  const counts = new Map<string, number>();
+  serialized.forEach((types) =>
+    types.forEach((text) => counts.set(text, (counts.get(text) ?? 0) + 1)),
+  );
+  serialized.forEach((types) =>
+    types.forEach((text, name) => {
+      const current = shared.get(name);
+      if (
+        counts.get(text)! > 1 &&
+        (!current || counts.get(text)! > counts.get(current)!)
+      ) {
+        shared.set(name, text);
+      }
+    }),
+  );
+
+  const isShared = (types: Map<string, string>, name: string) =>
+    types.get(name) === shared.get(name);
+  for (let changed = true; changed; ) {
+    changed = false;
+    shared.forEach((text, name) => {
+      const references = [
+        ...getDeclarationReferences(JSON.parse(text) as TypeDeclaration),
+      ];
+      const users = serialized.filter((types) => isShared(types, name));
+      if (
+        users.length < 2 ||
+        users.some((types) => references.some((ref) => !isShared(types, ref)))
+      ) {
+        shared.delete(name);
+        changed = true;
+      }
+    });
+  }
+  return [...shared.values()].map(
+    (text) => JSON.parse(text) as TypeDeclaration,
+  );
+}
+
+/**
+ * Build the output files of several projects, each in the directory of its
+ * name. The DTO classes that several projects have alike, e.g. those of
+ * shared libraries, are generated once in the `shared` directory, which the
+ * projects import them from.
+ */
+export function generateProjectFiles(
+  projects: ProjectModel[],
+  options: GenerateOptions,
+): GeneratedFile[] {
+  const hoisted = projects.map(({ name, model }) => ({
+    name,
+    model: hoistAnonymousTypes(model, options.naming),
+  }));
+  const shared =
+    options.formats.includes('class-validator') &&
+    hoisted.length > 1 &&
+    hoisted.every(({ name }) => name !== undefined)
+      ? getSharedDeclarations(hoisted.map(({ model }) => model))
+      : [];
+  const sharedModules = getDtoModulePaths(shared);
+  const sharedTexts = new Map(
+    shared.map((declaration) => [
+      declaration.name,
+      JSON.stringify(declaration),
+    ]),
+  );
+
+  const files = hoisted.flatMap(({ name = '', model }) => {
+    const dtoModules = new Map<string, string>();
+    model.types
+      .filter(
+        (declaration) =>
+          JSON.stringify(declaration) === sharedTexts.get(declaration.name),
+      )
+      .forEach(({ name: typeName }) => {
+        const module = sharedModules.get(typeName)!;
+        dtoModules.set(
+          typeName,
+          posix.relative(
+            posix.join(name, posix.dirname(module)),
+            posix.join(SHARED_DIR, module),
+          ),
+        );
+      });
+    return renderFormats(model, options, dtoModules).map((file) =>
+      name ? { ...file, path: `${name}/${file.path}` } : file,
+    );
+  });
+
+  if (shared.length > 0) {
+    const model: ApiModel = { controllers: [], types: shared };
+    files.push(
+      ...generateClassValidatorDtos(model, { swagger: options.swagger }).map(
+        (file) => ({ ...file, path: `${SHARED_DIR}/${file.path}` }),
+      ),
+    );
+  }
+  return files;
+}
@@ -0,0 +1,121 @@
+import { ApiModel, TypeDeclaration } from '../models/api-model';
+import { GeneratedFile } from './generated-file';
+import { declarationToJsonSchema, JsonSchema } from './json-schema';
+import { collectReferences, getDeclarationReferences } from './ts-type';
+import { hoistAnonymousTypes } from './type-hoisting';
+
+const OUTPUT_DIR = 'json-schema';
+const SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+const SHARED_FILE = 'shared.schema.json';
+
+function getSchemaFileName(name: string): string {
+  return `${name}.schema.json`;
+}
+
+/**
+ * Get the names of the types used directly by the parameters and responses
+ * of the routes. Each of them gets its own schema file.
+ */
+function getDtoNames(model: ApiModel): Set<string> {
+  const names = new Set<string>();
+  model.controllers.forEach((controller) =>
+    controller.routes.forEach((route) => {
+      route.parameters.forEach(({ type }) => collectReferences(type, names));
+      collectReferences(route.response.type, names);
+    }),
+  );
+  return names;
+}
+
+/**
+ * Get the nested declarations a DTO depends on, stopping at other DTOs
+ * which are referenced by their own file
+ */
+function getNestedDeclarations(
+  dto: TypeDeclaration,
+  declarations: Map<string, TypeDeclaration>,
+  dtoNames: Set<string>,
+): Set<string> {
+  const nested = new Set<string>();
+  const pending = [...getDeclarationReferences(dto)];
+  while (pending.length > 0) {
+    const name = pending.pop()!;
+    const declaration = declarations.get(name);
+    if (!declaration || dtoNames.has(name) || nested.has(name)) continue;
+    nested.add(name);
+    pending.push(...getDeclarationReferences(declaration));
+  }
+  return nested;
+}
+
+function renderSchemaFile(fileName: string, schema: JsonSchema): GeneratedFile {
+  return {
+    path: `${OUTPUT_DIR}/${fileName}`,
+    content:
+      JSON.stringify(
+        { $schema: SCHEMA_DIALECT, $id: fileName, ...schema },
+        null,
+        2,
+      ) + '\n',
+  };
+}
+
+/**
+ * Generate a JSON Schema (draft 2020-12) file for every request and response
+ * DTO. DTOs refer to each other's file; the nested types of a single DTO are
+ * kept in its `$defs` and those used by several DTOs in `shared.schema.json`.
+ */
+export function generateJsonSchemas(model: ApiModel): GeneratedFile[] {
+  const hoisted = hoistAnonymousTypes(model);
+  const declarations = new Map(hoisted.types.map((type) => [type.name, type]));
+  const dtoNames = getDtoNames(hoisted);
+  const dtos = hoisted.types.filter(({ name }) => dtoNames.has(name));
+
+  const nestedByDto = new Map(
+    dtos.map((dto) => [
+      dto.name,
+      getNestedDeclarations(dto, declarations, dtoNames),
+    ]),
+  );
+  const usage = new Map<string, number>();
+  nestedByDto.forEach((nested) =>
+    nested.forEach((name) => usage.set(name, (usage.get(name) ?? 0) + 1)),
+  );
+  const isShared = (name: string) => (usage.get(name) ?? 0) > 1;
+
+  const createRefResolver = (inSharedFile: boolean) => (name: string) => {
+    if (dtoNames.has(name)) return getSchemaFileName(name);
+    if (isShared(name) && !inSharedFile) return `${SHARED_FILE}#/$defs/${name}`;
+    return `#/$defs/${name}`;
+  };
+
+  const toDefs = (names: string[], inSharedFile: boolean): JsonSchema =>
+    Object.fromEntries(
+      names
+        .sort()
+        .map((name) => [
+          name,
+          declarationToJsonSchema(
+            declarations.get(name)!,
+            createRefResolver(inSharedFile),
+          ),
+        ]),
+    );
+
+  const files = dtos.map((dto) => {
+    const local = [...nestedByDto.get(dto.name)!].filter(
+      (name) => !isShared(name),
+    );
+    const schema = declarationToJsonSchema(dto, createRefResolver(false));
+    return renderSchemaFile(getSchemaFileName(dto.name), {
+      ...schema,
+      ...(local.length > 0 ? { $defs: toDefs(local, false) } : {}),
+    });
+  });
+
+  const shared = [...usage.keys()].filter(isShared);
+  if (shared.length > 0) {
+    files.push(renderSchemaFile(SHARED_FILE, { $defs: toDefs(shared, true) }));
+  }
+  return files;
+}
@@ -0,0 +1,209 @@
+import { PropertyModel, TypeDeclaration, TypeModel } from '../models/api-model';
+
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * Get the `$ref` of a named declaration
+ */
+export type RefResolver = (name: string) => string;
+
+/**
+ * Convert a TypeModel to a JSON Schema (draft 2020-12, the dialect of
+ * OpenAPI 3.1). References point to `toRef(name)`.
+ */
+export function typeToJsonSchema(
+  type: TypeModel,
+  toRef: RefResolver,
+): JsonSchema {
+  switch (type.kind) {
+    case 'primitive':
+      switch (type.type) {
+        case 'string':
+        case 'number':
+        case 'boolean':
+        case 'null':
+        case 'object':
+          return { type: type.type };
+        case 'bigint':
+          return { type: 'integer', format: 'int64' };
+      }
+      return {};
+    case 'date':
+      return { type: 'string', format: 'date-time' };
+    case 'literal':
+      return { const: type.value };
+    case 'array':
+      return {
+        type: 'array',
+        items: typeToJsonSchema(type.elementType, toRef),
+      };
+    case 'record':
+      return {
+        type: 'object',
+        additionalProperties: typeToJsonSchema(type.valueType, toRef),
+      };
+    case 'reference':
+      return { $ref: toRef(type.name) };
+    case 'object':
+      return objectToJsonSchema(type.properties, toRef);
+    case 'union': {
+      const values = getLiteralValues(type.types);
+      if (values) return enumToJsonSchema(values);
+      const members = type.types.map((member) =>
+        typeToJsonSchema(member, toRef),
+      );
+      if (type.discriminator) {
+        return {
+          oneOf: members,
+          discriminator: discriminatorToJsonSchema(type, toRef),
+        };
+      }
+      return { anyOf: members };
+    }
+  }
+}
+
+/**
+ * Get the values of a union of literals and null
+ */
+function getLiteralValues(
+  types: TypeModel[],
+): (string | number | boolean | null)[] | undefined {
+  const values: (string | number | boolean | null)[] = [];
+  for (const member of types) {
+    if (member.kind === 'literal') {
+      values.push(member.value);
+    } else if (member.kind === 'primitive' && member.type === 'null') {
+      values.push(null);
+    } else {
+      return undefined;
+    }
+  }
+  return values;
+}
+
+/**
+ * Convert enum values to a JSON Schema, with their type when they share one
+ */
+function enumToJsonSchema(
+  values: (string | number | boolean | null)[],
+): JsonSchema {
+  const types = [
+    ...new Set(values.map((value) => (value === null ? 'null' : typeof value))),
+  ];
+  let type: string | string[] | undefined;
+  if (types.length === 1) {
+    type = types[0];
+  } else if (types.length === 2 && types.includes('null')) {
+    type = types;
+  }
+  return { ...(type ? { type } : {}), enum: values };
+}
+
+/**
+ * Convert the discriminator of a union to the OpenAPI `discriminator`
+ * keyword. The values are mapped when every member is a reference.
+ */
+function discriminatorToJsonSchema(
+  type: Extract<TypeModel, { kind: 'union' }>,
+  toRef: RefResolver,
+): JsonSchema {
+  const { propertyName, values } = type.discriminator!;
+  const refs = type.types.map((member) =>
+    member.kind === 'reference' ? toRef(member.name) : undefined,
+  );
+  if (refs.some((ref) => ref === undefined)) return { propertyName };
+  return {
+    propertyName,
+    mapping: Object.fromEntries(
+      refs.map((ref, index) => [String(values[index]), ref]),
+    ),
+  };
+}
+
+/**
+ * Convert a property to a JSON Schema, including its description, default
+ * value, `@Matches()` pattern and `@example` JSDoc tag
+ */
+export function propertyToJsonSchema(
+  property: PropertyModel,
+  toRef: RefResolver,
+): JsonSchema {
+  const tags = property.tags ?? {};
+  let schema = typeToJsonSchema(property.type, toRef);
+  if (('integer' in tags || 'int' in tags) && schema.type === 'number') {
+    schema = { ...schema, type: 'integer' };
+  }
+  // Patterns are matched without flags, leaving out those whose flags change
+  // which strings they match
+  if (
+    property.pattern !== undefined &&
+    schema.type === 'string' &&
+    !/[^dgu]/.test(property.patternFlags ?? '')
+  ) {
+    schema.pattern = property.pattern;
+  }
+  if (property.description) schema.description = property.description;
+  if (property.default !== undefined) schema.default = property.default;
+  if (tags.example !== undefined) {
+    schema.examples = [parseExample(tags.example)];
+  }
+  return schema;
+}
+
+function objectToJsonSchema(
+  properties: PropertyModel[],
+  toRef: RefResolver,
+): JsonSchema {
+  const schema: JsonSchema = {
+    type: 'object',
+    properties: Object.fromEntries(
+      properties.map((property) => [
+        property.name,
+        propertyToJsonSchema(property, toRef),
+      ]),
+    ),
+  };
+  const required = properties
+    .filter((property) => !property.optional)
+    .map((property) => property.name);
+  if (required.length > 0) schema.required = required;
+  return schema;
+}
+
+/**
+ * Convert a named declaration to a JSON Schema
+ */
+export function declarationToJsonSchema(
+  declaration: TypeDeclaration,
+  toRef: RefResolver,
+): JsonSchema {
+  let schema: JsonSchema;
+  if (declaration.kind === 'enum') {
+    schema = enumToJsonSchema(
+      declaration.members.map((member) => member.value),
+    );
+  } else if (declaration.kind === 'alias') {
+    schema = typeToJsonSchema(declaration.type, toRef);
+  } else {
+    schema = objectToJsonSchema(declaration.properties, toRef);
+  }
+  return {
+    title: declaration.name,
+    ...(declaration.description
+      ? { description: declaration.description }
+      : {}),
+    ...schema,
+  };
+}
+
+/**
+ * Parse the `@example` JSDoc tag as JSON, falling back to the raw text
+ */
+export function parseExample(example: string): unknown {
+  try {
+    return JSON.parse(example);
+  } catch {
+    return example;
+  }
+}
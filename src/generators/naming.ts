@@ -0,0 +1,90 @@
+import { RouteModel } from '../models/api-model';
+
+/**
+ * Split an identifier into lower-cased words.
+ * e.g. 'UsersController' => ['users', 'controller'], 'api-v1' => ['api', 'v1']
+ */
+function splitWords(name: string): string[] {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter((word) => word.length > 0)
+    .map((word) => word.toLowerCase());
+}
+
+export function toKebabCase(name: string): string {
+  return splitWords(name).join('-');
+}
+
+export function toPascalCase(name: string): string {
+  return splitWords(name)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join('');
+}
+
+export function toCamelCase(name: string): string {
+  const pascal = toPascalCase(name);
+  return pascal.length > 0 ? pascal[0].toLowerCase() + pascal.slice(1) : '';
+}
+
+export interface UniqueNameOptions {
+  /** Suffix kept after the number, e.g. 'Dto' for `User2Dto` */
+  suffix?: string;
+  /** Separator put before the number, e.g. '-' for `user-2.dto` */
+  separator?: string;
+}
+
+/**
+ * Get a name that is not taken yet by numbering it from 2, keeping the
+ * suffix last, e.g. `User2Dto` when `UserDto` is taken
+ */
+export function getUniqueName(
+  name: string,
+  isTaken: (name: string) => boolean,
+  { suffix = '', separator = '' }: UniqueNameOptions = {},
+): string {
+  const hasSuffix = suffix.length > 0 && name.endsWith(suffix);
+  const base = hasSuffix ? name.slice(0, -suffix.length) : name;
+  let candidate = name;
+  for (let index = 2; isTaken(candidate); index++) {
+    candidate = `${base}${separator}${index}${hasSuffix ? suffix : ''}`;
+  }
+  return candidate;
+}
+
+/**
+ * Number the names repeated in a list, see `getUniqueName`,
+ * e.g. ['UsersController', 'UsersController'] with the 'Controller' suffix
+ * => ['UsersController', 'Users2Controller']
+ */
+export function toUniqueNames(
+  names: string[],
+  options: UniqueNameOptions = {},
+): string[] {
+  const taken = new Set<string>();
+  return names.map((name) => {
+    const uniqueName = getUniqueName(
+      name,
+      (candidate) => taken.has(candidate),
+      options,
+    );
+    taken.add(uniqueName);
+    return uniqueName;
+  });
+}
+
+/**
+ * Get a distinct name for each route of a controller. The routes of a handler
+ * with several route decorators are named after their HTTP method too,
+ * e.g. `findOneGet` and `findOneHead`.
+ */
+export function getRouteNames(routes: RouteModel[]): string[] {
+  return toUniqueNames(
+    routes.map((route) =>
+      routes.some((other) => other !== route && other.name === route.name)
+        ? `${route.name}${toPascalCase(route.httpMethod)}`
+        : route.name,
+    ),
+  );
+}
@@ -0,0 +1,266 @@
+import { stringify } from 'yaml';
+import {
+  ApiModel,
+  ControllerModel,
+  HttpMethod,
+  RouteModel,
+  TypeDeclaration,
+} from '../models/api-model';
+import { GeneratedFile } from './generated-file';
+import {
+  declarationToJsonSchema,
+  JsonSchema,
+  propertyToJsonSchema,
+  typeToJsonSchema,
+} from './json-schema';
+import { getUniqueName } from './naming';
+import { hoistAnonymousTypes } from './type-hoisting';
+
+/**
+ * Get the reference to a schema of the components object
+ */
+function toRef(name: string): string {
+  return `#/components/schemas/${name}`;
+}
+
+export interface OpenApiOptions {
+  /** Output file name; `.yaml` and `.yml` files are written as YAML */
+  fileName?: string;
+  title?: string;
+  version?: string;
+}
+
+type OperationMethod =
+  | 'get'
+  | 'post'
+  | 'put'
+  | 'patch'
+  | 'delete'
+  | 'options'
+  | 'head';
+
+const OPERATION_METHODS: Record<HttpMethod, OperationMethod[]> = {
+  GET: ['get'],
+  POST: ['post'],
+  PUT: ['put'],
+  PATCH: ['patch'],
+  DELETE: ['delete'],
+  OPTIONS: ['options'],
+  HEAD: ['head'],
+  ALL: ['get', 'post', 'put', 'patch', 'delete', 'options', 'head'],
+};
+
+const PARAMETER_LOCATIONS: Record<string, string> = {
+  query: 'query',
+  param: 'path',
+  headers: 'header',
+};
+
+/**
+ * Convert an express-style path to an OpenAPI path.
+ * e.g. '/users/:id' => '/users/{id}'
+ */
+export function toOpenApiPath(path: string): string {
+  return path.replace(/:([A-Za-z0-9_]+)\??/g, '{$1}');
+}
+
+/**
+ * Get the tags of a controller: those of `@ApiTags()`, or its name without
+ * the `Controller` suffix, e.g. UsersController => ['Users']
+ */
+export function getControllerTags(controller: ControllerModel): string[] {
+  return (
+    controller.tags ?? [
+      controller.name.replace(/Controller$/, '') || controller.name,
+    ]
+  );
+}
+
+/**
+ * Build the parameter objects of a route.
+ * Whole-object query, path and header parameters are expanded into one
+ * parameter per property, as @nestjs/swagger does.
+ */
+function buildParameters(
+  route: RouteModel,
+  path: string,
+  declarations: Map<string, TypeDeclaration>,
+): JsonSchema[] {
+  const parameters: JsonSchema[] = [];
+  const add = (parameter: JsonSchema) => {
+    const exists = parameters.some(
+      ({ name, in: location }) =>
+        name === parameter.name && location === parameter.in,
+    );
+    if (!exists) parameters.push(parameter);
+  };
+
+  route.parameters.forEach((parameter) => {
+    const location = PARAMETER_LOCATIONS[parameter.source];
+    if (!location) return;
+
+    if (parameter.key !== undefined) {
+      add({
+        name: parameter.key,
+        in: location,
+        required: location === 'path' || !parameter.optional,
+        schema: typeToJsonSchema(parameter.type, toRef),
+      });
+      return;
+    }
+
+    if (parameter.type.kind !== 'reference') return;
+    const declaration = declarations.get(parameter.type.name);
+    if (declaration?.kind !== 'object') return;
+    declaration.properties.forEach((property) => {
+      const { description, ...schema } = propertyToJsonSchema(property, toRef);
+      add({
+        name: property.name,
+        in: location,
+        required: location === 'path' || !property.optional,
+        ...(description ? { description } : {}),
+        schema,
+      });
+    });
+  });
+
+  // Path parameters without a matching @Param are still required by OpenAPI
+  for (const [, name] of path.matchAll(/\{([^}]+)\}/g)) {
+    add({ name, in: 'path', required: true, schema: { type: 'string' } });
+  }
+  return parameters;
+}
+
+/**
+ * Build the request body object of a route, if it has one
+ */
+function buildRequestBody(route: RouteModel): JsonSchema | undefined {
+  const bodies = route.parameters.filter(({ source }) => source === 'body');
+  if (bodies.length === 0) return undefined;
+
+  const whole = bodies.find(({ key }) => key === undefined);
+  let schema: JsonSchema;
+  if (whole) {
+    schema = typeToJsonSchema(whole.type, toRef);
+  } else {
+    const required = bodies
+      .filter(({ optional }) => !optional)
+      .map(({ key }) => key);
+    schema = {
+      type: 'object',
+      properties: Object.fromEntries(
+        bodies.map(({ key, type }) => [key, typeToJsonSchema(type, toRef)]),
+      ),
+      ...(required.length > 0 ? { required } : {}),
+    };
+  }
+
+  return {
+    required: bodies.some(({ optional }) => !optional),
+    content: { 'application/json': { schema } },
+  };
+}
+
+/**
+ * Build the responses object of a route.
+ * Like NestJS, POST handlers respond with 201 and the others with 200.
+ */
+function buildResponses(route: RouteModel, method: OperationMethod) {
+  const status = method === 'post' ? '201' : '200';
+  const { type } = route.response;
+  const isEmpty =
+    type.kind === 'primitive' &&
+    ['void', 'undefined', 'never'].includes(type.type);
+
+  return {
+    [status]: {
+      description: '',
+      ...(isEmpty
+        ? {}
+        : {
+            content: {
+              'application/json': {
+                schema: typeToJsonSchema(type, toRef),
+              },
+            },
+          }),
+    },
+  };
+}
+
+/**
+ * Build an OpenAPI 3.1 document from the intermediate model
+ */
+export function buildOpenApiDocument(
+  model: ApiModel,
+  options: OpenApiOptions = {},
+): JsonSchema {
+  const { controllers, types } = hoistAnonymousTypes(model);
+  const declarations = new Map(types.map((type) => [type.name, type]));
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+  const operationIds = new Set<string>();
+
+  const uniqueOperationId = (id: string) => {
+    const operationId = getUniqueName(
+      id,
+      (candidate) => operationIds.has(candidate),
+      { separator: '_' },
+    );
+    operationIds.add(operationId);
+    return operationId;
+  };
+
+  controllers.forEach((controller) => {
+    controller.routes.forEach((route) => {
+      route.fullPath.forEach((fullPath) => {
+        const path = toOpenApiPath(fullPath);
+        const requestBody = buildRequestBody(route);
+        const parameters = buildParameters(route, path, declarations);
+        OPERATION_METHODS[route.httpMethod].forEach((method) => {
+          paths[path] ??= {};
+          paths[path][method] = {
+            operationId: uniqueOperationId(`${controller.name}_${route.name}`),
+            tags: getControllerTags(controller),
+            ...(parameters.length > 0 ? { parameters } : {}),
+            ...(requestBody ? { requestBody } : {}),
+            responses: buildResponses(route, method),
+          };
+        });
+      });
+    });
+  });
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: options.title ?? 'API',
+      version: options.version ?? '1.0.0',
+    },
+    paths: Object.fromEntries(
+      Object.entries(paths).sort(([a], [b]) => a.localeCompare(b)),
+    ),
+    components: {
+      schemas: Object.fromEntries(
+        types.map((declaration) => [
+          declaration.name,
+          declarationToJsonSchema(declaration, toRef),
+        ]),
+      ),
+    },
+  };
+}
+
+/**
+ * Generate an OpenAPI 3.1 document as JSON or YAML
+ */
+export function generateOpenApi(
+  model: ApiModel,
+  options: OpenApiOptions = {},
+): GeneratedFile[] {
+  const fileName = options.fileName ?? 'openapi.json';
+  const document = buildOpenApiDocument(model, options);
+  const content = /\.ya?ml$/.test(fileName)
+    ? stringify(document, { aliasDuplicateObjects: false })
+    : JSON.stringify(document, null, 2) + '\n';
+  return [{ path: fileName, content }];
+}
@@ -0,0 +1,39 @@
+import { ApiModel } from '../models/api-model';
+import { GENERATED_FILE_HEADER, GeneratedFile } from './generated-file';
+import { getRouteNames, toUniqueNames } from './naming';
+
+/**
+ * Generate a module exposing the paths and routes of every controller as constants.
+ */
+export function generateRoutes(model: ApiModel): GeneratedFile[] {
+  const controllers = [...model.controllers].sort((a, b) =>
+    a.name.localeCompare(b.name),
+  );
+
+  // Controllers having the same name in different files are numbered
+  const names = toUniqueNames(
+    controllers.map(({ name }) => name),
+    { suffix: 'Controller' },
+  );
+  const declarations = controllers.map((controller, index) => {
+    const routeNames = getRouteNames(controller.routes);
+    return [
+      `export const ${names[index]} = {`,
+      `  path: ${JSON.stringify(controller.path)},`,
+      '  routes: {',
+      ...controller.routes.map(
+        (route, index) =>
+          `    ${routeNames[index]}: { method: ${JSON.stringify(route.httpMethod)}, path: ${JSON.stringify(route.fullPath)} },`,
+      ),
+      '  },',
+      '} as const;',
+    ].join('\n');
+  });
+
+  return [
+    {
+      path: 'routes.ts',
+      content: GENERATED_FILE_HEADER + '\n' + declarations.join('\n\n') + '\n',
+    },
+  ];
+}
@@ -0,0 +1,97 @@
+import { PropertyModel, TypeDeclaration, TypeModel } from '../models/api-model';
+import { addImport, Imports } from './imports';
+import { parseExample } from './json-schema';
+import { renderLiteral, renderValue, stripNull } from './ts-type';
+
+/**
+ * Get the `type` and `enum` options describing a type
+ */
+function getTypeOptions(
+  type: TypeModel,
+  declarations: Map<string, TypeDeclaration>,
+  integer: boolean,
+): [string, string][] {
+  switch (type.kind) {
+    case 'primitive':
+      switch (type.type) {
+        case 'string':
+          return [['type', 'String']];
+        case 'number':
+          return [['type', integer ? "'integer'" : 'Number']];
+        case 'boolean':
+          return [['type', 'Boolean']];
+        case 'object':
+          return [['type', 'Object']];
+      }
+      return [];
+    case 'date':
+      return [['type', 'Date']];
+    case 'literal':
+      return [['enum', `[${renderLiteral(type.value)}]`]];
+    case 'reference': {
+      const declaration = declarations.get(type.name);
+      if (declaration?.kind === 'enum') {
+        return [
+          ['enum', type.name],
+          ['enumName', renderLiteral(type.name)],
+        ];
+      }
+      if (declaration?.kind === 'alias') {
+        return getTypeOptions(declaration.type, declarations, integer);
+      }
+      return [['type', `() => ${type.name}`]];
+    }
+    case 'record':
+    case 'object':
+      return [['type', 'Object']];
+    case 'union':
+      if (type.types.every((member) => member.kind === 'literal')) {
+        const values = type.types.map((member) =>
+          member.kind === 'literal' ? renderLiteral(member.value) : 'null',
+        );
+        return [['enum', `[${values.join(', ')}]`]];
+      }
+      return [];
+    case 'array':
+      return [];
+  }
+}
+
+/**
+ * Get the `@ApiProperty` or `@ApiPropertyOptional` decorator of a DTO property
+ */
+export function getApiPropertyDecorator(
+  property: PropertyModel,
+  declarations: Map<string, TypeDeclaration>,
+  imports: Imports,
+): string {
+  const { type, nullable } = stripNull(property.type);
+  const isArray = type.kind === 'array';
+  const itemType = type.kind === 'array' ? type.elementType : type;
+  const tags = property.tags ?? {};
+
+  const options: [string, string][] = [];
+  if (property.description) {
+    options.push(['description', renderLiteral(property.description)]);
+  }
+  options.push(
+    ...getTypeOptions(
+      itemType,
+      declarations,
+      'integer' in tags || 'int' in tags,
+    ),
+  );
+  if (isArray) options.push(['isArray', 'true']);
+  if (nullable) options.push(['nullable', 'true']);
+  if (tags.example !== undefined) {
+    options.push(['example', renderValue(parseExample(tags.example))]);
+  }
+  if (property.default !== undefined) {
+    options.push(['default', renderValue(property.default)]);
+  }
+
+  const name = property.optional ? 'ApiPropertyOptional' : 'ApiProperty';
+  addImport(imports, '@nestjs/swagger', name);
+  const args = options.map(([key, value]) => `${key}: ${value}`).join(', ');
+  return `@${name}(${args ? `{ ${args} }` : ''})`;
+}
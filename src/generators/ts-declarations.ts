@@ -0,0 +1,52 @@
+import { TypeDeclaration } from '../models/api-model';
+import { renderDocComment } from './imports';
+import {
+  renderLiteral,
+  renderTsType,
+  toPropertyName,
+  TsTypeOptions,
+} from './ts-type';
+
+/**
+ * Render a declaration as a type-only TypeScript declaration:
+ * objects as interfaces, enums as unions of their values and aliases as
+ * type aliases.
+ */
+export function renderTypeDeclaration(
+  declaration: TypeDeclaration,
+  options: TsTypeOptions = {},
+): string {
+  const lines: string[] = [];
+  if (declaration.description) {
+    lines.push(renderDocComment(declaration.description));
+  }
+
+  if (declaration.kind === 'enum') {
+    const values = declaration.members.map((member) =>
+      renderLiteral(member.value),
+    );
+    lines.push(
+      `export type ${declaration.name} = ${values.length > 0 ? values.join(' | ') : 'never'};`,
+    );
+    return lines.join('\n');
+  }
+
+  if (declaration.kind === 'alias') {
+    lines.push(
+      `export type ${declaration.name} = ${renderTsType(declaration.type, options)};`,
+    );
+    return lines.join('\n');
+  }
+
+  lines.push(`export interface ${declaration.name} {`);
+  declaration.properties.forEach((property) => {
+    if (property.description) {
+      lines.push(renderDocComment(property.description, '  '));
+    }
+    lines.push(
+      `  ${toPropertyName(property.name)}${property.optional ? '?' : ''}: ${renderTsType(property.type, options)};`,
+    );
+  });
+  lines.push('}');
+  return lines.join('\n');
+}
@@ -0,0 +1,163 @@
+import { TypeDeclaration, TypeModel } from '../models/api-model';
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/**
+ * Quote a property name unless it is a valid identifier
+ */
+export function toPropertyName(name: string): string {
+  return IDENTIFIER_PATTERN.test(name) ? name : renderLiteral(name);
+}
+
+/**
+ * Render the access to a property of an object, e.g. `o.name` or `o['x-id']`
+ */
+export function renderPropertyAccess(object: string, name: string): string {
+  return IDENTIFIER_PATTERN.test(name)
+    ? `${object}.${name}`
+    : `${object}[${renderLiteral(name)}]`;
+}
+
+/**
+ * Render a literal value as TypeScript source, using single-quoted strings
+ */
+export function renderLiteral(value: string | number | boolean): string {
+  if (typeof value !== 'string') return String(value);
+  return `'${JSON.stringify(value).slice(1, -1).replace(/\\"/g, '"').replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * Render a JSON-compatible value as a TypeScript expression
+ */
+export function renderValue(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(renderValue).join(', ')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value).map(
+      ([key, entry]) => `${toPropertyName(key)}: ${renderValue(entry)}`,
+    );
+    return entries.length > 0 ? `{ ${entries.join(', ')} }` : '{}';
+  }
+  if (
+    typeof value === 'string' ||
+    typeof value === 'number' ||
+    typeof value === 'boolean'
+  ) {
+    return renderLiteral(value);
+  }
+  return String(value);
+}
+
+/**
+ * Split `T | null` into T and whether null is allowed
+ */
+export function stripNull(type: TypeModel): {
+  type: TypeModel;
+  nullable: boolean;
+} {
+  if (type.kind !== 'union') return { type, nullable: false };
+  const types = type.types.filter(
+    (member) => !(member.kind === 'primitive' && member.type === 'null'),
+  );
+  if (types.length === type.types.length) return { type, nullable: false };
+  return {
+    type: types.length === 1 ? types[0] : { ...type, types },
+    nullable: true,
+  };
+}
+
+export interface TsTypeOptions {
+  /**
+   * Render dates as ISO 8601 strings, as they are in JSON payloads,
+   * rather than as `Date` objects
+   */
+  datesAsStrings?: boolean;
+}
+
+/**
+ * Render a TypeModel as a TypeScript type expression
+ */
+export function renderTsType(
+  type: TypeModel,
+  options: TsTypeOptions = {},
+): string {
+  switch (type.kind) {
+    case 'primitive':
+      return type.type;
+    case 'date':
+      return options.datesAsStrings ? 'string' : 'Date';
+    case 'literal':
+      return renderLiteral(type.value);
+    case 'array': {
+      const elementType = renderTsType(type.elementType, options);
+      return type.elementType.kind === 'union'
+        ? `(${elementType})[]`
+        : `${elementType}[]`;
+    }
+    case 'record':
+      return `Record<string, ${renderTsType(type.valueType, options)}>`;
+    case 'reference':
+      return type.name;
+    case 'object':
+      return `{ ${type.properties
+        .map(
+          (property) =>
+            `${toPropertyName(property.name)}${property.optional ? '?' : ''}: ${renderTsType(property.type, options)}`,
+        )
+        .join('; ')} }`;
+    case 'union':
+      return type.types
+        .map((member) => renderTsType(member, options))
+        .join(' | ');
+  }
+}
+
+/**
+ * Collect the names of the declarations a type refers to
+ */
+export function collectReferences(
+  type: TypeModel,
+  references: Set<string> = new Set(),
+): Set<string> {
+  switch (type.kind) {
+    case 'array':
+      collectReferences(type.elementType, references);
+      break;
+    case 'record':
+      collectReferences(type.valueType, references);
+      break;
+    case 'reference':
+      references.add(type.name);
+      break;
+    case 'object':
+      type.properties.forEach((property) =>
+        collectReferences(property.type, references),
+      );
+      break;
+    case 'union':
+      type.types.forEach((member) => collectReferences(member, references));
+      break;
+  }
+  return references;
+}
+
+/**
+ * Collect the names of the declarations a declaration refers to
+ */
+export function getDeclarationReferences(
+  declaration: TypeDeclaration,
+): Set<string> {
+  const references = new Set<string>();
+  switch (declaration.kind) {
+    case 'object':
+      declaration.properties.forEach((property) =>
+        collectReferences(property.type, references),
+      );
+      break;
+    case 'alias':
+      collectReferences(declaration.type, references);
+      break;
+  }
+  return references;
+}
@@ -0,0 +1,163 @@
+import {
+  ApiModel,
+  PropertyModel,
+  TypeDeclaration,
+  TypeModel,
+} from '../models/api-model';
+import { getUniqueName, toPascalCase } from './naming';
+
+export interface NamingOptions {
+  /** Suffix of the names given to anonymous types, 'Dto' by default */
+  dtoSuffix?: string;
+}
+
+/**
+ * Append the DTO suffix to a type name unless it already has it
+ */
+export function toDtoName(name: string, suffix = 'Dto'): string {
+  return name.endsWith(suffix) ? name : `${name}${suffix}`;
+}
+
+function stripDtoSuffix(name: string, suffix: string): string {
+  return suffix && name.endsWith(suffix) ? name.slice(0, -suffix.length) : name;
+}
+
+/**
+ * Replace every anonymous object type of the model with a reference to a
+ * named declaration, so generators that need a name for each shape
+ * (classes, schemas) can emit them.
+ *
+ * Names are derived from where the type is used:
+ * - request bodies: `UsersCreateBodyDto`
+ * - whole-object queries, params and headers: `UsersFindAllQueryDto`
+ * - responses: `UsersFindOneResponseDto`
+ * - nested properties: `CreateUserAddressDto`
+ * - members of named unions: `ShapeCircleDto`
+ *
+ * @param model - The intermediate model
+ * @param naming - Naming conventions of the hoisted types
+ * @returns A new model whose types contain no anonymous object
+ */
+export function hoistAnonymousTypes(
+  model: ApiModel,
+  naming: NamingOptions = {},
+): ApiModel {
+  const suffix = naming.dtoSuffix ?? 'Dto';
+  const declarations = new Map<string, TypeDeclaration>();
+  model.types.forEach((declaration) =>
+    declarations.set(declaration.name, declaration),
+  );
+
+  const hoistProperties = (
+    properties: PropertyModel[],
+    parentName: string,
+  ): PropertyModel[] =>
+    properties.map((property) => ({
+      ...property,
+      type: hoist(
+        property.type,
+        toDtoName(
+          stripDtoSuffix(parentName, suffix) + toPascalCase(property.name),
+          suffix,
+        ),
+      ),
+    }));
+
+  const hoist = (type: TypeModel, name: string): TypeModel => {
+    switch (type.kind) {
+      case 'object': {
+        const declaration: TypeDeclaration = {
+          kind: 'object',
+          name: getUniqueName(
+            name,
+            (candidate) => declarations.has(candidate),
+            {
+              suffix,
+            },
+          ),
+          fileName: '',
+          properties: [],
+        };
+        declarations.set(declaration.name, declaration);
+        declaration.properties = hoistProperties(
+          type.properties,
+          declaration.name,
+        );
+        return { kind: 'reference', name: declaration.name };
+      }
+      case 'array':
+        return { ...type, elementType: hoist(type.elementType, name) };
+      case 'record':
+        return { ...type, valueType: hoist(type.valueType, name) };
+      case 'union':
+        return {
+          ...type,
+          // Members of a discriminated union are named by their discriminator
+          types: type.types.map((member, index) =>
+            hoist(
+              member,
+              toDtoName(
+                stripDtoSuffix(name, suffix) +
+                  (type.discriminator
+                    ? toPascalCase(String(type.discriminator.values[index]))
+                    : `Option${index + 1}`),
+                suffix,
+              ),
+            ),
+          ),
+        };
+      default:
+        return type;
+    }
+  };
+
+  model.types.forEach((declaration) => {
+    if (declaration.kind === 'object') {
+      declarations.set(declaration.name, {
+        ...declaration,
+        properties: hoistProperties(declaration.properties, declaration.name),
+      });
+    } else if (declaration.kind === 'alias') {
+      // The members of `Shape` are named `ShapeCircleDto`, ...
+      declarations.set(declaration.name, {
+        ...declaration,
+        type: hoist(declaration.type, toDtoName(declaration.name, suffix)),
+      });
+    }
+  });
+
+  const controllers = model.controllers.map((controller) => {
+    const controllerName = controller.name.replace(/Controller$/, '');
+    return {
+      ...controller,
+      routes: controller.routes.map((route) => {
+        const routeName = controllerName + toPascalCase(route.name);
+        return {
+          ...route,
+          parameters: route.parameters.map((parameter) => ({
+            ...parameter,
+            type:
+              parameter.key === undefined
+                ? hoist(
+                    parameter.type,
+                    `${routeName}${toPascalCase(parameter.source)}${suffix}`,
+                  )
+                : parameter.type,
+          })),
+          response: {
+            ...route.response,
+            type: hoist(route.response.type, `${routeName}Response${suffix}`),
+          },
+        };
+      }),
+    };
+  });
+
+  return {
+    ...model,
+    controllers,
+    types: [...declarations.values()].sort((a, b) =>
+      a.name.localeCompare(b.name),
+    ),
+  };
+}
@@ -0,0 +1,246 @@
+import {
+  ApiModel,
+  ControllerModel,
+  RouteModel,
+  TypeDeclaration,
+} from '../models/api-model';
+import {
+  getControllerBaseNames,
+  getRequestFields,
+  PAYLOAD_TYPE_OPTIONS,
+} from './client-generator';
+import { GENERATED_FILE_HEADER, GeneratedFile } from './generated-file';
+import { renderDocComment } from './imports';
+import { getRouteNames, toKebabCase, toPascalCase } from './naming';
+import { getControllerTags } from './openapi-generator';
+import { renderTypeDeclaration } from './ts-declarations';
+import {
+  collectReferences,
+  getDeclarationReferences,
+  renderTsType,
+} from './ts-type';
+import { hoistAnonymousTypes } from './type-hoisting';
+
+const OUTPUT_DIR = 'types';
+const SHARED_MODULE = 'shared';
+
+export const TYPES_GROUPINGS = ['controller', 'tag'] as const;
+
+export type TypesGrouping = (typeof TYPES_GROUPINGS)[number];
+
+export interface TypesOptions {
+  /** Put the types of each controller or of each tag in their own module */
+  groupBy?: TypesGrouping;
+}
+
+/**
+ * A controller with the distinct base name its route types are named after
+ */
+interface NamedController {
+  controller: ControllerModel;
+  baseName: string;
+}
+
+/**
+ * Controllers whose types are put in the same module
+ */
+interface TypesGroup {
+  /** Name of the module, without extension */
+  moduleName: string;
+  controllers: NamedController[];
+}
+
+/**
+ * Group the controllers by module, each controller being part of the group
+ * of its first tag when grouping by tag
+ */
+function getGroups(
+  controllers: ControllerModel[],
+  groupBy: TypesGrouping,
+): TypesGroup[] {
+  const sorted = [...controllers].sort((a, b) => a.name.localeCompare(b.name));
+  const baseNames = getControllerBaseNames(sorted);
+  const groups = new Map<string, NamedController[]>();
+  sorted.forEach((controller, index) => {
+    const baseName = baseNames[index];
+    const name =
+      groupBy === 'tag' ? getControllerTags(controller)[0] : baseName;
+    const moduleName = `${toKebabCase(name) || 'api'}.types`;
+    groups.set(moduleName, [
+      ...(groups.get(moduleName) ?? []),
+      { controller, baseName },
+    ]);
+  });
+  return [...groups]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([moduleName, controllers]) => ({ moduleName, controllers }));
+}
+
+/**
+ * Get the names of the declarations the parameters and responses of routes
+ * refer to
+ */
+function getRouteReferences(routes: RouteModel[]): Set<string> {
+  const references = new Set<string>();
+  routes.forEach((route) => {
+    route.parameters.forEach(({ type }) => collectReferences(type, references));
+    collectReferences(route.response.type, references);
+  });
+  return references;
+}
+
+/**
+ * Get the declarations the routes of a group use, directly or not
+ */
+function getUsedDeclarations(
+  group: TypesGroup,
+  declarations: Map<string, TypeDeclaration>,
+): Set<string> {
+  const used = new Set<string>();
+  const pending = [
+    ...getRouteReferences(
+      group.controllers.flatMap(({ controller }) => controller.routes),
+    ),
+  ];
+  while (pending.length > 0) {
+    const name = pending.pop()!;
+    const declaration = declarations.get(name);
+    if (!declaration || used.has(name)) continue;
+    used.add(name);
+    pending.push(...getDeclarationReferences(declaration));
+  }
+  return used;
+}
+
+/**
+ * Render the request and response types of a route,
+ * e.g. `UsersFindOneRequest` and `UsersFindOneResponse`
+ */
+function renderRouteTypes(
+  baseName: string,
+  routeName: string,
+  route: RouteModel,
+): string {
+  const name = `${baseName}${toPascalCase(routeName)}`;
+  const doc = renderDocComment(
+    `${route.httpMethod} ${route.fullPath.join(', ')}`,
+  );
+  const fields = getRequestFields(route);
+  const blocks: string[] = [];
+  if (fields.length > 0) {
+    blocks.push(
+      [
+        doc,
+        `export interface ${name}Request {`,
+        ...fields.map(
+          ({ name, type, optional }) =>
+            `  ${name}${optional ? '?' : ''}: ${type};`,
+        ),
+        '}',
+      ].join('\n'),
+    );
+  }
+  blocks.push(
+    `${doc}\nexport type ${name}Response = ${renderTsType(route.response.type, PAYLOAD_TYPE_OPTIONS)};`,
+  );
+  return blocks.join('\n\n');
+}
+
+/**
+ * Render a module of the output directory, importing from the shared module
+ */
+function renderModule(moduleName: string, blocks: string[], imports = '') {
+  const body = blocks.length > 0 ? blocks.join('\n\n') : 'export {};';
+  return {
+    path: `${OUTPUT_DIR}/${moduleName}.ts`,
+    content:
+      GENERATED_FILE_HEADER +
+      '\n' +
+      (imports ? imports + '\n\n' : '') +
+      body +
+      '\n',
+  };
+}
+
+/**
+ * Generate type-only modules of the request and response shapes of every
+ * route: interfaces and type aliases without runtime dependencies, one module
+ * per controller or per tag. They describe JSON, so dates are strings. Types used by several modules are declared in
+ * `types/shared.ts`.
+ */
+export function generateTypes(
+  model: ApiModel,
+  options: TypesOptions = {},
+): GeneratedFile[] {
+  const { controllers, types } = hoistAnonymousTypes(model);
+  const declarations = new Map(types.map((type) => [type.name, type]));
+  const groups = getGroups(controllers, options.groupBy ?? 'controller');
+
+  const usedByGroup = groups.map((group) =>
+    getUsedDeclarations(group, declarations),
+  );
+  const usage = new Map<string, number>();
+  usedByGroup.forEach((used) =>
+    used.forEach((name) => usage.set(name, (usage.get(name) ?? 0) + 1)),
+  );
+  const isShared = (name: string) => usage.get(name) !== 1;
+
+  const files = groups.map((group, index) => {
+    const local = types.filter(
+      ({ name }) => usedByGroup[index].has(name) && !isShared(name),
+    );
+    const routes = group.controllers.flatMap(
+      ({ controller }) => controller.routes,
+    );
+    const imported = [
+      ...new Set([
+        ...getRouteReferences(routes),
+        ...local.flatMap((declaration) => [
+          ...getDeclarationReferences(declaration),
+        ]),
+      ]),
+    ]
+      .filter(isShared)
+      .sort();
+    return renderModule(
+      group.moduleName,
+      [
+        ...local.map((declaration) =>
+          renderTypeDeclaration(declaration, PAYLOAD_TYPE_OPTIONS),
+        ),
+        ...group.controllers.flatMap(({ controller, baseName }) => {
+          const routeNames = getRouteNames(controller.routes);
+          return controller.routes.map((route, index) =>
+            renderRouteTypes(baseName, routeNames[index], route),
+          );
+        }),
+      ],
+      imported.length > 0
+        ? `import type { ${imported.join(', ')} } from './${SHARED_MODULE}';`
+        : '',
+    );
+  });
+
+  const shared = types.filter(({ name }) => isShared(name));
+  const moduleNames = groups.map(({ moduleName }) => moduleName);
+  if (shared.length > 0) {
+    files.unshift(
+      renderModule(
+        SHARED_MODULE,
+        shared.map((declaration) =>
+          renderTypeDeclaration(declaration, PAYLOAD_TYPE_OPTIONS),
+        ),
+      ),
+    );
+    moduleNames.unshift(SHARED_MODULE);
+  }
+  files.push(
+    renderModule(
+      'index',
+      moduleNames.length > 0
+        ? [moduleNames.map((name) => `export * from './${name}';`).join('\n')]
+        : [],
+    ),
+  );
+  return files;
+}
@@ -0,0 +1,264 @@
+import {
+  ApiModel,
+  PropertyModel,
+  TypeDeclaration,
+  TypeModel,
+} from '../models/api-model';
+import { GENERATED_FILE_HEADER, GeneratedFile } from './generated-file';
+import { renderDocComment } from './imports';
+import { renderTypeDeclaration } from './ts-declarations';
+import {
+  getDeclarationReferences,
+  renderLiteral,
+  renderValue,
+  stripNull,
+  toPropertyName,
+} from './ts-type';
+import { hoistAnonymousTypes } from './type-hoisting';
+
+const OUTPUT_FILE = 'zod/schemas.ts';
+
+/**
+ * Render a union of literals as z.enum when they are all strings
+ */
+function renderLiteralUnion(values: (string | number | boolean)[]): string {
+  if (values.every((value) => typeof value === 'string')) {
+    return `z.enum([${values.map(renderLiteral).join(', ')}])`;
+  }
+  return `z.union([${values.map((value) => `z.literal(${renderLiteral(value)})`).join(', ')}])`;
+}
+
+interface ZodTypeOptions {
+  /** Validate numbers as integers */
+  integer?: boolean;
+  /** Source of the regular expression strings must match */
+  pattern?: string;
+  /** Flags of the regular expression */
+  patternFlags?: string;
+}
+
+/**
+ * Render the Zod schema of a type.
+ * References to schemas not declared yet are wrapped in z.lazy.
+ */
+function renderZodType(
+  type: TypeModel,
+  declared: Set<string>,
+  options: ZodTypeOptions = {},
+): string {
+  switch (type.kind) {
+    case 'primitive':
+      switch (type.type) {
+        case 'string':
+          return options.pattern !== undefined
+            ? `z.string().regex(/${options.pattern}/${options.patternFlags ?? ''})`
+            : 'z.string()';
+        case 'number':
+          return options.integer ? 'z.number().int()' : 'z.number()';
+        case 'boolean':
+          return 'z.boolean()';
+        case 'bigint':
+          return 'z.bigint()';
+        case 'null':
+          return 'z.null()';
+        case 'undefined':
+          return 'z.undefined()';
+        case 'void':
+          return 'z.void()';
+        case 'any':
+          return 'z.any()';
+        case 'never':
+          return 'z.never()';
+        case 'object':
+          return 'z.record(z.string(), z.unknown())';
+      }
+      return 'z.unknown()';
+    case 'date':
+      return 'z.coerce.date()';
+    case 'literal':
+      return `z.literal(${renderLiteral(type.value)})`;
+    case 'array':
+      return `z.array(${renderZodType(type.elementType, declared, options)})`;
+    case 'record':
+      return `z.record(z.string(), ${renderZodType(type.valueType, declared)})`;
+    case 'reference':
+      return declared.has(type.name) ? type.name : `z.lazy(() => ${type.name})`;
+    case 'object':
+      return renderZodObject(type.properties, declared);
+    case 'union': {
+      const { type: nonNull, nullable } = stripNull(type);
+      if (nullable) {
+        return `${renderZodType(nonNull, declared, options)}.nullable()`;
+      }
+      if (type.types.every((member) => member.kind === 'literal')) {
+        return renderLiteralUnion(
+          type.types.map((member) =>
+            member.kind === 'literal' ? member.value : '',
+          ),
+        );
+      }
+      // z.discriminatedUnion takes object schemas, not lazy ones
+      if (
+        type.discriminator &&
+        type.types.every((member) =>
+          member.kind === 'reference'
+            ? declared.has(member.name)
+            : member.kind === 'object',
+        )
+      ) {
+        return `z.discriminatedUnion(${renderLiteral(type.discriminator.propertyName)}, [${type.types
+          .map((member) => renderZodType(member, declared))
+          .join(', ')}])`;
+      }
+      return `z.union([${type.types
+        .map((member) => renderZodType(member, declared, options))
+        .join(', ')}])`;
+    }
+  }
+}
+
+function renderZodProperty(
+  property: PropertyModel,
+  declared: Set<string>,
+): string {
+  const tags = property.tags ?? {};
+  let schema = renderZodType(property.type, declared, {
+    integer: 'integer' in tags || 'int' in tags,
+    pattern: property.pattern,
+    patternFlags: property.patternFlags,
+  });
+  if (property.description) {
+    schema += `.describe(${renderLiteral(property.description)})`;
+  }
+  if (property.default !== undefined) {
+    schema += `.default(${renderValue(property.default)})`;
+  } else if (property.optional) {
+    schema += '.optional()';
+  }
+  return schema;
+}
+
+function renderZodObject(
+  properties: PropertyModel[],
+  declared: Set<string>,
+  indent = '',
+): string {
+  if (properties.length === 0) return 'z.object({})';
+  const lines = properties.map((property) => {
+    const comment = property.description
+      ? renderDocComment(property.description, `${indent}  `) + '\n'
+      : '';
+    return `${comment}${indent}  ${toPropertyName(property.name)}: ${renderZodProperty(property, declared)},`;
+  });
+  return `z.object({\n${lines.join('\n')}\n${indent}})`;
+}
+
+function renderZodDeclaration(
+  declaration: TypeDeclaration,
+  declared: Set<string>,
+  recursive: Set<string>,
+): string {
+  const lines: string[] = [];
+  // The type of a recursive schema cannot be inferred, so it is declared
+  if (recursive.has(declaration.name)) {
+    lines.push(renderTypeDeclaration(declaration), '');
+  } else if (declaration.description) {
+    lines.push(renderDocComment(declaration.description));
+  }
+
+  let schema: string;
+  if (declaration.kind === 'enum') {
+    schema = renderLiteralUnion(
+      declaration.members.map((member) => member.value),
+    );
+  } else if (declaration.kind === 'alias') {
+    schema = renderZodType(declaration.type, declared);
+  } else {
+    schema = renderZodObject(declaration.properties, declared);
+  }
+  if (recursive.has(declaration.name)) {
+    lines.push(
+      `export const ${declaration.name}: z.ZodType<${declaration.name}, z.ZodTypeDef, unknown> = ${schema};`,
+    );
+  } else {
+    lines.push(
+      `export const ${declaration.name} = ${schema};`,
+      `export type ${declaration.name} = z.infer<typeof ${declaration.name}>;`,
+    );
+  }
+  declared.add(declaration.name);
+  return lines.join('\n');
+}
+
+/**
+ * Get the names of the declarations that refer to themselves,
+ * directly or through other declarations
+ */
+function findRecursiveDeclarations(types: TypeDeclaration[]): Set<string> {
+  const declarations = new Map(types.map((type) => [type.name, type]));
+  const recursive = new Set<string>();
+
+  types.forEach((declaration) => {
+    const visited = new Set<string>();
+    const pending = [...getDeclarationReferences(declaration)];
+    while (pending.length > 0) {
+      const name = pending.pop()!;
+      if (name === declaration.name) {
+        recursive.add(name);
+        return;
+      }
+      if (visited.has(name)) continue;
+      visited.add(name);
+      const reference = declarations.get(name);
+      if (reference) pending.push(...getDeclarationReferences(reference));
+    }
+  });
+  return recursive;
+}
+
+/**
+ * Order declarations so that schemas are declared before they are used,
+ * leaving only circular references to z.lazy
+ */
+function sortByDependencies(types: TypeDeclaration[]): TypeDeclaration[] {
+  const declarations = new Map(types.map((type) => [type.name, type]));
+  const visited = new Set<string>();
+  const sorted: TypeDeclaration[] = [];
+
+  const visit = (declaration: TypeDeclaration) => {
+    if (visited.has(declaration.name)) return;
+    visited.add(declaration.name);
+    getDeclarationReferences(declaration).forEach((name) => {
+      const reference = declarations.get(name);
+      if (reference) visit(reference);
+    });
+    sorted.push(declaration);
+  };
+  types.forEach(visit);
+  return sorted;
+}
+
+/**
+ * Generate a Zod schema and its inferred type for every request and
+ * response type
+ */
+export function generateZodSchemas(model: ApiModel): GeneratedFile[] {
+  const { types } = hoistAnonymousTypes(model);
+  const declared = new Set<string>();
+  const recursive = findRecursiveDeclarations(types);
+  const declarations = sortByDependencies(types).map((declaration) =>
+    renderZodDeclaration(declaration, declared, recursive),
+  );
+
+  return [
+    {
+      path: OUTPUT_FILE,
+      content:
+        GENERATED_FILE_HEADER +
+        '\n' +
+        "import { z } from 'zod';\n\n" +
+        declarations.join('\n\n') +
+        '\n',
+    },
+  ];
+}
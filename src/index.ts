@@ -1,8 +1,13 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
+import { Command, Option } from 'commander';
 import { version } from '../package.json';
+import { analyzeCommand } from './commands/analyze';
+import { checkCommand } from './commands/check';
 import { generateCommand } from './commands/generate';
+import { InvalidConfigError } from './config/config';
+import { OUTPUT_FORMATS } from './generators';
+import { TYPES_GROUPINGS } from './generators/types-generator';
 
 const program = new Command();
 
@@ -11,9 +16,83 @@ program
   .description('NestJS DTO 생성기')
   .version(version);
 
-program
-  .command('generate')
-  .description('Generate DTOs')
+/**
+ * Add the options shared by the commands that analyze the project
+ */
+function addAnalyzeOptions(command: Command) {
+  return command
+    .option(
+      '-c, --config <file>',
+      'path to the config file (default: nest-dto-generator.config.{ts,js,json})',
+    )
+    .option('-s, --src <path>', 'path to the tsconfig.json of the project')
+    .option(
+      '-p, --project <names...>',
+      'apps of the Nest monorepo to analyze (default: every application)',
+    )
+    .addOption(
+      new Option(
+        '--fail-on <severity>',
+        'exit with a non-zero code on diagnostics of at least this severity',
+      ).choices(['error', 'warning']),
+    )
+    .option(
+      '--cache [file]',
+      'save the analyses between runs (default file: node_modules/.cache/nest-dto-generator/analysis.json)',
+    )
+    .option('--profile', 'print the time spent in each step');
+}
+
+/**
+ * Add the options shared by the commands that generate files
+ */
+function addGenerateOptions(command: Command) {
+  return addAnalyzeOptions(command)
+    .option('-o, --out <dir>', 'output directory of the generated files')
+    .addOption(
+      new Option(
+        '-f, --format <formats...>',
+        'output formats (default: class-validator)',
+      ).choices(OUTPUT_FORMATS),
+    )
+    .option('--swagger', 'decorate DTO properties with @ApiProperty')
+    .option(
+      '--openapi-file <file>',
+      'file name of the OpenAPI document (.json, .yaml or .yml, default: openapi.json)',
+    )
+    .addOption(
+      new Option(
+        '--types-group-by <grouping>',
+        'group the modules of the types format (default: controller)',
+      ).choices(TYPES_GROUPINGS),
+    );
+}
+
+addGenerateOptions(program.command('generate').description('Generate DTOs'))
+  .option('-w, --watch', 'generate again whenever the source files change')
   .action(generateCommand);
 
-program.parse();
+addGenerateOptions(
+  program
+    .command('check')
+    .description(
+      'Check that the generated files are up to date, printing a diff otherwise',
+    ),
+).action(checkCommand);
+
+addAnalyzeOptions(
+  program
+    .command('analyze')
+    .description('Print the routes of every controller found in the project'),
+)
+  .option(
+    '--json',
+    'print the controllers, routes, types and diagnostics as JSON',
+  )
+  .action(analyzeCommand);
+
+program.parseAsync().catch((error: unknown) => {
+  // Invalid settings are the user's to fix, a stack trace would not help
+  console.error(error instanceof InvalidConfigError ? error.message : error);
+  process.exitCode = 1;
+});
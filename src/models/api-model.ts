@@ -0,0 +1,166 @@
+/**
+ * Intermediate model of the analyzed NestJS application.
+ * Analyzers produce it from the TypeScript program and generators consume it,
+ * so it must not hold references to TypeScript AST nodes.
+ */
+export interface ApiModel {
+  controllers: ControllerModel[];
+  /** Named types referenced by the routes, sorted by name */
+  types: TypeDeclaration[];
+}
+
+export interface ControllerModel {
+  /** Name of the controller class */
+  name: string;
+  /** Absolute path of the file declaring the controller */
+  fileName: string;
+  /** 1-based line of the class declaration */
+  line?: number;
+  /** Paths given to the Controller decorator */
+  path: string[];
+  /** Hosts given to the `host` option of the Controller decorator */
+  host?: string[];
+  /** Tags given by `@ApiTags()` of @nestjs/swagger */
+  tags?: string[];
+  routes: RouteModel[];
+}
+
+export type HttpMethod =
+  | 'GET'
+  | 'POST'
+  | 'PUT'
+  | 'PATCH'
+  | 'DELETE'
+  | 'OPTIONS'
+  | 'HEAD'
+  | 'ALL';
+
+export interface RouteModel {
+  /** Name of the handler method */
+  name: string;
+  /** 1-based line of the handler method in the file of the controller */
+  line?: number;
+  httpMethod: HttpMethod;
+  /** Paths given to the route decorator */
+  path: string[];
+  /**
+   * Full URL paths of the route, e.g. '/api/v2/users/:id', composed of the
+   * global prefix, version, RouterModule path, controller and route paths
+   */
+  fullPath: string[];
+  parameters: ParamModel[];
+  response: ResponseModel;
+}
+
+export type ParamSource = 'body' | 'query' | 'param' | 'headers';
+
+export interface ParamModel {
+  /** Name of the handler parameter */
+  name: string;
+  source: ParamSource;
+  /** Property key given to the decorator, e.g. 'id' for `@Param('id')` */
+  key?: string;
+  type: TypeModel;
+  optional: boolean;
+}
+
+export interface ResponseModel {
+  /** Type of the response body, with Promise and Observable unwrapped */
+  type: TypeModel;
+  /** Whether the response body is an array */
+  isArray: boolean;
+  /**
+   * Whether the (element) type is a named class, interface or type alias
+   * rather than an anonymous structural type
+   */
+  named: boolean;
+}
+
+export type PrimitiveType =
+  | 'string'
+  | 'number'
+  | 'boolean'
+  | 'bigint'
+  | 'null'
+  | 'undefined'
+  | 'void'
+  | 'any'
+  | 'unknown'
+  | 'never'
+  | 'object';
+
+/**
+ * Serializable representation of a TypeScript type.
+ * Named classes, interfaces, type aliases and enums are stored once in
+ * `ApiModel.types` and referenced by name.
+ */
+export type TypeModel =
+  | { kind: 'primitive'; type: PrimitiveType }
+  | { kind: 'date' }
+  | { kind: 'literal'; value: string | number | boolean }
+  | { kind: 'array'; elementType: TypeModel }
+  | { kind: 'record'; valueType: TypeModel }
+  | { kind: 'reference'; name: string }
+  | { kind: 'object'; properties: PropertyModel[] }
+  | { kind: 'union'; types: TypeModel[]; discriminator?: Discriminator };
+
+/**
+ * Property telling the object types of a union apart,
+ * e.g. `kind` of `{ kind: 'card'; cardNo: string } | { kind: 'bank'; iban: string }`
+ */
+export interface Discriminator {
+  propertyName: string;
+  /** Value of the property for each type of the union, in order */
+  values: (string | number)[];
+}
+
+export interface PropertyModel {
+  name: string;
+  type: TypeModel;
+  optional: boolean;
+  /** JSDoc comment of the property */
+  description?: string;
+  /** JSDoc tags of the property, e.g. { example: 'john' } for `@example john` */
+  tags?: Record<string, string>;
+  /** Literal value the property is initialized with */
+  default?: unknown;
+  /** Source of the regular expression of `@Matches()` */
+  pattern?: string;
+  /** Flags of the regular expression of `@Matches()`, e.g. 'i' */
+  patternFlags?: string;
+}
+
+export interface EnumMemberModel {
+  name: string;
+  value: string | number;
+}
+
+export type TypeDeclaration =
+  | {
+      kind: 'object';
+      name: string;
+      fileName: string;
+      /** 1-based line of the declaration */
+      line?: number;
+      /** JSDoc comment of the declaration */
+      description?: string;
+      properties: PropertyModel[];
+    }
+  | {
+      kind: 'enum';
+      name: string;
+      fileName: string;
+      line?: number;
+      description?: string;
+      members: EnumMemberModel[];
+    }
+  | {
+      /** Named union of object types, e.g. `type Shape = Circle | Square` */
+      kind: 'alias';
+      name: string;
+      fileName: string;
+      line?: number;
+      description?: string;
+      /** Type of the alias, without null and undefined */
+      type: TypeModel;
+    };
@@ -0,0 +1,90 @@
+import { mkdir, readdir, readFile, writeFile } from 'fs/promises';
+import { dirname, join, posix } from 'path';
+import { GeneratedFile } from '../generators';
+
+/**
+ * Write the generated files under the output directory,
+ * creating intermediate directories as needed.
+ * Files whose content did not change are left untouched, so that tools
+ * watching the output only see the files that changed.
+ * @returns The absolute paths of the written files
+ */
+export async function writeGeneratedFiles(
+  outDir: string,
+  files: GeneratedFile[],
+): Promise<string[]> {
+  const written: string[] = [];
+  for (const file of files) {
+    const filePath = join(outDir, file.path);
+    const current = await readFile(filePath, 'utf-8').catch(() => undefined);
+    if (current === file.content) continue;
+
+    await mkdir(dirname(filePath), { recursive: true });
+    await writeFile(filePath, file.content, 'utf-8');
+    written.push(filePath);
+  }
+  return written;
+}
+
+/**
+ * A generated file whose content differs from the file in the output
+ * directory, or a file of the output directory that is not generated
+ */
+export interface StaleFile {
+  /** Path relative to the output directory */
+  path: string;
+  /** Content of the file in the output directory, undefined if missing */
+  current?: string;
+  /** Content of the generated file, undefined if the file is not generated */
+  expected?: string;
+}
+
+/**
+ * List the files under a directory, with paths relative to it
+ */
+async function listFiles(dir: string, subDir = ''): Promise<string[]> {
+  const entries = await readdir(join(dir, subDir), {
+    withFileTypes: true,
+  }).catch(() => []);
+  const paths: string[] = [];
+  for (const entry of entries) {
+    const path = posix.join(subDir, entry.name);
+    if (entry.isDirectory()) {
+      paths.push(...(await listFiles(dir, path)));
+    } else {
+      paths.push(path);
+    }
+  }
+  return paths;
+}
+
+/**
+ * Compare the generated files with the files in the output directory
+ * @returns The generated files that are missing or differ, and the files of
+ * the output directory that are not generated, e.g. those of removed DTOs
+ */
+export async function findStaleFiles(
+  outDir: string,
+  files: GeneratedFile[],
+): Promise<StaleFile[]> {
+  const stale: StaleFile[] = [];
+  for (const file of files) {
+    const current = await readFile(join(outDir, file.path), 'utf-8').catch(
+      () => undefined,
+    );
+    if (current !== file.content) {
+      stale.push({ path: file.path, current, expected: file.content });
+    }
+  }
+
+  const generated = new Set(files.map(({ path }) => path));
+  for (const path of await listFiles(outDir)) {
+    if (!generated.has(path)) {
+      stale.push({
+        path,
+        current: await readFile(join(outDir, path), 'utf-8'),
+      });
+    }
+  }
+  return stale;
+}
@@ -0,0 +1,102 @@
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  getCacheKey,
+  loadAnalysisCache,
+  saveAnalysisCache,
+} from '../../src/analyzers/analysis-cache';
+import { AnalysisCache, FileAnalysis } from '../../src/analyzers/api-analyzer';
+
+describe('analysis-cache', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'test-'));
+  });
+
+  afterEach(async () => {
+    if (tempDir) {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  const createAnalysis = (fileName: string): FileAnalysis => ({
+    controllers: [
+      {
+        routes: [{ httpMethod: 'GET', fullPath: ['/health'] }],
+        model: {
+          name: 'HealthController',
+          fileName,
+          line: 3,
+          path: ['health'],
+          routes: [],
+        },
+      },
+    ],
+    declarations: [],
+    declarationKeys: {},
+    diagnostics: [],
+    sources: { [fileName]: 'hash' },
+    compilerOptions: 'hash',
+  });
+
+  it('should load the analyses saved with the same key', async () => {
+    const controllerFile = join(tempDir, 'health.controller.ts');
+    await writeFile(controllerFile, '');
+    const removedFile = join(tempDir, 'removed.controller.ts');
+    const cacheFile = join(tempDir, '.cache', 'analysis.json');
+    const key = getCacheKey({});
+    const cache: AnalysisCache = new Map([
+      [controllerFile, createAnalysis(controllerFile)],
+      [removedFile, createAnalysis(removedFile)],
+    ]);
+
+    await saveAnalysisCache(cacheFile, key, cache);
+    const loaded = await loadAnalysisCache(cacheFile, key);
+
+    expect([...loaded]).toEqual([
+      [controllerFile, createAnalysis(controllerFile)],
+    ]);
+  });
+
+  it('should discard analyses made with other options', async () => {
+    const cacheFile = join(tempDir, 'analysis.json');
+    const controllerFile = join(tempDir, 'health.controller.ts');
+    await writeFile(controllerFile, '');
+    await saveAnalysisCache(
+      cacheFile,
+      getCacheKey({}),
+      new Map([[controllerFile, createAnalysis(controllerFile)]]),
+    );
+
+    const key = getCacheKey({ decorators: { Resource: 'Controller' } });
+    expect(key).not.toBe(getCacheKey({}));
+    expect((await loadAnalysisCache(cacheFile, key)).size).toBe(0);
+    expect(JSON.parse(await readFile(cacheFile, 'utf-8'))).toHaveProperty(
+      'key',
+      getCacheKey({}),
+    );
+  });
+
+  it('should change the key with the lockfile', async () => {
+    const projectDir = join(tempDir, 'apps', 'api');
+    await mkdir(projectDir, { recursive: true });
+    await writeFile(join(tempDir, 'pnpm-lock.yaml'), 'lockfileVersion: 9.0');
+    const key = getCacheKey({}, projectDir);
+
+    await writeFile(
+      join(tempDir, 'pnpm-lock.yaml'),
+      'lockfileVersion: 9.0\nimporters: {}',
+    );
+    expect(getCacheKey({}, projectDir)).not.toBe(key);
+  });
+
+  it('should start from an empty cache when the file is missing or invalid', async () => {
+    const cacheFile = join(tempDir, 'analysis.json');
+    expect((await loadAnalysisCache(cacheFile, getCacheKey({}))).size).toBe(0);
+
+    await writeFile(cacheFile, '{ invalid');
+    expect((await loadAnalysisCache(cacheFile, getCacheKey({}))).size).toBe(0);
+  });
+});
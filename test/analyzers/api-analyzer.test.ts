@@ -0,0 +1,447 @@
+import { mkdtemp, writeFile, mkdir, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import ts from 'typescript';
+import {
+  AnalysisCache,
+  analyzeProgram,
+  FileAnalysis,
+} from '../../src/analyzers/api-analyzer';
+import { getProgram, watchProgram } from '../../src/analyzers/src-resolver';
+import { Diagnostic } from '../../src/diagnostics/diagnostics';
+import { Profile } from '../../src/diagnostics/profile';
+
+describe('api-analyzer', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'test-'));
+  });
+
+  afterEach(async () => {
+    if (tempDir) {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should analyze again only the files whose imports changed', async () => {
+    const srcDir = join(tempDir, 'src');
+    await mkdir(srcDir);
+    const files: Record<string, string> = {
+      'user.dto.ts': `
+        export class UserDto {
+          name!: string;
+        }
+      `,
+      'users.controller.ts': `
+        import { Controller, Get } from '@nestjs/common';
+        import { UserDto } from './user.dto';
+
+        @Controller('users')
+        export class UsersController {
+          @Get()
+          findAll(): UserDto {
+            return new UserDto();
+          }
+        }
+      `,
+      'health.controller.ts': `
+        import { Controller, Get } from '@nestjs/common';
+
+        @Controller('health')
+        export class HealthController {
+          @Get()
+          check(): string {
+            return 'ok';
+          }
+        }
+      `,
+    };
+    for (const [name, content] of Object.entries(files)) {
+      await writeFile(join(srcDir, name), content);
+    }
+    const tsconfigPath = join(tempDir, 'tsconfig.json');
+    await writeFile(
+      tsconfigPath,
+      JSON.stringify({
+        compilerOptions: {
+          experimentalDecorators: true,
+          types: [],
+          lib: [],
+        },
+      }),
+    );
+
+    const programs: ts.Program[] = [];
+    let onProgram = () => {};
+    const watcher = watchProgram(tsconfigPath, (program) => {
+      programs.push(program);
+      onProgram();
+    });
+    try {
+      const cache: AnalysisCache = new Map();
+      const first = analyzeProgram(programs[0], { cache });
+      const users = cache.get(join(srcDir, 'users.controller.ts'));
+      const health = cache.get(join(srcDir, 'health.controller.ts'));
+      expect(first.controllers.map(({ name }) => name)).toEqual([
+        'HealthController',
+        'UsersController',
+      ]);
+
+      const updated = new Promise<void>((resolve) => (onProgram = resolve));
+      await writeFile(
+        join(srcDir, 'user.dto.ts'),
+        'export class UserDto { name!: string; age!: number; }',
+      );
+      await updated;
+      const second = analyzeProgram(programs[1], { cache });
+
+      expect(cache.get(join(srcDir, 'health.controller.ts'))).toBe(health);
+      expect(cache.get(join(srcDir, 'users.controller.ts'))).not.toBe(users);
+      expect(second.controllers).toEqual(first.controllers);
+      expect(second.types).toMatchObject([
+        {
+          name: 'UserDto',
+          properties: [{ name: 'name' }, { name: 'age' }],
+        },
+      ]);
+    } finally {
+      watcher.close();
+    }
+  });
+
+  it('should only analyze the changed controller files of a new program', async () => {
+    const srcDir = join(tempDir, 'src');
+    await mkdir(srcDir);
+    const files: Record<string, string> = {
+      'user.dto.ts': 'export class UserDto { name!: string; }',
+      'legacy.d.ts': 'export declare class LegacyController {}',
+      'users.controller.ts': `
+        import { Controller, Get } from '@nestjs/common';
+        import { UserDto } from './user.dto';
+
+        @Controller('users')
+        export class UsersController {
+          @Get()
+          findAll(): UserDto {
+            return new UserDto();
+          }
+        }
+      `,
+      'health.controller.ts': `
+        import { Controller, Get } from '@nestjs/common';
+
+        @Controller('health')
+        export class HealthController {
+          @Get()
+          check(): string {
+            return 'ok';
+          }
+        }
+      `,
+    };
+    for (const [name, content] of Object.entries(files)) {
+      await writeFile(join(srcDir, name), content);
+    }
+    const tsconfigPath = join(tempDir, 'tsconfig.json');
+    await writeFile(
+      tsconfigPath,
+      JSON.stringify({
+        compilerOptions: { experimentalDecorators: true, types: [], lib: [] },
+      }),
+    );
+
+    const cache: AnalysisCache = new Map();
+    const firstProfile: Profile = new Map();
+    const first = analyzeProgram(getProgram(tsconfigPath), {
+      cache,
+      profile: firstProfile,
+    });
+    expect(firstProfile.get('analyze files')?.count).toBe(2);
+    expect([...cache.keys()].sort()).toEqual([
+      join(srcDir, 'health.controller.ts'),
+      join(srcDir, 'users.controller.ts'),
+    ]);
+
+    // Saved analyses are reused as well
+    const saved: AnalysisCache = new Map(
+      Object.entries(
+        JSON.parse(JSON.stringify(Object.fromEntries(cache))) as Record<
+          string,
+          FileAnalysis
+        >,
+      ),
+    );
+    await writeFile(
+      join(srcDir, 'user.dto.ts'),
+      'export class UserDto { name!: string; age!: number; }',
+    );
+    const secondProfile: Profile = new Map();
+    const second = analyzeProgram(getProgram(tsconfigPath), {
+      cache: saved,
+      profile: secondProfile,
+    });
+
+    expect(secondProfile.get('analyze files')?.count).toBe(1);
+    expect(secondProfile.get('reuse files')?.count).toBe(1);
+    expect(second.controllers).toEqual(first.controllers);
+    expect(second.types).toMatchObject([
+      { name: 'UserDto', properties: [{ name: 'name' }, { name: 'age' }] },
+    ]);
+  });
+
+  it('should analyze again when the compiler options or declaration files change', async () => {
+    const files: Record<string, string> = {
+      'libs/dto/dist/index.d.ts':
+        'export declare class UserDto { name: string | null; }',
+      'src/users.controller.ts': `
+        import { Controller, Get } from '@nestjs/common';
+        import { UserDto } from '../libs/dto/dist';
+
+        @Controller('users')
+        export class UsersController {
+          @Get()
+          findOne(): UserDto {
+            throw new Error();
+          }
+        }
+      `,
+    };
+    for (const [name, content] of Object.entries(files)) {
+      await mkdir(join(tempDir, name, '..'), { recursive: true });
+      await writeFile(join(tempDir, name), content);
+    }
+    const tsconfigPath = join(tempDir, 'tsconfig.json');
+    const writeTsconfig = (strictNullChecks: boolean) =>
+      writeFile(
+        tsconfigPath,
+        JSON.stringify({
+          compilerOptions: {
+            experimentalDecorators: true,
+            strictNullChecks,
+            types: [],
+            lib: [],
+          },
+          include: ['src'],
+        }),
+      );
+    const analyze = (cache: AnalysisCache) => {
+      const profile: Profile = new Map();
+      const model = analyzeProgram(getProgram(tsconfigPath), {
+        cache,
+        profile,
+      });
+      return { model, reused: profile.get('reuse files')?.count ?? 0 };
+    };
+
+    const cache: AnalysisCache = new Map();
+    await writeTsconfig(false);
+    expect(analyze(cache).reused).toBe(0);
+    expect(analyze(cache).reused).toBe(1);
+
+    await writeTsconfig(true);
+    const strict = analyze(cache);
+    expect(strict.reused).toBe(0);
+    expect(strict.model.types).toMatchObject([
+      { properties: [{ name: 'name', type: { kind: 'union' } }] },
+    ]);
+
+    await writeFile(
+      join(tempDir, 'libs/dto/dist/index.d.ts'),
+      'export declare class UserDto { name: string | null; age: number; }',
+    );
+    const updated = analyze(cache);
+    expect(updated.reused).toBe(0);
+    expect(updated.model.types).toMatchObject([
+      { name: 'UserDto', properties: [{ name: 'name' }, { name: 'age' }] },
+    ]);
+  });
+
+  it('should tell apart the types of different files having the same name', async () => {
+    const files: Record<string, string> = {
+      'users/user.dto.ts':
+        'export class UserDto { id!: number; name!: string; }',
+      'admins/user.dto.ts':
+        'export class UserDto { uuid!: string; admin!: boolean; }',
+      'users/users.controller.ts': `
+        import { Controller, Get } from '@nestjs/common';
+        import { UserDto } from './user.dto';
+
+        @Controller('users')
+        export class UsersController {
+          @Get()
+          list(): UserDto {
+            return new UserDto();
+          }
+        }
+      `,
+      'admins/admins.controller.ts': `
+        import { Controller, Get } from '@nestjs/common';
+        import { UserDto } from './user.dto';
+
+        @Controller('admins')
+        export class AdminsController {
+          @Get()
+          list(): UserDto {
+            return new UserDto();
+          }
+        }
+      `,
+    };
+    for (const [name, content] of Object.entries(files)) {
+      await mkdir(join(tempDir, 'src', name, '..'), { recursive: true });
+      await writeFile(join(tempDir, 'src', name), content);
+    }
+    const tsconfigPath = join(tempDir, 'tsconfig.json');
+    await writeFile(
+      tsconfigPath,
+      JSON.stringify({
+        compilerOptions: { experimentalDecorators: true, types: [], lib: [] },
+      }),
+    );
+
+    const diagnostics: Diagnostic[] = [];
+    const model = analyzeProgram(getProgram(tsconfigPath), { diagnostics });
+
+    const responses = model.controllers.flatMap(({ name, routes }) =>
+      routes.map((route) => [`${name}.${route.name}`, route.response.type]),
+    );
+    expect(responses).toEqual([
+      ['AdminsController.list', { kind: 'reference', name: 'UserDto' }],
+      ['UsersController.list', { kind: 'reference', name: 'User2Dto' }],
+    ]);
+    expect(model.types).toMatchObject([
+      {
+        name: 'User2Dto',
+        fileName: join(tempDir, 'src/users/user.dto.ts'),
+        properties: [{ name: 'id' }, { name: 'name' }],
+      },
+      {
+        name: 'UserDto',
+        fileName: join(tempDir, 'src/admins/user.dto.ts'),
+        properties: [{ name: 'uuid' }, { name: 'admin' }],
+      },
+    ]);
+    expect(diagnostics).toMatchObject([
+      {
+        code: 'duplicate-type-name',
+        fileName: join(tempDir, 'src/users/user.dto.ts'),
+        message:
+          'Another type is named UserDto; this one is generated as User2Dto',
+      },
+    ]);
+  });
+
+  it('should substitute the type arguments of base controllers', async () => {
+    const srcDir = join(tempDir, 'src');
+    await mkdir(srcDir);
+    await writeFile(
+      join(srcDir, 'users.controller.ts'),
+      `
+        import { Body, Controller, Get, Param, Post } from '@nestjs/common';
+
+        export class UserEntity {
+          name!: string;
+        }
+        export class CreateUserDto {
+          name!: string;
+          password!: string;
+        }
+        export class TagEntity {
+          label!: string;
+        }
+
+        export abstract class BaseCrudController<T, C> {
+          @Get(':id')
+          findOne(@Param('id') id: string): T {
+            throw new Error();
+          }
+
+          @Post()
+          create(@Body() body: C): T {
+            throw new Error();
+          }
+
+          @Get()
+          findAll(): T[] {
+            return [];
+          }
+        }
+
+        @Controller('users')
+        export class UsersController extends BaseCrudController<
+          UserEntity,
+          CreateUserDto
+        > {
+          @Post('register')
+          create(@Body() body: CreateUserDto): UserEntity {
+            throw new Error();
+          }
+
+          findAll(): UserEntity[] {
+            return [];
+          }
+        }
+
+        function createCrudController<T>(entity: new () => T, path: string) {
+          @Controller(path)
+          class CrudController {
+            @Get(':id')
+            findOne(): T {
+              throw new Error();
+            }
+          }
+          return CrudController;
+        }
+
+        export const TagsController = createCrudController(TagEntity, 'tags');
+      `,
+    );
+    const tsconfigPath = join(tempDir, 'tsconfig.json');
+    await writeFile(
+      tsconfigPath,
+      JSON.stringify({
+        compilerOptions: { experimentalDecorators: true, types: [], lib: [] },
+      }),
+    );
+
+    const model = analyzeProgram(getProgram(tsconfigPath));
+
+    expect(model.controllers).toMatchObject([
+      {
+        name: 'UsersController',
+        routes: [
+          {
+            name: 'create',
+            httpMethod: 'POST',
+            fullPath: ['/users/register'],
+            parameters: [
+              {
+                source: 'body',
+                type: { kind: 'reference', name: 'CreateUserDto' },
+              },
+            ],
+            response: { type: { kind: 'reference', name: 'UserEntity' } },
+          },
+          {
+            name: 'findOne',
+            fullPath: ['/users/:id'],
+            parameters: [{ source: 'param', key: 'id' }],
+            response: { type: { kind: 'reference', name: 'UserEntity' } },
+          },
+        ],
+      },
+      {
+        name: 'TagsController',
+        routes: [
+          {
+            name: 'findOne',
+            fullPath: ['/tags/:id'],
+            response: { type: { kind: 'reference', name: 'TagEntity' } },
+          },
+        ],
+      },
+    ]);
+    expect(model.controllers[0].routes).toHaveLength(2);
+  });
+});
@@ -0,0 +1,283 @@
+import { mkdtemp, writeFile, mkdir, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  getProgram,
+  extractClasses,
+  filterControllerClasses,
+} from '../../src/analyzers/src-resolver';
+import { extractRoutes } from '../../src/analyzers/route-resolver';
+import {
+  composeFullPaths,
+  resolveAppRouting,
+} from '../../src/analyzers/app-resolver';
+
+describe('app-resolver', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'test-'));
+  });
+
+  afterEach(async () => {
+    if (tempDir) {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  const createProgram = async (files: Record<string, string>) => {
+    const tsconfigPath = join(tempDir, 'tsconfig.json');
+    const srcDir = join(tempDir, 'src');
+    await mkdir(srcDir);
+
+    for (const [name, content] of Object.entries(files)) {
+      await writeFile(join(srcDir, name), content);
+    }
+
+    await writeFile(
+      tsconfigPath,
+      JSON.stringify(
+        {
+          compilerOptions: {
+            target: 'es2016',
+            module: 'commonjs',
+            experimentalDecorators: true,
+            rootDir: tempDir,
+            skipLibCheck: true,
+            noResolve: true,
+            types: [],
+            lib: [],
+          },
+        },
+        null,
+        2,
+      ),
+    );
+
+    return getProgram(tsconfigPath);
+  };
+
+  /**
+   * Get the full paths of every route, keyed by `Controller.handler`
+   */
+  const getFullPaths = async (files: Record<string, string>) => {
+    const program = await createProgram(files);
+    const routing = resolveAppRouting(program);
+    const controllers = filterControllerClasses(
+      extractClasses(program),
+      program,
+    );
+    return Object.fromEntries(
+      controllers.flatMap((controller) =>
+        extractRoutes(
+          controller.class,
+          controller.path,
+          program,
+          undefined,
+          undefined,
+          controller.substitutions,
+        ).map((route) => [
+          `${controller.name}.${route.name}`,
+          composeFullPaths(routing, controller, route),
+        ]),
+      ),
+    );
+  };
+
+  const controllers = `
+    import { Controller, Get, Version, VERSION_NEUTRAL } from '@nestjs/common';
+
+    @Controller({ path: 'users', version: '1', host: 'api.example.com' })
+    export class UsersController {
+      @Get()
+      findAll() {}
+
+      @Version(['2', '3'])
+      @Get(':id')
+      findOne() {}
+    }
+
+    @Controller('health')
+    export class HealthController {
+      @Version(VERSION_NEUTRAL)
+      @Get()
+      check() {}
+    }
+
+    @Controller('reports')
+    export class ReportsController {
+      @Get()
+      findAll() {}
+    }
+  `;
+
+  it('should keep the controller and route paths without app routing', async () => {
+    const fullPaths = await getFullPaths({
+      'users.controller.ts': controllers,
+    });
+
+    expect(fullPaths).toEqual({
+      'UsersController.findAll': ['/users'],
+      'UsersController.findOne': ['/users/:id'],
+      'HealthController.check': ['/health'],
+      'ReportsController.findAll': ['/reports'],
+    });
+  });
+
+  it('should compose the global prefix, versions and RouterModule paths', async () => {
+    const fullPaths = await getFullPaths({
+      'users.controller.ts': controllers,
+      'main.ts': `
+        import { NestFactory } from '@nestjs/core';
+        import { RequestMethod, VersioningType } from '@nestjs/common';
+        import { AppModule } from './app.module';
+
+        const API_PREFIX = 'api';
+
+        async function bootstrap() {
+          const app = await NestFactory.create(AppModule);
+          app.setGlobalPrefix(API_PREFIX, {
+            exclude: [{ path: 'health', method: RequestMethod.GET }],
+          });
+          app.enableVersioning({
+            type: VersioningType.URI,
+            defaultVersion: '0',
+          });
+          await app.listen(3000);
+        }
+        bootstrap();
+      `,
+      'app.module.ts': `
+        import { Module } from '@nestjs/common';
+        import { RouterModule, Routes } from '@nestjs/core';
+        import { HealthController, ReportsController } from './users.controller';
+
+        @Module({ controllers: [ReportsController] })
+        export class ReportsModule {}
+
+        @Module({ controllers: [HealthController] })
+        export class HealthModule {}
+
+        @Module({})
+        export class AdminModule {}
+
+        const routes: Routes = [
+          { path: 'admin', module: AdminModule, children: [ReportsModule] },
+        ];
+
+        @Module({
+          imports: [AdminModule, ReportsModule, RouterModule.register(routes)],
+        })
+        export class AppModule {}
+      `,
+    });
+
+    expect(fullPaths).toEqual({
+      'UsersController.findAll': ['/api/v1/users'],
+      'UsersController.findOne': ['/api/v2/users/:id', '/api/v3/users/:id'],
+      'HealthController.check': ['/health'],
+      'ReportsController.findAll': ['/api/v0/admin/reports'],
+    });
+  });
+
+  it('should compose the RouterModule paths of controllers made by factories', async () => {
+    const fullPaths = await getFullPaths({
+      'users.controller.ts': `
+        import { Controller, Get } from '@nestjs/common';
+
+        const createCrudController = (path: string) => {
+          @Controller(path)
+          class CrudController {
+            @Get(':id')
+            findOne() {}
+          }
+          return CrudController;
+        };
+
+        export const UsersController = createCrudController('users');
+      `,
+      'app.module.ts': `
+        import { Module } from '@nestjs/common';
+        import { RouterModule } from '@nestjs/core';
+        import { UsersController } from './users.controller';
+
+        @Module({ controllers: [UsersController] })
+        export class UsersModule {}
+
+        @Module({
+          imports: [
+            UsersModule,
+            RouterModule.register([{ path: 'admin', module: UsersModule }]),
+          ],
+        })
+        export class AppModule {}
+      `,
+    });
+
+    expect(fullPaths).toEqual({
+      'UsersController.findOne': ['/admin/users/:id'],
+    });
+  });
+
+  it('should only follow the Module and RouterModule of NestJS', async () => {
+    const fullPaths = await getFullPaths({
+      'users.controller.ts': controllers,
+      'app.module.ts': `
+        import * as common from '@nestjs/common';
+        import { RouterModule as NestRouterModule } from '@nestjs/core';
+        import { HealthController, UsersController } from './users.controller';
+
+        const Module = (metadata: unknown): ClassDecorator => () => {};
+        const RouterModule = { register: (routes: unknown) => routes };
+
+        @common.Module({ controllers: [UsersController] })
+        export class UsersModule {}
+
+        @Module({ controllers: [HealthController] })
+        export class HealthModule {}
+
+        @common.Module({
+          imports: [
+            NestRouterModule.register([{ path: 'admin', module: UsersModule }]),
+            RouterModule.register([{ path: 'status', module: UsersModule }]),
+            NestRouterModule.register([{ path: 'ops', module: HealthModule }]),
+          ],
+        })
+        export class AppModule {}
+      `,
+    });
+
+    expect(fullPaths).toMatchObject({
+      'UsersController.findAll': ['/admin/users'],
+      'HealthController.check': ['/health'],
+    });
+  });
+
+  it('should not add versions to the path unless versioning by URI', async () => {
+    const fullPaths = await getFullPaths({
+      'users.controller.ts': controllers,
+      'main.ts': `
+        app.setGlobalPrefix('api/');
+        app.enableVersioning({ type: VersioningType.HEADER, header: 'X-Version' });
+      `,
+    });
+
+    expect(fullPaths).toMatchObject({
+      'UsersController.findOne': ['/api/users/:id'],
+      'HealthController.check': ['/api/health'],
+    });
+  });
+
+  it('should read the host option of controllers', async () => {
+    const program = await createProgram({
+      'users.controller.ts': controllers,
+    });
+    const [users] = filterControllerClasses(extractClasses(program), program);
+
+    expect(users).toMatchObject({
+      path: ['users'],
+      version: ['1'],
+      host: ['api.example.com'],
+    });
+  });
+});
@@ -0,0 +1,227 @@
+import { mkdtemp, writeFile, mkdir, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  getProgram,
+  extractClasses,
+  filterControllerClasses,
+} from '../../src/analyzers/src-resolver';
+import { extractRoutes } from '../../src/analyzers/route-resolver';
+import { extractParameters } from '../../src/analyzers/param-resolver';
+import { createTypeResolverContext } from '../../src/analyzers/type-resolver';
+import { CustomDecorators } from '../../src/analyzers/decorator-resolver';
+
+describe('decorator-resolver', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'test-'));
+  });
+
+  afterEach(async () => {
+    if (tempDir) {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  /**
+   * Get the routes and parameters of every controller, keyed by class name
+   */
+  const analyze = async (
+    files: Record<string, string>,
+    customDecorators?: CustomDecorators,
+  ) => {
+    const srcDir = join(tempDir, 'src');
+    await mkdir(srcDir);
+    for (const [name, content] of Object.entries(files)) {
+      await writeFile(join(srcDir, name), content);
+    }
+    const tsconfigPath = join(tempDir, 'tsconfig.json');
+    await writeFile(
+      tsconfigPath,
+      JSON.stringify({
+        compilerOptions: {
+          experimentalDecorators: true,
+          rootDir: tempDir,
+          types: [],
+          lib: [],
+        },
+      }),
+    );
+
+    const program = getProgram(tsconfigPath);
+    const context = createTypeResolverContext(program);
+    const controllers = filterControllerClasses(
+      extractClasses(program),
+      program,
+      undefined,
+      customDecorators,
+    );
+    return Object.fromEntries(
+      controllers.map((controller) => [
+        controller.class.name!.text,
+        extractRoutes(
+          controller.class,
+          controller.path,
+          program,
+          undefined,
+          customDecorators,
+        ).map((route) => ({
+          httpMethod: route.httpMethod,
+          fullPath: route.fullPath,
+          ...(route.version ? { version: route.version } : {}),
+          parameters: extractParameters(
+            route.method,
+            program,
+            context,
+            customDecorators,
+          ).map(({ name, source, key }) => ({ name, source, key })),
+        })),
+      ]),
+    );
+  };
+
+  it('should recognize aliased, namespace and re-exported imports', async () => {
+    const controllers = await analyze({
+      'nest.ts': `export { Controller as NestController, Get } from '@nestjs/common';`,
+      'users.controller.ts': `
+        import { Controller as C, Get as G, Param as P } from '@nestjs/common';
+        import * as common from '@nestjs/common';
+        import { NestController, Get } from './nest';
+
+        @C('users')
+        export class UsersController {
+          @G(':id')
+          findOne(@P('id') id: string) {}
+        }
+
+        @common.Controller('health')
+        export class HealthController {
+          @common.Get()
+          check(@common.Query('verbose') verbose: string) {}
+        }
+
+        @NestController('reports')
+        export class ReportsController {
+          @Get()
+          findAll() {}
+        }
+      `,
+    });
+
+    expect(controllers).toEqual({
+      UsersController: [
+        {
+          httpMethod: 'GET',
+          fullPath: ['/users/:id'],
+          parameters: [{ name: 'id', source: 'param', key: 'id' }],
+        },
+      ],
+      HealthController: [
+        {
+          httpMethod: 'GET',
+          fullPath: ['/health'],
+          parameters: [{ name: 'verbose', source: 'query', key: 'verbose' }],
+        },
+      ],
+      ReportsController: [
+        { httpMethod: 'GET', fullPath: ['/reports'], parameters: [] },
+      ],
+    });
+  });
+
+  it('should not mistake other decorators with the same name', async () => {
+    const controllers = await analyze({
+      'users.controller.ts': `
+        function Controller(path: string): ClassDecorator {
+          return () => {};
+        }
+
+        @Controller('users')
+        export class UsersController {}
+      `,
+    });
+
+    expect(controllers).toEqual({});
+  });
+
+  it('should follow applyDecorators compositions', async () => {
+    const controllers = await analyze({
+      'decorators.ts': `
+        import {
+          applyDecorators,
+          Controller,
+          Get,
+          UseGuards,
+          Version,
+        } from '@nestjs/common';
+
+        export function ApiController(path: string) {
+          return applyDecorators(Controller(path), UseGuards(AuthGuard));
+        }
+
+        export const VersionedGet = (path?: string, version = '2') =>
+          applyDecorators(Get(path), Version(version));
+
+        export const Authenticated = applyDecorators(UseGuards(AuthGuard));
+      `,
+      'users.controller.ts': `
+        import { ApiController, Authenticated, VersionedGet } from './decorators';
+
+        @ApiController('users')
+        @Authenticated
+        export class UsersController {
+          @VersionedGet(':id')
+          findOne() {}
+
+          @VersionedGet(undefined, '3')
+          findAll() {}
+        }
+      `,
+    });
+
+    expect(controllers).toEqual({
+      UsersController: [
+        {
+          httpMethod: 'GET',
+          fullPath: ['/users/:id'],
+          version: ['2'],
+          parameters: [],
+        },
+        {
+          httpMethod: 'GET',
+          fullPath: ['/users'],
+          version: ['3'],
+          parameters: [],
+        },
+      ],
+    });
+  });
+
+  it('should map custom decorators by name', async () => {
+    const controllers = await analyze(
+      {
+        'users.controller.ts': `
+          import { Resource, Fetch, Payload as Data } from 'some-library';
+
+          @Resource('users')
+          export class UsersController {
+            @Fetch(':id')
+            findOne(@Data() body: string) {}
+          }
+        `,
+      },
+      { Resource: 'Controller', Fetch: 'Get', Payload: 'Body' },
+    );
+
+    expect(controllers).toEqual({
+      UsersController: [
+        {
+          httpMethod: 'GET',
+          fullPath: ['/users/:id'],
+          parameters: [{ name: 'body', source: 'body', key: undefined }],
+        },
+      ],
+    });
+  });
+});
@@ -248,6 +248,17 @@ describe('Expression Resolver', () => {
         expect(result.value).toBeInstanceOf(RegExp);
         expect((result.value as RegExp).source).toBe('hello');
       });
+
+      it('should resolve regex patterns with flags', () => {
+        const { statements, program } = parseCode('/^a\\/b$/gi');
+
+        const expression = getFirstExpression(statements);
+        const result = resolveToLiteral(expression, program);
+
+        expect(result.valueType).toBe('RegularExpressionLiteral');
+        expect((result.value as RegExp).source).toBe('^a\\/b$');
+        expect((result.value as RegExp).flags).toBe('gi');
+      });
     });
 
     describe('Booleans', () => {
@@ -352,6 +363,144 @@ describe('Expression Resolver', () => {
     });
   });
 
+  describe('Constant Folding', () => {
+    /**
+     * Resolve the expression of the last statement of the code
+     */
+    const resolveLastExpression = (code: string): ResolverResult => {
+      const { statements, program } = parseCode(code);
+      const lastStatement = statements[statements.length - 1];
+      expect(lastStatement.kind).toBe(ts.SyntaxKind.ExpressionStatement);
+      return resolveToLiteral(
+        (lastStatement as ts.ExpressionStatement).expression,
+        program,
+      );
+    };
+
+    it('should concatenate strings and add numbers', () => {
+      expect(
+        resolveLastExpression(`
+          const VERSION = 2;
+          'api/v' + VERSION + '/' + ('users' + '');
+        `),
+      ).toEqual({ valueType: 'StringLiteral', value: 'api/v2/users' });
+      expect(resolveLastExpression('1 + 2;')).toEqual({
+        valueType: 'NumericLiteral',
+        value: 3,
+      });
+    });
+
+    it('should not fold other binary operators', () => {
+      expect(resolveLastExpression('3 - 2;').valueType).toBeUndefined();
+    });
+
+    it('should resolve spread elements and spread assignments', () => {
+      const result = resolveLastExpression(`
+        const BASE_PATHS = ['users', 'members'];
+        const defaults = { path: 'users', version: '1' };
+        const path = 'admins';
+        ({ paths: [...BASE_PATHS, 'x'], options: { ...defaults, path } });
+      `);
+
+      expect(result).toEqual({
+        valueType: 'ObjectLiteralExpression',
+        value: {
+          paths: ['users', 'members', 'x'],
+          options: { path: 'admins', version: '1' },
+        },
+      });
+    });
+
+    it('should resolve property and element access chains', () => {
+      const code = `
+        const ROUTES = {
+          users: { base: 'users', paths: ['list', 'detail'] },
+        } as const;
+      `;
+
+      expect(resolveLastExpression(`${code} ROUTES.users.base;`)).toEqual({
+        valueType: 'StringLiteral',
+        value: 'users',
+      });
+      expect(
+        resolveLastExpression(`${code} ROUTES['users'].paths[1];`),
+      ).toEqual({ valueType: 'StringLiteral', value: 'detail' });
+    });
+
+    it('should resolve numeric and string enum members', () => {
+      const code = `
+        enum Paths {
+          Users = 'users',
+          Admins = \`\${Paths.Users}/admins\`,
+        }
+        enum Level {
+          Low,
+          High = 10,
+          Higher,
+        }
+      `;
+
+      expect(resolveLastExpression(`${code} Paths.Users;`)).toEqual({
+        valueType: 'StringLiteral',
+        value: 'users',
+      });
+      expect(resolveLastExpression(`${code} Paths.Admins;`)).toEqual({
+        valueType: 'StringLiteral',
+        value: 'users/admins',
+      });
+      expect(resolveLastExpression(`${code} Level.Higher;`)).toEqual({
+        valueType: 'NumericLiteral',
+        value: 11,
+      });
+    });
+
+    it('should resolve literal types and unions of declared constants', () => {
+      const code = `
+        declare const enum Role {
+          Admin = 'admin',
+        }
+        declare const config: {
+          mode: 'read' | 'write';
+          retries: 1 | 2 | 3;
+          strict: true;
+          role: Role.Admin;
+          name: string;
+        };
+      `;
+
+      expect(resolveLastExpression(`${code} config.mode;`)).toEqual({
+        valueType: 'UnionType',
+        value: ['read', 'write'],
+      });
+      expect(resolveLastExpression(`${code} config.retries;`)).toEqual({
+        valueType: 'UnionType',
+        value: [1, 2, 3],
+      });
+      expect(resolveLastExpression(`${code} config.strict;`)).toEqual({
+        valueType: 'TrueKeyword',
+        value: true,
+      });
+      expect(resolveLastExpression(`${code} config.role;`)).toEqual({
+        valueType: 'StringLiteral',
+        value: 'admin',
+      });
+      expect(
+        resolveLastExpression(`${code} config.name;`).valueType,
+      ).toBeUndefined();
+    });
+
+    it('should resolve satisfies expressions', () => {
+      expect(
+        resolveLastExpression(
+          "({ path: 'users' }) satisfies Record<string, string>;",
+        ),
+      ).toEqual({
+        valueType: 'ObjectLiteralExpression',
+        value: { path: 'users' },
+      });
+    });
+  });
+
   describe('Identifiers and References', () => {
     it('should resolve identifiers to their declared values', () => {
       const { statements, program } = parseCode(`
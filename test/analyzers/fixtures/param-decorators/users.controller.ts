@@ -0,0 +1,40 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Headers,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+  ValidationPipe,
+} from '@nestjs/common';
+import { CreateUserDto, ListUsersQuery } from './users.dto';
+
+const ID_KEY = 'id';
+
+@Controller('users')
+export class UsersController {
+  @Get()
+  findAll(@Query() query: ListUsersQuery) {
+    return [];
+  }
+
+  @Get(':id')
+  findOne(
+    @Param(ID_KEY, ParseIntPipe) id: number,
+    @Query('fields') fields?: string,
+    @Headers('x-request-id') requestId = '',
+  ) {
+    return {};
+  }
+
+  @Post()
+  create(
+    @Body(ValidationPipe) body: CreateUserDto,
+    @Headers() headers: Record<string, string>,
+    untracked: string,
+  ) {
+    return {};
+  }
+}
@@ -0,0 +1,26 @@
+export enum Role {
+  Admin = 'admin',
+  User = 'user',
+}
+
+export class AddressDto {
+  city!: string;
+  zipCode?: string;
+}
+
+/** Payload to create a user */
+export class CreateUserDto {
+  /** Display name of the user */
+  name!: string;
+  age?: number;
+  role!: Role;
+  tags!: string[];
+  address!: AddressDto;
+  createdAt!: Date;
+}
+
+export interface ListUsersQuery {
+  page?: number;
+  limit?: number;
+  active: boolean;
+}
@@ -0,0 +1,6 @@
+// Minimal stand-in for the rxjs Observable
+export declare class Observable<T> {
+  subscribe(next: (value: T) => void): void;
+}
+
+export declare function of<T>(value: T): Observable<T>;
@@ -0,0 +1,42 @@
+import { Controller, Delete, Get, Post } from '@nestjs/common';
+import { Observable, of } from './observable';
+
+export class UserDto {
+  id!: number;
+  email!: string;
+}
+
+export interface UserSummary {
+  id: number;
+}
+
+@Controller('users')
+export class UsersController {
+  @Get(':id')
+  async findOne(): Promise<UserDto> {
+    return new UserDto();
+  }
+
+  @Get()
+  findAll(): Observable<UserDto[]> {
+    return of([]);
+  }
+
+  @Get('summaries')
+  summaries(): UserSummary[] {
+    return [];
+  }
+
+  @Get('stats')
+  async stats() {
+    return { total: 1, active: true };
+  }
+
+  @Post()
+  create(): Promise<Observable<UserDto>> {
+    return Promise.resolve(of(new UserDto()));
+  }
+
+  @Delete(':id')
+  async remove(): Promise<void> {}
+}
@@ -0,0 +1,3 @@
+export const PROFILE_PATH = 'profile';
+export const ALIAS_PATHS = ['me', 'self'];
+export const VERSION = 2;
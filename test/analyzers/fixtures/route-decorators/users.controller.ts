@@ -0,0 +1,81 @@
+import {
+  All,
+  Controller,
+  Delete,
+  Get,
+  Head,
+  Options,
+  Patch,
+  Post,
+  Put,
+} from '@nestjs/common';
+import { ALIAS_PATHS, PROFILE_PATH, VERSION } from './constants';
+
+@Controller(['users', 'members'])
+export class UsersController {
+  @Get()
+  findAll() {
+    return [];
+  }
+
+  @Get(':id')
+  findOne() {
+    return {};
+  }
+
+  @Post()
+  create() {
+    return {};
+  }
+
+  @Put(':id')
+  replace() {
+    return {};
+  }
+
+  @Patch(':id')
+  update() {
+    return {};
+  }
+
+  @Delete('/:id/')
+  remove() {
+    return {};
+  }
+
+  @Options()
+  options() {}
+
+  @Head()
+  head() {}
+
+  @All('*')
+  fallback() {}
+
+  @Get(PROFILE_PATH)
+  profile() {
+    return {};
+  }
+
+  @Get(ALIAS_PATHS)
+  alias() {
+    return {};
+  }
+
+  @Get(`v${VERSION}/stats`)
+  stats() {
+    return {};
+  }
+
+  helper() {
+    return 'not a route';
+  }
+}
+
+@Controller()
+export class RootController {
+  @Get()
+  index() {
+    return 'root';
+  }
+}
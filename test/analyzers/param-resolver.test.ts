@@ -0,0 +1,217 @@
+import { mkdtemp, writeFile, mkdir, rm, readFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  getProgram,
+  extractClasses,
+  filterControllerClasses,
+} from '../../src/analyzers/src-resolver';
+import { extractRoutes } from '../../src/analyzers/route-resolver';
+import { extractParameters } from '../../src/analyzers/param-resolver';
+import {
+  createTypeResolverContext,
+  getTypeDeclarations,
+} from '../../src/analyzers/type-resolver';
+
+describe('param-resolver', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'test-'));
+  });
+
+  afterEach(async () => {
+    if (tempDir) {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should extract decorated parameters with their types', async () => {
+    const tsconfigPath = join(tempDir, 'tsconfig.json');
+    const controllersDir = join(tempDir, 'controllers');
+    await mkdir(controllersDir);
+
+    for (const file of ['users.controller.ts', 'users.dto.ts']) {
+      const content = await readFile(
+        join(__dirname, 'fixtures/param-decorators', file),
+        'utf-8',
+      );
+      await writeFile(join(controllersDir, file), content);
+    }
+
+    await writeFile(
+      tsconfigPath,
+      JSON.stringify(
+        {
+          compilerOptions: {
+            target: 'es2020',
+            module: 'commonjs',
+            experimentalDecorators: true,
+            emitDecoratorMetadata: true,
+            rootDir: tempDir,
+            strict: true,
+            skipLibCheck: true,
+            noResolve: true,
+            types: [],
+            lib: ['es2020'],
+          },
+        },
+        null,
+        2,
+      ),
+    );
+
+    const program = getProgram(tsconfigPath);
+    const context = createTypeResolverContext(program);
+    const [controller] = filterControllerClasses(
+      extractClasses(program),
+      program,
+    );
+    const parameters = Object.fromEntries(
+      extractRoutes(controller.class, controller.path, program).map((route) => [
+        route.name,
+        extractParameters(route.method, program, context),
+      ]),
+    );
+
+    expect(parameters).toEqual({
+      findAll: [
+        {
+          name: 'query',
+          source: 'query',
+          type: { kind: 'reference', name: 'ListUsersQuery' },
+          optional: false,
+        },
+      ],
+      findOne: [
+        {
+          name: 'id',
+          source: 'param',
+          key: 'id',
+          type: { kind: 'primitive', type: 'number' },
+          optional: false,
+        },
+        {
+          name: 'fields',
+          source: 'query',
+          key: 'fields',
+          type: { kind: 'primitive', type: 'string' },
+          optional: true,
+        },
+        {
+          name: 'requestId',
+          source: 'headers',
+          key: 'x-request-id',
+          type: { kind: 'primitive', type: 'string' },
+          optional: true,
+        },
+      ],
+      create: [
+        {
+          name: 'body',
+          source: 'body',
+          type: { kind: 'reference', name: 'CreateUserDto' },
+          optional: false,
+        },
+        {
+          name: 'headers',
+          source: 'headers',
+          type: {
+            kind: 'record',
+            valueType: { kind: 'primitive', type: 'string' },
+          },
+          optional: false,
+        },
+      ],
+    });
+
+    const declarations = getTypeDeclarations(context).map(
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      ({ fileName, line, ...declaration }) => declaration,
+    );
+    expect(declarations).toEqual([
+      {
+        kind: 'object',
+        name: 'AddressDto',
+        properties: [
+          {
+            name: 'city',
+            type: { kind: 'primitive', type: 'string' },
+            optional: false,
+          },
+          {
+            name: 'zipCode',
+            type: { kind: 'primitive', type: 'string' },
+            optional: true,
+          },
+        ],
+      },
+      {
+        kind: 'object',
+        name: 'CreateUserDto',
+        description: 'Payload to create a user',
+        properties: [
+          {
+            name: 'name',
+            type: { kind: 'primitive', type: 'string' },
+            optional: false,
+            description: 'Display name of the user',
+          },
+          {
+            name: 'age',
+            type: { kind: 'primitive', type: 'number' },
+            optional: true,
+          },
+          {
+            name: 'role',
+            type: { kind: 'reference', name: 'Role' },
+            optional: false,
+          },
+          {
+            name: 'tags',
+            type: {
+              kind: 'array',
+              elementType: { kind: 'primitive', type: 'string' },
+            },
+            optional: false,
+          },
+          {
+            name: 'address',
+            type: { kind: 'reference', name: 'AddressDto' },
+            optional: false,
+          },
+          { name: 'createdAt', type: { kind: 'date' }, optional: false },
+        ],
+      },
+      {
+        kind: 'object',
+        name: 'ListUsersQuery',
+        properties: [
+          {
+            name: 'page',
+            type: { kind: 'primitive', type: 'number' },
+            optional: true,
+          },
+          {
+            name: 'limit',
+            type: { kind: 'primitive', type: 'number' },
+            optional: true,
+          },
+          {
+            name: 'active',
+            type: { kind: 'primitive', type: 'boolean' },
+            optional: false,
+          },
+        ],
+      },
+      {
+        kind: 'enum',
+        name: 'Role',
+        members: [
+          { name: 'Admin', value: 'admin' },
+          { name: 'User', value: 'user' },
+        ],
+      },
+    ]);
+  });
+});
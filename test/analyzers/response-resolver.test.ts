@@ -0,0 +1,133 @@
+import { mkdtemp, writeFile, mkdir, rm, readFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  getProgram,
+  extractClasses,
+  filterControllerClasses,
+} from '../../src/analyzers/src-resolver';
+import { extractRoutes } from '../../src/analyzers/route-resolver';
+import { resolveResponseType } from '../../src/analyzers/response-resolver';
+import {
+  createTypeResolverContext,
+  getTypeDeclarations,
+} from '../../src/analyzers/type-resolver';
+
+describe('response-resolver', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'test-'));
+  });
+
+  afterEach(async () => {
+    if (tempDir) {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should resolve response types of route handlers', async () => {
+    const tsconfigPath = join(tempDir, 'tsconfig.json');
+    const controllersDir = join(tempDir, 'controllers');
+    await mkdir(controllersDir);
+
+    for (const file of ['users.controller.ts', 'observable.ts']) {
+      const content = await readFile(
+        join(__dirname, 'fixtures/response-types', file),
+        'utf-8',
+      );
+      await writeFile(join(controllersDir, file), content);
+    }
+
+    await writeFile(
+      tsconfigPath,
+      JSON.stringify(
+        {
+          compilerOptions: {
+            target: 'es2020',
+            module: 'commonjs',
+            experimentalDecorators: true,
+            rootDir: tempDir,
+            strict: true,
+            skipLibCheck: true,
+            noResolve: true,
+            types: [],
+            lib: ['es2020'],
+          },
+        },
+        null,
+        2,
+      ),
+    );
+
+    const program = getProgram(tsconfigPath);
+    const context = createTypeResolverContext(program);
+    const [controller] = filterControllerClasses(
+      extractClasses(program),
+      program,
+    );
+    const responses = Object.fromEntries(
+      extractRoutes(controller.class, controller.path, program).map((route) => [
+        route.name,
+        resolveResponseType(route.method, program, context),
+      ]),
+    );
+
+    expect(responses).toEqual({
+      findOne: {
+        type: { kind: 'reference', name: 'UserDto' },
+        isArray: false,
+        named: true,
+      },
+      findAll: {
+        type: {
+          kind: 'array',
+          elementType: { kind: 'reference', name: 'UserDto' },
+        },
+        isArray: true,
+        named: true,
+      },
+      summaries: {
+        type: {
+          kind: 'array',
+          elementType: { kind: 'reference', name: 'UserSummary' },
+        },
+        isArray: true,
+        named: true,
+      },
+      stats: {
+        type: {
+          kind: 'object',
+          properties: [
+            {
+              name: 'total',
+              type: { kind: 'primitive', type: 'number' },
+              optional: false,
+            },
+            {
+              name: 'active',
+              type: { kind: 'primitive', type: 'boolean' },
+              optional: false,
+            },
+          ],
+        },
+        isArray: false,
+        named: false,
+      },
+      create: {
+        type: { kind: 'reference', name: 'UserDto' },
+        isArray: false,
+        named: true,
+      },
+      remove: {
+        type: { kind: 'primitive', type: 'void' },
+        isArray: false,
+        named: false,
+      },
+    });
+    expect(getTypeDeclarations(context).map(({ name }) => name)).toEqual([
+      'UserDto',
+      'UserSummary',
+    ]);
+  });
+});
@@ -0,0 +1,381 @@
+import { mkdtemp, writeFile, mkdir, rm, readFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  getProgram,
+  extractClasses,
+  filterControllerClasses,
+} from '../../src/analyzers/src-resolver';
+import {
+  extractRoutes,
+  InvalidRouteDecoratorError,
+  joinPaths,
+} from '../../src/analyzers/route-resolver';
+import { Diagnostic } from '../../src/diagnostics/diagnostics';
+
+describe('route-resolver', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'test-'));
+  });
+
+  afterEach(async () => {
+    if (tempDir) {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  const createProgram = async (files: Record<string, string>) => {
+    const tsconfigPath = join(tempDir, 'tsconfig.json');
+    const controllersDir = join(tempDir, 'controllers');
+    await mkdir(controllersDir);
+
+    for (const [name, content] of Object.entries(files)) {
+      await writeFile(join(controllersDir, name), content);
+    }
+
+    await writeFile(
+      tsconfigPath,
+      JSON.stringify(
+        {
+          compilerOptions: {
+            target: 'es2016',
+            module: 'commonjs',
+            experimentalDecorators: true,
+            emitDecoratorMetadata: true,
+            rootDir: tempDir,
+            skipLibCheck: true,
+            noResolve: true,
+            types: [],
+            lib: [],
+          },
+        },
+        null,
+        2,
+      ),
+    );
+
+    return getProgram(tsconfigPath);
+  };
+
+  const readFixtures = async (names: string[]) => {
+    const files: Record<string, string> = {};
+    for (const name of names) {
+      files[name] = await readFile(
+        join(__dirname, 'fixtures/route-decorators', name),
+        'utf-8',
+      );
+    }
+    return files;
+  };
+
+  describe('joinPaths', () => {
+    it('should normalize slashes between segments', () => {
+      expect(joinPaths('api/', '/users', ':id')).toBe('/api/users/:id');
+      expect(joinPaths('', '')).toBe('/');
+      expect(joinPaths('api/v1', '')).toBe('/api/v1');
+    });
+  });
+
+  describe('extractRoutes', () => {
+    it('should extract routes from fixtures', async () => {
+      const program = await createProgram(
+        await readFixtures(['users.controller.ts', 'constants.ts']),
+      );
+      const controllers = filterControllerClasses(
+        extractClasses(program),
+        program,
+      );
+      const users = controllers.find(
+        ({ class: cls }) => cls.name?.text === 'UsersController',
+      )!;
+
+      const routes = extractRoutes(users.class, users.path, program).map(
+        ({ name, httpMethod, path, fullPath }) => ({
+          name,
+          httpMethod,
+          path,
+          fullPath,
+        }),
+      );
+
+      expect(routes).toEqual([
+        {
+          name: 'findAll',
+          httpMethod: 'GET',
+          path: [],
+          fullPath: ['/users', '/members'],
+        },
+        {
+          name: 'findOne',
+          httpMethod: 'GET',
+          path: [':id'],
+          fullPath: ['/users/:id', '/members/:id'],
+        },
+        {
+          name: 'create',
+          httpMethod: 'POST',
+          path: [],
+          fullPath: ['/users', '/members'],
+        },
+        {
+          name: 'replace',
+          httpMethod: 'PUT',
+          path: [':id'],
+          fullPath: ['/users/:id', '/members/:id'],
+        },
+        {
+          name: 'update',
+          httpMethod: 'PATCH',
+          path: [':id'],
+          fullPath: ['/users/:id', '/members/:id'],
+        },
+        {
+          name: 'remove',
+          httpMethod: 'DELETE',
+          path: ['/:id/'],
+          fullPath: ['/users/:id', '/members/:id'],
+        },
+        {
+          name: 'options',
+          httpMethod: 'OPTIONS',
+          path: [],
+          fullPath: ['/users', '/members'],
+        },
+        {
+          name: 'head',
+          httpMethod: 'HEAD',
+          path: [],
+          fullPath: ['/users', '/members'],
+        },
+        {
+          name: 'fallback',
+          httpMethod: 'ALL',
+          path: ['*'],
+          fullPath: ['/users/*', '/members/*'],
+        },
+        {
+          name: 'profile',
+          httpMethod: 'GET',
+          path: ['profile'],
+          fullPath: ['/users/profile', '/members/profile'],
+        },
+        {
+          name: 'alias',
+          httpMethod: 'GET',
+          path: ['me', 'self'],
+          fullPath: [
+            '/users/me',
+            '/users/self',
+            '/members/me',
+            '/members/self',
+          ],
+        },
+        {
+          name: 'stats',
+          httpMethod: 'GET',
+          path: ['v2/stats'],
+          fullPath: ['/users/v2/stats', '/members/v2/stats'],
+        },
+      ]);
+
+      const root = controllers.find(
+        ({ class: cls }) => cls.name?.text === 'RootController',
+      )!;
+      expect(
+        extractRoutes(root.class, root.path, program).map(
+          ({ fullPath }) => fullPath,
+        ),
+      ).toEqual([['/']]);
+    });
+
+    it('should throw InvalidRouteDecoratorError for invalid decorator usage', async () => {
+      const program = await createProgram({
+        'invalid.controller.ts': `
+          import { Controller, Get } from '@nestjs/common';
+
+          @Controller('invalid')
+          export class InvalidController {
+            @Get(123)
+            findAll() {
+              return [];
+            }
+          }
+        `,
+      });
+      const [controller] = filterControllerClasses(
+        extractClasses(program),
+        program,
+      );
+
+      expect(() =>
+        extractRoutes(controller.class, controller.path, program),
+      ).toThrow(InvalidRouteDecoratorError);
+    });
+
+    it('should collect diagnostics and skip invalid routes', async () => {
+      const program = await createProgram({
+        'invalid.controller.ts': `
+          import { Controller, Get, Version } from '@nestjs/common';
+
+          @Controller('invalid')
+          export class InvalidController {
+            @Get(123)
+            findAll() {}
+
+            @Version(getVersion())
+            @Get(':id')
+            findOne() {}
+
+            @Get('valid')
+            valid() {}
+          }
+        `,
+      });
+      const [controller] = filterControllerClasses(
+        extractClasses(program),
+        program,
+      );
+      const diagnostics: Diagnostic[] = [];
+
+      const routes = extractRoutes(
+        controller.class,
+        controller.path,
+        program,
+        diagnostics,
+      );
+
+      expect(routes.map(({ name }) => name)).toEqual(['valid']);
+      expect(diagnostics).toMatchObject([
+        {
+          severity: 'error',
+          code: 'invalid-route-decorator',
+          line: 6,
+          snippet: ['            @Get(123)'],
+        },
+        {
+          severity: 'error',
+          code: 'invalid-route-decorator',
+          line: 9,
+          snippet: ['            @Version(getVersion())'],
+        },
+      ]);
+    });
+
+    it('should extract the routes of controllers made by factories', async () => {
+      const program = await createProgram({
+        'users.controller.ts': `
+          import { Controller, Get } from '@nestjs/common';
+
+          function createCrudController(path: string, searchPath = 'search') {
+            @Controller(path)
+            class CrudController {
+              @Get()
+              findAll() {}
+
+              @Get(searchPath)
+              search() {}
+            }
+            return CrudController;
+          }
+
+          export const UsersController = createCrudController('users');
+          export const PostsController = createCrudController('posts', 'find');
+        `,
+      });
+      const controllers = filterControllerClasses(
+        extractClasses(program),
+        program,
+      );
+
+      expect(
+        controllers.map((controller) => [
+          controller.name,
+          extractRoutes(
+            controller.class,
+            controller.path,
+            program,
+            undefined,
+            undefined,
+            controller.substitutions,
+          ).map(({ name, fullPath }) => [name, fullPath]),
+        ]),
+      ).toEqual([
+        [
+          'UsersController',
+          [
+            ['findAll', ['/users']],
+            ['search', ['/users/search']],
+          ],
+        ],
+        [
+          'PostsController',
+          [
+            ['findAll', ['/posts']],
+            ['search', ['/posts/find']],
+          ],
+        ],
+      ]);
+    });
+
+    it('should extract the routes controllers inherit', async () => {
+      const program = await createProgram({
+        'users.controller.ts': `
+          import { Controller, Delete, Get, Post } from '@nestjs/common';
+
+          abstract class BaseController {
+            @Get()
+            findAll() {}
+
+            @Get(':id')
+            findOne() {}
+
+            @Delete(':id')
+            remove() {}
+          }
+
+          function Searchable<T extends new (...args: any[]) => object>(
+            Base: T,
+            path: string,
+          ) {
+            class SearchableController extends Base {
+              @Get(path)
+              search() {}
+            }
+            return SearchableController;
+          }
+
+          @Controller('users')
+          export class UsersController extends Searchable(
+            BaseController,
+            'search',
+          ) {
+            @Get(':id/profile')
+            findOne() {}
+
+            remove() {}
+
+            @Post()
+            create() {}
+          }
+        `,
+      });
+      const [controller] = filterControllerClasses(
+        extractClasses(program),
+        program,
+      );
+
+      expect(
+        extractRoutes(controller.class, controller.path, program).map(
+          ({ name, httpMethod, fullPath }) => [name, httpMethod, fullPath],
+        ),
+      ).toEqual([
+        ['findOne', 'GET', ['/users/:id/profile']],
+        ['create', 'POST', ['/users']],
+        ['search', 'GET', ['/users/search']],
+        ['findAll', 'GET', ['/users']],
+      ]);
+    });
+  });
+});
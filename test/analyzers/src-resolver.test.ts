@@ -3,6 +3,7 @@ import { join } from 'path';
 import { tmpdir } from 'os';
 import {
   getProgram,
+  watchProgram,
   extractClasses,
   filterControllerClasses,
   InvalidControllerDecoratorError,
@@ -69,6 +70,155 @@ describe('src-resolver', () => {
       );
       expect(hasNodeModulesFiles).toBe(false);
     });
+
+    it('should analyze referenced projects from their sources', async () => {
+      const write = async (path: string, content: unknown) => {
+        await mkdir(join(tempDir, path, '..'), { recursive: true });
+        await writeFile(
+          join(tempDir, path),
+          typeof content === 'string' ? content : JSON.stringify(content),
+        );
+      };
+      const compilerOptions = { types: [], lib: [], skipLibCheck: true };
+      await write('libs/common/tsconfig.json', {
+        compilerOptions: {
+          ...compilerOptions,
+          composite: true,
+          outDir: 'dist',
+        },
+        include: ['src'],
+      });
+      await write('libs/common/src/user.dto.ts', 'export class UserDto {}');
+      await write(
+        'libs/common/dist/user.dto.d.ts',
+        'export declare class UserDto {}',
+      );
+      await write('apps/api/tsconfig.json', {
+        compilerOptions,
+        include: ['src'],
+        references: [{ path: '../../libs/common' }],
+      });
+      await write(
+        'apps/api/src/users.controller.ts',
+        "import { UserDto } from '../../../libs/common/dist/user.dto';",
+      );
+
+      const sourceFiles = new Map<string, ts.SourceFile>();
+      const program = getProgram(
+        join(tempDir, 'apps/api/tsconfig.json'),
+        sourceFiles,
+      );
+      const fileNames = program
+        .getSourceFiles()
+        .map(({ fileName }) => fileName);
+
+      expect(fileNames).toContain(join(tempDir, 'libs/common/src/user.dto.ts'));
+      expect(fileNames).not.toContain(
+        join(tempDir, 'libs/common/dist/user.dto.d.ts'),
+      );
+      expect(
+        program.getSourceFile(join(tempDir, 'libs/common/src/user.dto.ts')),
+      ).toBe(sourceFiles.get(join(tempDir, 'libs/common/src/user.dto.ts')));
+    });
+  });
+
+  describe('watchProgram', () => {
+    it('should create a new program reusing unchanged files', async () => {
+      const file1Path = join(tempDir, 'file1.ts');
+      const file2Path = join(tempDir, 'file2.ts');
+      const tsconfigPath = join(tempDir, 'tsconfig.json');
+      await writeFile(file1Path, 'export const a = 1;');
+      await writeFile(file2Path, 'export const b = 2;');
+      await writeFile(
+        tsconfigPath,
+        JSON.stringify({
+          compilerOptions: { noResolve: true, types: [], lib: [] },
+        }),
+      );
+
+      const programs: ts.Program[] = [];
+      let onProgram = () => {};
+      const watcher = watchProgram(tsconfigPath, (program) => {
+        programs.push(program);
+        onProgram();
+      });
+      try {
+        expect(programs).toHaveLength(1);
+
+        const updated = new Promise<void>((resolve) => (onProgram = resolve));
+        await writeFile(file2Path, 'export const b = 3;');
+        await updated;
+
+        const [first, second] = programs;
+        expect(second.getSourceFile(file1Path)).toBe(
+          first.getSourceFile(file1Path),
+        );
+        expect(second.getSourceFile(file2Path)!.text).toBe(
+          'export const b = 3;',
+        );
+      } finally {
+        watcher.close();
+      }
+    });
+    it('should analyze referenced projects from their sources', async () => {
+      const write = async (path: string, content: unknown) => {
+        await mkdir(join(tempDir, path, '..'), { recursive: true });
+        await writeFile(
+          join(tempDir, path),
+          typeof content === 'string' ? content : JSON.stringify(content),
+        );
+      };
+      const compilerOptions = { types: [], lib: [], skipLibCheck: true };
+      await write('libs/common/tsconfig.json', {
+        compilerOptions: {
+          ...compilerOptions,
+          composite: true,
+          outDir: 'dist',
+        },
+        include: ['src'],
+      });
+      await write('libs/common/src/user.dto.ts', 'export class UserDto {}');
+      await write(
+        'libs/common/dist/user.dto.d.ts',
+        'export declare class UserDto {}',
+      );
+      for (const app of ['api', 'admin']) {
+        await write(`apps/${app}/tsconfig.json`, {
+          compilerOptions,
+          include: ['src'],
+          references: [{ path: '../../libs/common' }],
+        });
+        await write(
+          `apps/${app}/src/users.controller.ts`,
+          "import { UserDto } from '../../../libs/common/dist/user.dto';",
+        );
+      }
+
+      const sourceFiles = new Map<string, ts.SourceFile>();
+      const programs: ts.Program[] = [];
+      const watchers = ['api', 'admin'].map((app) =>
+        watchProgram(
+          join(tempDir, `apps/${app}/tsconfig.json`),
+          (program) => programs.push(program),
+          sourceFiles,
+        ),
+      );
+      try {
+        const source = join(tempDir, 'libs/common/src/user.dto.ts');
+        const [api, admin] = programs;
+        expect(api.getSourceFile(source)).toBeDefined();
+        expect(admin.getSourceFile(source)).toBe(api.getSourceFile(source));
+        programs.forEach((program) =>
+          expect(
+            program.getSourceFile(
+              join(tempDir, 'libs/common/dist/user.dto.d.ts'),
+            ),
+          ).toBeUndefined(),
+        );
+      } finally {
+        watchers.forEach((watcher) => watcher.close());
+      }
+    });
   });
 
   describe('extractClasses', () => {
@@ -116,13 +266,81 @@ describe('src-resolver', () => {
       const classes = extractClasses(program);
 
       expect(classes).toHaveLength(3);
-      expect(classes.every((cls) => ts.isClassDeclaration(cls))).toBe(true);
-      expect(classes.map((cls) => cls.name?.text)).toEqual([
+      expect(
+        classes.every(({ class: cls }) => ts.isClassDeclaration(cls)),
+      ).toBe(true);
+      expect(classes.map(({ name }) => name)).toEqual([
         'User',
         'Post',
         'Comment',
       ]);
     });
+
+    it('should find classes in namespaces, default exports and factories', async () => {
+      const tsconfigPath = join(tempDir, 'tsconfig.json');
+      await writeFile(
+        join(tempDir, 'crud.ts'),
+        `
+            export function createCrudController(path: string) {
+              class CrudController {
+                path = path;
+              }
+              return CrudController;
+            }
+          `,
+      );
+      await writeFile(
+        join(tempDir, 'admin.ts'),
+        `
+            import { createCrudController } from './crud';
+
+            export namespace Admin.V1 {
+              export class AuditController {}
+            }
+            export namespace Admin {
+              export namespace V2 {
+                export class AuditController {}
+              }
+            }
+
+            export const UsersController = createCrudController('users');
+            export const TagsController = class {};
+            export const Alias = TagsController;
+            const notAClass = createCrudController.name;
+          `,
+      );
+      await writeFile(
+        join(tempDir, 'health.controller.ts'),
+        'export default class {}',
+      );
+      await writeFile(
+        tsconfigPath,
+        JSON.stringify({
+          compilerOptions: { rootDir: tempDir, types: [], lib: [] },
+        }),
+      );
+
+      const program = getProgram(tsconfigPath);
+      const classes = extractClasses(program);
+
+      expect(
+        classes.map(({ name, class: cls, declaration }) => [
+          name,
+          ts.SyntaxKind[cls.kind],
+          ts.SyntaxKind[declaration.kind],
+        ]),
+      ).toEqual([
+        ['AdminV1AuditController', 'ClassDeclaration', 'ClassDeclaration'],
+        ['AdminV2AuditController', 'ClassDeclaration', 'ClassDeclaration'],
+        ['UsersController', 'ClassDeclaration', 'VariableDeclaration'],
+        ['TagsController', 'ClassExpression', 'VariableDeclaration'],
+        ['HealthController', 'ClassDeclaration', 'ClassDeclaration'],
+      ]);
+      expect(classes[2].class.name?.text).toBe('CrudController');
+      expect(
+        [...classes[2].substitutions!.values()].map((arg) => arg?.getText()),
+      ).toEqual(["'users'"]);
+    });
   });
 
   describe('filterControllerClasses', () => {
@@ -193,6 +411,120 @@ describe('src-resolver', () => {
       ]);
     });
 
+    it('should resolve paths folded from constants', async () => {
+      const tsconfigPath = join(tempDir, 'tsconfig.json');
+      const controllersDir = join(tempDir, 'controllers');
+      await mkdir(controllersDir);
+
+      await writeFile(
+        join(controllersDir, 'folded.controller.ts'),
+        `
+        import { Controller } from '@nestjs/common';
+
+        const VERSION = 2;
+        const BASE_PATHS = ['api', 'internal'];
+        const ROUTES = { users: { base: 'users' } } as const;
+        const defaults = { path: 'defaults' };
+        enum Paths {
+          Posts = 'posts',
+        }
+        const path = 'shorthand';
+
+        @Controller('api/v' + VERSION)
+        export class ConcatController {}
+
+        @Controller([...BASE_PATHS, 'v2'])
+        export class SpreadController {}
+
+        @Controller(ROUTES.users.base)
+        export class AccessController {}
+
+        @Controller(Paths.Posts)
+        export class EnumController {}
+
+        @Controller({ ...defaults })
+        export class SpreadOptionsController {}
+
+        @Controller({ path })
+        export class ShorthandController {}
+      `,
+      );
+      await writeFile(
+        tsconfigPath,
+        JSON.stringify({
+          compilerOptions: {
+            target: 'es2016',
+            experimentalDecorators: true,
+            rootDir: tempDir,
+            noResolve: true,
+            types: [],
+            lib: [],
+          },
+        }),
+      );
+
+      const program = getProgram(tsconfigPath);
+      const controllers = filterControllerClasses(
+        extractClasses(program),
+        program,
+      );
+
+      expect(
+        controllers.map(({ class: cls, path }) => [cls.name?.text, path]),
+      ).toEqual([
+        ['ConcatController', ['api/v2']],
+        ['SpreadController', ['api', 'internal', 'v2']],
+        ['AccessController', ['users']],
+        ['EnumController', ['posts']],
+        ['SpreadOptionsController', ['defaults']],
+        ['ShorthandController', ['shorthand']],
+      ]);
+    });
+
+    it('should collect the tags of @ApiTags', async () => {
+      const tsconfigPath = join(tempDir, 'tsconfig.json');
+      await writeFile(
+        join(tempDir, 'tagged.controller.ts'),
+        `
+        import { Controller } from '@nestjs/common';
+        import { ApiTags } from '@nestjs/swagger';
+
+        const ADMIN_TAG = 'admin';
+
+        @ApiTags('users', ADMIN_TAG)
+        @Controller('users')
+        export class UsersController {}
+
+        @Controller('health')
+        export class HealthController {}
+      `,
+      );
+      await writeFile(
+        tsconfigPath,
+        JSON.stringify({
+          compilerOptions: {
+            target: 'es2016',
+            experimentalDecorators: true,
+            rootDir: tempDir,
+            noResolve: true,
+            types: [],
+            lib: [],
+          },
+        }),
+      );
+
+      const program = getProgram(tsconfigPath);
+      const controllers = filterControllerClasses(
+        extractClasses(program),
+        program,
+      );
+
+      expect(controllers.map(({ name, tags }) => [name, tags])).toEqual([
+        ['UsersController', ['users', 'admin']],
+        ['HealthController', undefined],
+      ]);
+    });
+
     it('should throw InvalidControllerDecoratorError for invalid decorator usage', async () => {
       const tsconfigPath = join(tempDir, 'tsconfig.json');
       const controllersDir = join(tempDir, 'controllers');
@@ -257,7 +589,7 @@ describe('src-resolver', () => {
       ];
 
       for (const name of invalidClassNames) {
-        const invalidClass = classes.find((cls) => cls.name?.text === name);
+        const invalidClass = classes.find((declared) => declared.name === name);
         expect(invalidClass).toBeDefined();
         expect(() => filterControllerClasses([invalidClass!], program)).toThrow(
           InvalidControllerDecoratorError,
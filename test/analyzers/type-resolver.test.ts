@@ -0,0 +1,683 @@
+import ts from 'typescript';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import {
+  createTypeResolverContext,
+  getTypeDeclarations,
+  resolveType,
+} from '../../src/analyzers/type-resolver';
+import { Diagnostic } from '../../src/diagnostics/diagnostics';
+
+describe('type-resolver', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(
+      path.join(os.tmpdir(), 'nest-dto-generator-test-'),
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  /**
+   * Resolve the type of the class or interface named `Target`
+   */
+  const resolveTarget = (code: string) => {
+    const tempFilePath = path.join(tempDir, 'test.ts');
+    fs.writeFileSync(tempFilePath, code);
+
+    const program = ts.createProgram([tempFilePath], {
+      target: ts.ScriptTarget.ES2020,
+      strict: true,
+      lib: ['lib.es2020.d.ts'],
+    });
+    const sourceFile = program.getSourceFile(tempFilePath)!;
+    const diagnostics: Diagnostic[] = [];
+    const context = createTypeResolverContext(program, diagnostics);
+    const target = sourceFile.statements.find(
+      (statement): statement is ts.ClassDeclaration | ts.InterfaceDeclaration =>
+        (ts.isClassDeclaration(statement) ||
+          ts.isInterfaceDeclaration(statement)) &&
+        statement.name?.text === 'Target',
+    )!;
+    const type = context.checker.getTypeAtLocation(target.name!);
+
+    return {
+      type: resolveType(type, context),
+      declarations: getTypeDeclarations(context),
+      diagnostics,
+    };
+  };
+
+  it('should resolve property defaults and JSDoc tags', () => {
+    const { type, declarations } = resolveTarget(`
+      const DEFAULT_LIMIT = 20;
+
+      export class Target {
+        /**
+         * Page size
+         * @integer
+         * @example 50
+         */
+        limit: number = DEFAULT_LIMIT;
+        sort = 'asc';
+        fields: string[] = ['id', 'name'];
+      }
+    `);
+
+    expect(type).toEqual({ kind: 'reference', name: 'Target' });
+    expect(declarations[0]).toMatchObject({
+      kind: 'object',
+      name: 'Target',
+      properties: [
+        {
+          name: 'limit',
+          type: { kind: 'primitive', type: 'number' },
+          optional: false,
+          description: 'Page size',
+          tags: { integer: '', example: '50' },
+          default: 20,
+        },
+        {
+          name: 'sort',
+          type: { kind: 'primitive', type: 'string' },
+          optional: false,
+          default: 'asc',
+        },
+        {
+          name: 'fields',
+          type: {
+            kind: 'array',
+            elementType: { kind: 'primitive', type: 'string' },
+          },
+          optional: false,
+          default: ['id', 'name'],
+        },
+      ],
+    });
+  });
+
+  it('should leave out non-public members and getters without a setter', () => {
+    const { declarations } = resolveTarget(`
+      export class Target {
+        name!: string;
+        private secret = 'secret';
+        protected internal!: number;
+        #hidden = 0;
+
+        get computed(): number {
+          return this.name.length;
+        }
+
+        get label(): string {
+          return this.name;
+        }
+        set label(value: string) {
+          this.name = value;
+        }
+      }
+    `);
+
+    expect(declarations[0]).toMatchObject({
+      properties: [{ name: 'name' }, { name: 'label' }],
+    });
+    expect(declarations[0]).not.toHaveProperty('properties.2');
+  });
+
+  it('should resolve the patterns of @Matches decorators', () => {
+    const { declarations, diagnostics } = resolveTarget(`
+      import { Matches as MatchesPattern } from 'class-validator';
+
+      declare function Matches(pattern: RegExp | string): PropertyDecorator;
+      declare function getPattern(): string;
+
+      const SLUG = /^[a-z0-9-]+$/g;
+
+      export class Target {
+        @MatchesPattern(SLUG)
+        slug!: string;
+        @MatchesPattern('^\\\\d{3}$')
+        code!: string;
+        @MatchesPattern('^[a-z]+$', 'i', { message: 'letters only' })
+        word!: string;
+        @MatchesPattern('^[a-z]+$', { message: 'lowercase only' })
+        lower!: string;
+        @MatchesPattern(getPattern())
+        dynamic!: string;
+        @Matches(/^[a-z]+$/)
+        name!: string;
+      }
+    `);
+
+    expect(declarations[0]).toMatchObject({
+      properties: [
+        { name: 'slug', pattern: '^[a-z0-9-]+$', patternFlags: 'g' },
+        { name: 'code', pattern: '^\\d{3}$' },
+        { name: 'word', pattern: '^[a-z]+$', patternFlags: 'i' },
+        { name: 'lower', pattern: '^[a-z]+$' },
+        { name: 'dynamic' },
+        { name: 'name' },
+      ],
+    });
+    expect(declarations[0]).not.toHaveProperty('properties.1.patternFlags');
+    expect(declarations[0]).not.toHaveProperty('properties.3.patternFlags');
+    expect(declarations[0]).not.toHaveProperty('properties.4.pattern');
+    expect(declarations[0]).not.toHaveProperty('properties.5.pattern');
+    expect(diagnostics).toMatchObject([
+      {
+        code: 'unsupported-pattern-flags',
+        line: 14,
+        message:
+          'JSON Schema and OpenAPI cannot express the i flag(s) of /^[a-z]+$/i; their schemas of word leave the pattern out',
+      },
+      {
+        code: 'unresolved-pattern',
+        line: 18,
+        message:
+          'The regular expression of @Matches() cannot be resolved; dynamic is generated without it',
+      },
+    ]);
+  });
+
+  it('should resolve enum member values', () => {
+    const { declarations } = resolveTarget(`
+      const PREFIX = 'role';
+
+      enum Role {
+        Admin = \`\${PREFIX}:admin\`,
+        User = 'role:user',
+      }
+
+      enum Level {
+        Low,
+        High = 10,
+        Higher,
+      }
+
+      export interface Target {
+        role: Role;
+        level: Level;
+        admin: Role.Admin;
+      }
+    `);
+
+    expect(
+      declarations.filter((declaration) => declaration.kind === 'enum'),
+    ).toMatchObject([
+      {
+        name: 'Level',
+        members: [
+          { name: 'Low', value: 0 },
+          { name: 'High', value: 10 },
+          { name: 'Higher', value: 11 },
+        ],
+      },
+      {
+        name: 'Role',
+        members: [
+          { name: 'Admin', value: 'role:admin' },
+          { name: 'User', value: 'role:user' },
+        ],
+      },
+    ]);
+    expect(declarations.find(({ name }) => name === 'Target')).toMatchObject({
+      properties: [
+        { name: 'role', type: { kind: 'reference', name: 'Role' } },
+        { name: 'level', type: { kind: 'reference', name: 'Level' } },
+        { name: 'admin', type: { kind: 'reference', name: 'Role' } },
+      ],
+    });
+  });
+
+  it('should resolve optional and nullable enums to a single reference', () => {
+    const { declarations } = resolveTarget(`
+      enum Role {
+        Admin = 'admin',
+        User = 'user',
+      }
+
+      interface UserDto {
+        role: Role;
+      }
+
+      export interface Target {
+        optional?: Role;
+        nullable: Role | null;
+        partial: Partial<UserDto>;
+        roles?: (Role | null)[];
+      }
+    `);
+
+    const role = { kind: 'reference', name: 'Role' };
+    const nullable = {
+      kind: 'union',
+      types: [{ kind: 'primitive', type: 'null' }, role],
+    };
+    expect(declarations.find(({ name }) => name === 'Target')).toEqual(
+      expect.objectContaining({
+        properties: [
+          { name: 'optional', type: role, optional: true },
+          { name: 'nullable', type: nullable, optional: false },
+          {
+            name: 'partial',
+            type: {
+              kind: 'object',
+              properties: [{ name: 'role', type: role, optional: true }],
+            },
+            optional: false,
+          },
+          {
+            name: 'roles',
+            type: { kind: 'array', elementType: nullable },
+            optional: true,
+          },
+        ],
+      }),
+    );
+  });
+
+  it('should register named unions of object types once', () => {
+    const { declarations } = resolveTarget(`
+      /** Shape to draw */
+      type Shape =
+        | { kind: 'circle'; radius: number }
+        | { kind: 'square'; side: number };
+      type Status = 'active' | 'inactive';
+
+      export interface Target {
+        shape: Shape;
+        optional?: Shape;
+        nullable: Shape | null;
+        shapes: Shape[];
+        status: Status;
+      }
+    `);
+
+    const shape = { kind: 'reference', name: 'Shape' };
+    expect(declarations.map(({ name }) => name)).toEqual(['Shape', 'Target']);
+    expect(declarations[0]).toMatchObject({
+      kind: 'alias',
+      name: 'Shape',
+      description: 'Shape to draw',
+      type: {
+        kind: 'union',
+        types: [{ kind: 'object' }, { kind: 'object' }],
+        discriminator: { propertyName: 'kind', values: ['circle', 'square'] },
+      },
+    });
+    expect(declarations[1]).toMatchObject({
+      properties: [
+        { name: 'shape', type: shape },
+        { name: 'optional', type: shape, optional: true },
+        {
+          name: 'nullable',
+          type: {
+            kind: 'union',
+            types: [shape, { kind: 'primitive', type: 'null' }],
+          },
+        },
+        { name: 'shapes', type: { kind: 'array', elementType: shape } },
+        {
+          name: 'status',
+          type: {
+            kind: 'union',
+            types: [
+              { kind: 'literal', value: 'active' },
+              { kind: 'literal', value: 'inactive' },
+            ],
+          },
+        },
+      ],
+    });
+  });
+
+  it('should find the discriminator of unions of object types', () => {
+    const { type, declarations } = resolveTarget(`
+      class CardPayment {
+        kind!: 'card';
+        cardNo!: string;
+      }
+
+      export interface Target {
+        payment: { kind: 'card'; cardNo: string } | { kind: 'bank'; iban: string };
+        refund: CardPayment | { kind: 'cash' } | null;
+        shape: { type: 1; size: number } | { type: 2; size: number };
+        loose: { kind: string } | { kind: 'bank' };
+        status: 'open' | 'paid';
+      }
+    `);
+
+    expect(type).toEqual({ kind: 'reference', name: 'Target' });
+    const target = declarations.find(({ name }) => name === 'Target');
+    expect(target).toMatchObject({
+      properties: [
+        {
+          name: 'payment',
+          type: {
+            kind: 'union',
+            types: [{ kind: 'object' }, { kind: 'object' }],
+            discriminator: { propertyName: 'kind', values: ['card', 'bank'] },
+          },
+        },
+        {
+          name: 'refund',
+          type: {
+            kind: 'union',
+            types: [
+              {
+                kind: 'union',
+                types: [
+                  { kind: 'reference', name: 'CardPayment' },
+                  { kind: 'object' },
+                ],
+                discriminator: {
+                  propertyName: 'kind',
+                  values: ['card', 'cash'],
+                },
+              },
+              { kind: 'primitive', type: 'null' },
+            ],
+          },
+        },
+        {
+          name: 'shape',
+          type: { discriminator: { propertyName: 'type', values: [1, 2] } },
+        },
+        { name: 'loose', type: { kind: 'union' } },
+        {
+          name: 'status',
+          type: {
+            kind: 'union',
+            types: [
+              { kind: 'literal', value: 'open' },
+              { kind: 'literal', value: 'paid' },
+            ],
+          },
+        },
+      ],
+    });
+    expect(target).not.toHaveProperty([
+      'properties',
+      3,
+      'type',
+      'discriminator',
+    ]);
+  });
+
+  it('should name instantiations of generic types after their arguments', () => {
+    const { declarations } = resolveTarget(`
+      class UserDto {
+        name!: string;
+      }
+      enum Status {
+        Active = 'active',
+      }
+      interface PaginatedResponse<T> {
+        items: T[];
+        total: number;
+      }
+      type Pair<A, B> = { first: A; second: B };
+
+      export class Target {
+        users!: PaginatedResponse<UserDto>;
+        names!: PaginatedResponse<string>;
+        nested!: PaginatedResponse<UserDto[]>;
+        pair!: Pair<UserDto, Status | null>;
+      }
+    `);
+
+    const target = declarations.find(({ name }) => name === 'Target');
+    expect(target).toMatchObject({
+      properties: [
+        {
+          name: 'users',
+          type: { kind: 'reference', name: 'PaginatedResponseOfUserDto' },
+        },
+        {
+          name: 'names',
+          type: { kind: 'reference', name: 'PaginatedResponseOfString' },
+        },
+        {
+          name: 'nested',
+          type: { kind: 'reference', name: 'PaginatedResponseOfUserDtoArray' },
+        },
+        {
+          name: 'pair',
+          type: { kind: 'reference', name: 'PairOfUserDtoAndStatusOrNull' },
+        },
+      ],
+    });
+    expect(
+      declarations.find(({ name }) => name === 'PaginatedResponseOfUserDto'),
+    ).toMatchObject({
+      properties: [
+        {
+          name: 'items',
+          type: {
+            kind: 'array',
+            elementType: { kind: 'reference', name: 'UserDto' },
+          },
+        },
+        { name: 'total', type: { kind: 'primitive', type: 'number' } },
+      ],
+    });
+    expect(
+      declarations.find(({ name }) => name === 'PaginatedResponseOfString'),
+    ).toMatchObject({
+      properties: [
+        {
+          name: 'items',
+          type: {
+            kind: 'array',
+            elementType: { kind: 'primitive', type: 'string' },
+          },
+        },
+        { name: 'total' },
+      ],
+    });
+  });
+
+  it('should rename the types having the name of another one', () => {
+    const { type, declarations, diagnostics } = resolveTarget(`
+      namespace Users {
+        export class ItemDto { id!: number; }
+      }
+      namespace Orders {
+        export class ItemDto { sku!: string; }
+      }
+      class Target {
+        user!: Users.ItemDto;
+        order!: Orders.ItemDto;
+        again!: Users.ItemDto;
+      }
+    `);
+
+    expect(type).toEqual({ kind: 'reference', name: 'Target' });
+    expect(
+      declarations.map(({ name, ...declaration }) => [
+        name,
+        declaration.kind === 'object' &&
+          declaration.properties.map((property) => property.name),
+      ]),
+    ).toEqual([
+      ['Item2Dto', ['sku']],
+      ['ItemDto', ['id']],
+      ['Target', ['user', 'order', 'again']],
+    ]);
+    expect(diagnostics).toMatchObject([
+      {
+        code: 'duplicate-type-name',
+        line: 6,
+        message:
+          'Another type is named ItemDto; this one is generated as Item2Dto',
+      },
+    ]);
+  });
+
+  it('should resolve utility types to their shapes', () => {
+    const { declarations } = resolveTarget(`
+      class User {
+        id!: number;
+        email!: string;
+        password!: string;
+      }
+
+      export class Target {
+        partial!: Partial<User>;
+        picked!: Pick<User, 'id' | 'email'>;
+        omitted!: Omit<User, 'password'>;
+      }
+    `);
+
+    expect(declarations.find(({ name }) => name === 'Target')).toMatchObject({
+      properties: [
+        {
+          name: 'partial',
+          type: {
+            kind: 'object',
+            properties: [
+              { name: 'id', optional: true },
+              { name: 'email', optional: true },
+              { name: 'password', optional: true },
+            ],
+          },
+        },
+        {
+          name: 'picked',
+          type: {
+            kind: 'object',
+            properties: [
+              { name: 'id', optional: false },
+              { name: 'email', optional: false },
+            ],
+          },
+        },
+        {
+          name: 'omitted',
+          type: {
+            kind: 'object',
+            properties: [{ name: 'id' }, { name: 'email' }],
+          },
+        },
+      ],
+    });
+  });
+
+  it('should resolve intersections to the properties of their members', () => {
+    const { declarations } = resolveTarget(`
+      class Page {
+        total!: number;
+      }
+      interface Meta {
+        cursor?: string;
+      }
+      type Paged<T> = { items: T[] } & Meta;
+
+      export class Target {
+        extended!: Page & { extra: boolean };
+        paged!: Paged<Page>;
+        email!: string & { __brand: 'Email' };
+      }
+    `);
+
+    expect(declarations.find(({ name }) => name === 'Target')).toMatchObject({
+      properties: [
+        {
+          name: 'extended',
+          type: {
+            kind: 'object',
+            properties: [
+              { name: 'total', type: { kind: 'primitive', type: 'number' } },
+              { name: 'extra', type: { kind: 'primitive', type: 'boolean' } },
+            ],
+          },
+        },
+        {
+          name: 'paged',
+          type: { kind: 'reference', name: 'PagedOfPage' },
+        },
+        { name: 'email', type: { kind: 'primitive', type: 'string' } },
+      ],
+    });
+    expect(
+      declarations.find(({ name }) => name === 'PagedOfPage'),
+    ).toMatchObject({
+      properties: [
+        {
+          name: 'items',
+          type: {
+            kind: 'array',
+            elementType: { kind: 'reference', name: 'Page' },
+          },
+        },
+        { name: 'cursor', optional: true },
+      ],
+    });
+  });
+
+  it('should resolve the NestJS mapped types classes extend', () => {
+    const { declarations } = resolveTarget(`
+      import {
+        IntersectionType,
+        OmitType,
+        PartialType,
+        PickType,
+      } from '@nestjs/mapped-types';
+
+      class CreateUserDto {
+        /** Display name */
+        name!: string;
+        email!: string;
+        password!: string;
+      }
+      class AddressDto {
+        city!: string;
+      }
+
+      class UpdateUserDto extends PartialType(
+        OmitType(CreateUserDto, ['password'] as const),
+      ) {}
+      class LoginDto extends PickType(CreateUserDto, ['email', 'password']) {
+        remember?: boolean;
+      }
+      class CreateUserWithAddressDto extends IntersectionType(
+        CreateUserDto,
+        AddressDto,
+      ) {}
+
+      export class Target {
+        update!: UpdateUserDto;
+        login!: LoginDto;
+        create!: CreateUserWithAddressDto;
+      }
+    `);
+
+    const find = (name: string) =>
+      declarations.find((declaration) => declaration.name === name);
+    expect(find('UpdateUserDto')).toMatchObject({
+      properties: [
+        { name: 'name', optional: true, description: 'Display name' },
+        { name: 'email', optional: true },
+      ],
+    });
+    expect(find('UpdateUserDto')).toHaveProperty('properties.length', 2);
+    expect(find('LoginDto')).toMatchObject({
+      properties: [
+        { name: 'email', optional: false },
+        { name: 'password', optional: false },
+        { name: 'remember', optional: true },
+      ],
+    });
+    expect(find('CreateUserWithAddressDto')).toMatchObject({
+      properties: [
+        { name: 'name' },
+        { name: 'email' },
+        { name: 'password' },
+        { name: 'city' },
+      ],
+    });
+  });
+});
@@ -0,0 +1,212 @@
+import { mkdtemp, writeFile, mkdir, rm } from 'fs/promises';
+import { join, relative } from 'path';
+import { tmpdir } from 'os';
+import { AnalysisReport, analyzeCommand } from '../../src/commands/analyze';
+
+describe('analyzeCommand', () => {
+  let tempDir: string;
+  let consoleLog: jest.SpyInstance;
+  let consoleError: jest.SpyInstance;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'test-'));
+    consoleLog = jest.spyOn(console, 'log').mockImplementation(() => {});
+    consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    consoleLog.mockRestore();
+    consoleError.mockRestore();
+    process.exitCode = undefined;
+    if (tempDir) {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  const writeProject = async (files: Record<string, string>) => {
+    const srcDir = join(tempDir, 'src');
+    await mkdir(srcDir, { recursive: true });
+    for (const [name, content] of Object.entries(files)) {
+      await writeFile(join(srcDir, name), content);
+    }
+
+    const tsconfigPath = join(tempDir, 'tsconfig.json');
+    await writeFile(
+      tsconfigPath,
+      JSON.stringify({
+        compilerOptions: {
+          experimentalDecorators: true,
+          rootDir: tempDir,
+          noResolve: true,
+          types: [],
+          lib: [],
+        },
+      }),
+    );
+    return tsconfigPath;
+  };
+
+  const usersController = `import { Body, Controller, Get, Post } from '@nestjs/common';
+
+export class CreateUserDto {
+  name!: string;
+}
+
+@Controller('users')
+export class UsersController {
+  @Get()
+  findAll() {}
+
+  @Post(['', 'register'])
+  create(@Body() body: CreateUserDto) {}
+
+  @Get(123)
+  broken() {}
+}
+`;
+
+  it('should print the model and diagnostics as JSON', async () => {
+    const src = await writeProject({ 'users.controller.ts': usersController });
+
+    await analyzeCommand({ src, json: true });
+
+    expect(consoleLog).toHaveBeenCalledTimes(1);
+    const report = JSON.parse(
+      consoleLog.mock.calls.flat().join('\n'),
+    ) as AnalysisReport;
+    const fileName = relative(
+      process.cwd(),
+      join(tempDir, 'src/users.controller.ts'),
+    );
+    expect(report).toMatchObject({
+      version: 1,
+      controllers: [
+        {
+          name: 'UsersController',
+          fileName,
+          line: 7,
+          path: ['users'],
+          routes: [
+            {
+              name: 'findAll',
+              line: 9,
+              httpMethod: 'GET',
+              fullPath: ['/users'],
+              parameters: [],
+            },
+            {
+              name: 'create',
+              line: 12,
+              httpMethod: 'POST',
+              fullPath: ['/users', '/users/register'],
+              parameters: [
+                {
+                  name: 'body',
+                  source: 'body',
+                  type: { kind: 'reference', name: 'CreateUserDto' },
+                },
+              ],
+            },
+          ],
+        },
+      ],
+      types: [{ kind: 'object', name: 'CreateUserDto', fileName }],
+      diagnostics: [
+        {
+          severity: 'error',
+          code: 'invalid-route-decorator',
+          fileName,
+          line: 15,
+        },
+      ],
+    });
+    expect(consoleError).not.toHaveBeenCalled();
+  });
+
+  it('should list the routes of every controller', async () => {
+    const src = await writeProject({ 'users.controller.ts': usersController });
+
+    await analyzeCommand({ src, failOn: 'error' });
+
+    const fileName = relative(
+      process.cwd(),
+      join(tempDir, 'src/users.controller.ts'),
+    );
+    expect(consoleLog).toHaveBeenCalledWith(
+      `UsersController (${fileName}:7)
+  GET     /users  UsersController.findAll
+  POST    /users  UsersController.create
+  POST    /users/register  UsersController.create`,
+    );
+    expect(consoleError).toHaveBeenCalledTimes(1);
+    expect(process.exitCode).toBe(1);
+  });
+
+  it('should list the types of shared libraries once', async () => {
+    const files: Record<string, unknown> = {
+      'nest-cli.json': {
+        monorepo: true,
+        projects: {
+          api: { type: 'application', root: 'apps/api' },
+          admin: { type: 'application', root: 'apps/admin' },
+        },
+      },
+      'apps/api/tsconfig.app.json': {
+        compilerOptions: { types: [], lib: [] },
+        include: ['src', '../../libs'],
+      },
+      'apps/api/src/users.controller.ts': `
+        import { Controller, Get } from '@nestjs/common';
+        import { UserDto } from '../../../libs/user.dto';
+
+        @Controller('users')
+        export class UsersController {
+          @Get()
+          findAll(): UserDto { return new UserDto(); }
+        }
+      `,
+      'apps/admin/tsconfig.app.json': {
+        compilerOptions: { types: [], lib: [] },
+        include: ['src', '../../libs'],
+      },
+      'apps/admin/src/admins.controller.ts': `
+        import { Controller, Get } from '@nestjs/common';
+        import { UserDto } from '../../../libs/user.dto';
+
+        @Controller('admins')
+        export class AdminsController {
+          @Get()
+          findAll(): UserDto { return new UserDto(); }
+        }
+      `,
+      'libs/user.dto.ts': 'export class UserDto { name!: string; }',
+      'nest-dto-generator.config.json': { nestCli: 'nest-cli.json' },
+    };
+    for (const [name, content] of Object.entries(files)) {
+      await mkdir(join(tempDir, name, '..'), { recursive: true });
+      await writeFile(
+        join(tempDir, name),
+        typeof content === 'string' ? content : JSON.stringify(content),
+      );
+    }
+
+    await analyzeCommand({
+      config: join(tempDir, 'nest-dto-generator.config.json'),
+      json: true,
+    });
+
+    const report = JSON.parse(
+      consoleLog.mock.calls.flat().join('\n'),
+    ) as AnalysisReport;
+    expect(report.controllers.map(({ app, name }) => ({ app, name }))).toEqual([
+      { app: 'api', name: 'UsersController' },
+      { app: 'admin', name: 'AdminsController' },
+    ]);
+    expect(report.types).toMatchObject([
+      {
+        name: 'UserDto',
+        fileName: relative(process.cwd(), join(tempDir, 'libs/user.dto.ts')),
+      },
+    ]);
+  });
+});
@@ -0,0 +1,112 @@
+import { mkdtemp, writeFile, mkdir, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { checkCommand } from '../../src/commands/check';
+import { generateCommand } from '../../src/commands/generate';
+
+describe('checkCommand', () => {
+  let tempDir: string;
+  let consoleLog: jest.SpyInstance;
+  let consoleError: jest.SpyInstance;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'test-'));
+    consoleLog = jest.spyOn(console, 'log').mockImplementation(() => {});
+    consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    consoleLog.mockRestore();
+    consoleError.mockRestore();
+    process.exitCode = undefined;
+    if (tempDir) {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  const controller = (path: string) => `
+    import { Controller, Get } from '@nestjs/common';
+
+    @Controller('${path}')
+    export class UsersController {
+      @Get()
+      findAll() {}
+    }
+  `;
+
+  const writeProject = async (files: Record<string, string>) => {
+    const srcDir = join(tempDir, 'src');
+    await mkdir(srcDir, { recursive: true });
+    for (const [name, content] of Object.entries(files)) {
+      await writeFile(join(srcDir, name), content);
+    }
+
+    const tsconfigPath = join(tempDir, 'tsconfig.json');
+    await writeFile(
+      tsconfigPath,
+      JSON.stringify({
+        compilerOptions: {
+          experimentalDecorators: true,
+          rootDir: tempDir,
+          noResolve: true,
+          types: [],
+          lib: [],
+        },
+      }),
+    );
+    return { src: tsconfigPath, out: join(tempDir, 'generated') };
+  };
+
+  it('should pass when the generated files are up to date', async () => {
+    const options = await writeProject({
+      'users.controller.ts': controller('users'),
+    });
+    await generateCommand({ ...options, format: ['routes'] });
+
+    await checkCommand({ ...options, format: ['routes'] });
+
+    expect(consoleLog).not.toHaveBeenCalled();
+    expect(process.exitCode).toBeUndefined();
+  });
+
+  it('should print a diff and fail when the generated files are stale', async () => {
+    const options = await writeProject({
+      'users.controller.ts': controller('users'),
+    });
+    await generateCommand({ ...options, format: ['routes'] });
+    await writeProject({ 'users.controller.ts': controller('members') });
+
+    await checkCommand({ ...options, format: ['routes', 'zod'] });
+
+    const diff = consoleLog.mock.calls.flat().join('\n');
+    expect(diff).toMatch(/^--- a\/.*generated\/routes\.ts$/m);
+    expect(diff).toMatch(/^\+\+\+ b\/.*generated\/routes\.ts$/m);
+    expect(diff).toContain('-  path: ["users"],');
+    expect(diff).toContain('+  path: ["members"],');
+    // Missing files are diffed against an empty file
+    expect(diff).toMatch(/^--- \/dev\/null\n\+\+\+ b\/.*zod\/schemas\.ts$/m);
+    expect(consoleError.mock.calls.flat().join('\n')).toContain(
+      '2 generated file(s) are out of date',
+    );
+    expect(process.exitCode).toBe(1);
+  });
+
+  it('should report the files of the output directory that are not generated', async () => {
+    const options = await writeProject({
+      'users.controller.ts': controller('users'),
+    });
+    await generateCommand({ ...options, format: ['routes', 'zod'] });
+
+    await checkCommand({ ...options, format: ['routes'] });
+
+    const diff = consoleLog.mock.calls.flat().join('\n');
+    expect(diff).toMatch(
+      /^--- a\/.*generated\/zod\/schemas\.ts\n\+\+\+ \/dev\/null$/m,
+    );
+    expect(diff).not.toContain('routes.ts');
+    expect(consoleError.mock.calls.flat().join('\n')).toContain(
+      '1 file(s) of the output directory are not generated; remove them',
+    );
+    expect(process.exitCode).toBe(1);
+  });
+});
@@ -0,0 +1,716 @@
+import {
+  mkdtemp,
+  writeFile,
+  mkdir,
+  rm,
+  readFile,
+  stat,
+  utimes,
+} from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  generateCommand,
+  resolveGenerateSettings,
+  watchProjects,
+} from '../../src/commands/generate';
+
+describe('generateCommand', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'test-'));
+  });
+
+  afterEach(async () => {
+    if (tempDir) {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  const writeProject = async (
+    files: Record<string, string>,
+    compilerOptions: Record<string, unknown> = {},
+  ) => {
+    const srcDir = join(tempDir, 'src');
+    await mkdir(srcDir);
+    for (const [name, content] of Object.entries(files)) {
+      await writeFile(join(srcDir, name), content);
+    }
+
+    const tsconfigPath = join(tempDir, 'tsconfig.json');
+    await writeFile(
+      tsconfigPath,
+      JSON.stringify(
+        {
+          compilerOptions: {
+            target: 'es2016',
+            module: 'commonjs',
+            experimentalDecorators: true,
+            emitDecoratorMetadata: true,
+            rootDir: tempDir,
+            skipLibCheck: true,
+            noResolve: true,
+            types: [],
+            lib: [],
+            ...compilerOptions,
+          },
+        },
+        null,
+        2,
+      ),
+    );
+    return tsconfigPath;
+  };
+
+  it('should write class-validator DTOs by default', async () => {
+    const tsconfigPath = await writeProject({
+      'users.controller.ts': `
+        import { Body, Controller, Post } from '@nestjs/common';
+
+        export class CreateUserDto {
+          name!: string;
+        }
+
+        @Controller('users')
+        export class UsersController {
+          @Post()
+          create(@Body() body: CreateUserDto) {}
+        }
+      `,
+    });
+    const outDir = join(tempDir, 'generated');
+
+    await generateCommand({ src: tsconfigPath, out: outDir });
+
+    const dto = await readFile(join(outDir, 'dto/create-user.dto.ts'), 'utf-8');
+    expect(dto).toContain('export class CreateUserDto {');
+    expect(dto).toContain('@IsString()');
+    const index = await readFile(join(outDir, 'dto/index.ts'), 'utf-8');
+    expect(index).toContain("export * from './create-user.dto';");
+  });
+
+  it('should validate optional and nullable enums under strict mode', async () => {
+    const tsconfigPath = await writeProject(
+      {
+        'users.controller.ts': `
+          import { Body, Controller, Post } from '@nestjs/common';
+
+          export enum Role {
+            Admin = 'admin',
+            User = 'user',
+          }
+
+          export class CreateUserDto {
+            role?: Role;
+            previousRole!: Role | null;
+          }
+
+          @Controller('users')
+          export class UsersController {
+            @Post()
+            create(@Body() body: CreateUserDto) {}
+          }
+        `,
+      },
+      { strict: true },
+    );
+    const outDir = join(tempDir, 'generated');
+
+    await generateCommand({ src: tsconfigPath, out: outDir });
+
+    const dto = await readFile(join(outDir, 'dto/create-user.dto.ts'), 'utf-8');
+    expect(dto).toContain('  @IsOptional()\n  @IsEnum(Role)\n  role?: Role;');
+    expect(dto).toContain(
+      '  @ValidateIf((o) => o.previousRole !== null)\n  @IsEnum(Role)\n  previousRole!: null | Role;',
+    );
+  });
+
+  it('should declare the members of named unions once', async () => {
+    const tsconfigPath = await writeProject(
+      {
+        'draw.controller.ts': `
+          import { Body, Controller, Post } from '@nestjs/common';
+
+          export type Shape =
+            | { kind: 'circle'; radius: number }
+            | { kind: 'square'; side: number };
+
+          export class DrawDto {
+            shape!: Shape;
+            shapes?: Shape[];
+          }
+
+          @Controller('draw')
+          export class DrawController {
+            @Post()
+            draw(@Body() body: DrawDto) {}
+          }
+        `,
+      },
+      { strict: true, lib: ['es2020'] },
+    );
+    const outDir = join(tempDir, 'generated');
+
+    await generateCommand({
+      src: tsconfigPath,
+      out: outDir,
+      format: ['class-validator', 'zod'],
+    });
+
+    const dto = await readFile(join(outDir, 'dto/draw.dto.ts'), 'utf-8');
+    const shape = await readFile(join(outDir, 'dto/shape.type.ts'), 'utf-8');
+    const zod = await readFile(join(outDir, 'zod/schemas.ts'), 'utf-8');
+    expect(dto).toContain("import type { Shape } from './shape.type';");
+    expect(dto).toContain('  shape!: Shape;');
+    expect(dto).toContain('  shapes?: Shape[];');
+    expect(dto.match(/subTypes: \[\{ value: ShapeCircleDto/g)).toHaveLength(2);
+    expect(shape).toContain(
+      'export type Shape = ShapeCircleDto | ShapeSquareDto;',
+    );
+    expect(zod).toContain(
+      "export const Shape = z.discriminatedUnion('kind', [ShapeCircleDto, ShapeSquareDto]);",
+    );
+    expect(zod).toContain('  shapes: z.array(Shape).optional(),');
+    expect(zod).not.toContain('DrawShape');
+  });
+
+  it('should write generated files to the output directory', async () => {
+    const tsconfigPath = await writeProject({
+      'users.controller.ts': `
+        import { Controller, Get } from '@nestjs/common';
+
+        @Controller('users')
+        export class UsersController {
+          @Get(':id')
+          findOne() {
+            return {};
+          }
+        }
+
+        export class NotAController {}
+      `,
+    });
+    const outDir = join(tempDir, 'generated');
+
+    await generateCommand({
+      src: tsconfigPath,
+      out: outDir,
+      format: ['routes'],
+    });
+
+    const routes = await readFile(join(outDir, 'routes.ts'), 'utf-8');
+    expect(routes).toContain('export const UsersController = {');
+    expect(routes).toContain('path: ["users"],');
+    expect(routes).toContain(
+      'findOne: { method: "GET", path: ["/users/:id"] },',
+    );
+    expect(routes).not.toContain('NotAController');
+  });
+
+  it('should key the routes of handlers with several route decorators by method', async () => {
+    const tsconfigPath = await writeProject({
+      'users.controller.ts': `
+        import { Controller, Get, Head } from '@nestjs/common';
+
+        @Controller('users')
+        export class UsersController {
+          @Get(':id')
+          @Head(':id')
+          findOne() {}
+        }
+      `,
+    });
+    const outDir = join(tempDir, 'generated');
+
+    await generateCommand({
+      src: tsconfigPath,
+      out: outDir,
+      format: ['routes'],
+    });
+
+    const routes = await readFile(join(outDir, 'routes.ts'), 'utf-8');
+    expect(routes).toContain(
+      'findOneGet: { method: "GET", path: ["/users/:id"] },',
+    );
+    expect(routes).toContain(
+      'findOneHead: { method: "HEAD", path: ["/users/:id"] },',
+    );
+  });
+
+  it('should give distinct names to controllers having the same name', async () => {
+    const tsconfigPath = await writeProject({
+      'users.controller.ts': `
+        import { Controller, Get } from '@nestjs/common';
+
+        export namespace V1 {
+          @Controller('v1/users')
+          export class UsersController {
+            @Get()
+            findAll() {}
+          }
+        }
+
+        export namespace V2 {
+          @Controller('v2/users')
+          export class UsersController {
+            @Get()
+            findAll() {}
+          }
+        }
+      `,
+      'legacy.controller.ts': `
+        import { Controller, Get } from '@nestjs/common';
+
+        @Controller('legacy/users')
+        export class UsersController {
+          @Get()
+          findAll() {}
+        }
+      `,
+      'members.controller.ts': `
+        import { Controller, Get } from '@nestjs/common';
+
+        @Controller('members')
+        export class UsersController {
+          @Get()
+          findAll() {}
+        }
+      `,
+    });
+    const outDir = join(tempDir, 'generated');
+
+    await generateCommand({
+      src: tsconfigPath,
+      out: outDir,
+      format: ['routes', 'client'],
+    });
+
+    const routes = await readFile(join(outDir, 'routes.ts'), 'utf-8');
+    expect(routes.match(/export const \w+/g)).toEqual([
+      'export const UsersController',
+      'export const Users2Controller',
+      'export const V1UsersController',
+      'export const V2UsersController',
+    ]);
+    expect(routes).toContain(
+      'findAll: { method: "GET", path: ["/v2/users"] },',
+    );
+    const index = await readFile(join(outDir, 'client/index.ts'), 'utf-8');
+    expect(index).toContain('    v1Users: createV1UsersApi(transport),');
+    expect(index).toContain('    v2Users: createV2UsersApi(transport),');
+  });
+
+  it('should leave files whose content did not change untouched', async () => {
+    const tsconfigPath = await writeProject({
+      'users.controller.ts': `
+        import { Controller, Get } from '@nestjs/common';
+
+        @Controller('users')
+        export class UsersController {
+          @Get()
+          findAll() {}
+        }
+      `,
+    });
+    const outDir = join(tempDir, 'generated');
+    const routesPath = join(outDir, 'routes.ts');
+    const options = { src: tsconfigPath, out: outDir };
+
+    await generateCommand({ ...options, format: ['routes'] });
+    const past = new Date(2000, 0, 1);
+    await utimes(routesPath, past, past);
+    await generateCommand({ ...options, format: ['routes'] });
+
+    expect((await stat(routesPath)).mtime).toEqual(past);
+  });
+
+  it('should save the analyses and print the profile when asked', async () => {
+    const tsconfigPath = await writeProject({
+      'users.controller.ts': `
+        import { Controller, Get } from '@nestjs/common';
+
+        @Controller('users')
+        export class UsersController {
+          @Get()
+          findAll() {}
+        }
+      `,
+    });
+    const outDir = join(tempDir, 'generated');
+    const cacheFile = join(tempDir, '.cache', 'analysis.json');
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const options = {
+      src: tsconfigPath,
+      out: outDir,
+      format: ['routes' as const],
+      cache: cacheFile,
+      profile: true,
+    };
+
+    try {
+      await generateCommand(options);
+      const saved = JSON.parse(await readFile(cacheFile, 'utf-8')) as {
+        files: Record<string, unknown>;
+      };
+      expect(Object.keys(saved.files)).toEqual([
+        join(tempDir, 'src', 'users.controller.ts'),
+      ]);
+      expect(error.mock.calls.flat().join('\n')).toMatch(/analyze files .* 1/);
+
+      error.mockClear();
+      await generateCommand(options);
+      const profile = error.mock.calls.flat().join('\n');
+      expect(profile).toMatch(/reuse files .* 1/);
+      expect(profile).not.toContain('analyze files');
+    } finally {
+      error.mockRestore();
+    }
+  });
+
+  it('should read settings from a config file with CLI options first', async () => {
+    await writeProject({
+      'users.controller.ts': `
+        import { Controller, Get } from '@nestjs/common';
+
+        @Controller('users')
+        export class UsersController {
+          @Get()
+          findAll() {}
+        }
+
+        @Controller('health')
+        export class HealthController {
+          @Get()
+          check() {}
+        }
+      `,
+      'legacy.controller.ts': `
+        import { Controller, Get } from '@nestjs/common';
+
+        @Controller('legacy')
+        export class LegacyController {
+          @Get()
+          findAll() {}
+        }
+      `,
+    });
+    const configPath = join(tempDir, 'nest-dto-generator.config.json');
+    await writeFile(
+      configPath,
+      JSON.stringify({
+        tsconfig: 'tsconfig.json',
+        out: 'generated',
+        formats: ['openapi'],
+        exclude: ['src/legacy.controller.ts'],
+        controllers: {
+          UsersController: { path: 'members' },
+          HealthController: { skip: true },
+        },
+      }),
+    );
+
+    await generateCommand({ config: configPath, format: ['routes'] });
+
+    const routes = await readFile(
+      join(tempDir, 'generated/routes.ts'),
+      'utf-8',
+    );
+    expect(routes).toContain('findAll: { method: "GET", path: ["/members"] },');
+    expect(routes).not.toContain('HealthController');
+    expect(routes).not.toContain('LegacyController');
+  });
+
+  it('should name anonymous types with the configured suffix', async () => {
+    await writeProject({
+      'users.controller.ts': `
+        import { Body, Controller, Post } from '@nestjs/common';
+
+        @Controller('users')
+        export class UsersController {
+          @Post()
+          create(@Body() body: { name: string }) {}
+        }
+      `,
+    });
+    const configPath = join(tempDir, 'nest-dto-generator.config.json');
+    await writeFile(
+      configPath,
+      JSON.stringify({
+        tsconfig: 'tsconfig.json',
+        out: 'generated',
+        naming: { dtoSuffix: 'Request' },
+      }),
+    );
+
+    await generateCommand({ config: configPath });
+
+    const dto = await readFile(
+      join(tempDir, 'generated/dto/users-create-body-request.dto.ts'),
+      'utf-8',
+    );
+    expect(dto).toContain('export class UsersCreateBodyRequest {');
+  });
+
+  describe('diagnostics', () => {
+    let consoleError: jest.SpyInstance;
+
+    beforeEach(() => {
+      consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      consoleError.mockRestore();
+      process.exitCode = undefined;
+    });
+
+    const files = {
+      'users.controller.ts': `
+        import { Controller, Get } from '@nestjs/common';
+
+        @Controller('users')
+        export class UsersController {
+          @Get()
+          findAll() {}
+        }
+
+        @Controller(getPath())
+        export class BrokenController {
+          @Get()
+          findAll() {}
+        }
+      `,
+    };
+
+    it('should report invalid controllers and generate the others', async () => {
+      const tsconfigPath = await writeProject(files);
+      const outDir = join(tempDir, 'generated');
+
+      await generateCommand({
+        src: tsconfigPath,
+        out: outDir,
+        format: ['routes'],
+      });
+
+      const routes = await readFile(join(outDir, 'routes.ts'), 'utf-8');
+      expect(routes).toContain('export const UsersController = {');
+      expect(routes).not.toContain('BrokenController');
+
+      const output = consoleError.mock.calls.flat().join('\n');
+      expect(output).toMatch(
+        /users\.controller\.ts:10:9 - error invalid-controller-decorator: .*BrokenController is skipped/,
+      );
+      expect(output).toContain('@Controller(getPath())');
+      expect(process.exitCode).toBeUndefined();
+    });
+
+    it('should exit with a non-zero code when configured', async () => {
+      const tsconfigPath = await writeProject(files);
+
+      await generateCommand({
+        src: tsconfigPath,
+        out: join(tempDir, 'generated'),
+        format: ['routes'],
+        failOn: 'error',
+      });
+
+      expect(process.exitCode).toBe(1);
+    });
+  });
+
+  describe('in a Nest monorepo', () => {
+    const controller = (name: string) => `
+      import { Controller, Get } from '@nestjs/common';
+      import { UserDto } from '@app/common';
+
+      @Controller('${name}')
+      export class ${name[0].toUpperCase() + name.slice(1)}Controller {
+        @Get()
+        findAll(): UserDto {
+          return new UserDto();
+        }
+      }
+    `;
+
+    const writeMonorepo = async () => {
+      const files: Record<string, unknown> = {
+        'nest-cli.json': {
+          monorepo: true,
+          root: 'apps/api',
+          projects: {
+            api: {
+              type: 'application',
+              root: 'apps/api',
+              compilerOptions: { tsConfigPath: 'apps/api/tsconfig.app.json' },
+            },
+            admin: { type: 'application', root: 'apps/admin' },
+            common: { type: 'library', root: 'libs/common' },
+          },
+        },
+        'tsconfig.json': {
+          compilerOptions: {
+            experimentalDecorators: true,
+            skipLibCheck: true,
+            types: [],
+            lib: [],
+            baseUrl: '.',
+            paths: { '@app/common': ['libs/common/src'] },
+          },
+        },
+        'apps/api/tsconfig.app.json': {
+          extends: '../../tsconfig.json',
+          include: ['src'],
+        },
+        'apps/api/src/users.controller.ts': controller('users'),
+        'apps/api/src/profile.controller.ts': `
+          import { Controller, Get } from '@nestjs/common';
+          import { UserDto } from '@app/common';
+
+          export class ProfileDto {
+            user!: UserDto;
+          }
+
+          @Controller('profile')
+          export class ProfileController {
+            @Get()
+            find(): ProfileDto {
+              return new ProfileDto();
+            }
+          }
+        `,
+        'apps/admin/tsconfig.app.json': {
+          extends: '../../tsconfig.json',
+          include: ['src'],
+        },
+        'apps/admin/src/admins.controller.ts': controller('admins'),
+        'libs/common/src/index.ts': 'export class UserDto { name!: string; }',
+        'nest-dto-generator.config.json': {
+          out: 'generated',
+          nestCli: 'nest-cli.json',
+          formats: ['routes', 'class-validator'],
+        },
+      };
+      for (const [name, content] of Object.entries(files)) {
+        await mkdir(join(tempDir, name, '..'), { recursive: true });
+        await writeFile(
+          join(tempDir, name),
+          typeof content === 'string' ? content : JSON.stringify(content),
+        );
+      }
+      return join(tempDir, 'nest-dto-generator.config.json');
+    };
+
+    it('should generate the files of every app in its own directory', async () => {
+      const configPath = await writeMonorepo();
+
+      await generateCommand({ config: configPath });
+
+      const read = (path: string) =>
+        readFile(join(tempDir, 'generated', path), 'utf-8');
+      expect(await read('api/routes.ts')).toContain(
+        'export const UsersController = {',
+      );
+      expect(await read('api/routes.ts')).not.toContain('AdminsController');
+      expect(await read('admin/routes.ts')).toContain(
+        'export const AdminsController = {',
+      );
+      expect(await read('api/dto/profile.dto.ts')).toContain(
+        'export class ProfileDto {',
+      );
+    });
+
+    it('should generate the DTOs the apps have alike once', async () => {
+      const configPath = await writeMonorepo();
+
+      await generateCommand({ config: configPath });
+
+      const read = (path: string) =>
+        readFile(join(tempDir, 'generated', path), 'utf-8');
+      expect(await read('shared/dto/user.dto.ts')).toContain(
+        'export class UserDto {',
+      );
+      await expect(
+        stat(join(tempDir, 'generated/api/dto/user.dto.ts')),
+      ).rejects.toThrow();
+      await expect(
+        stat(join(tempDir, 'generated/admin/dto/user.dto.ts')),
+      ).rejects.toThrow();
+      expect(await read('api/dto/profile.dto.ts')).toContain(
+        "import { UserDto } from '../../shared/dto/user.dto';",
+      );
+      expect(await read('api/dto/index.ts')).toContain(
+        "export * from '../../shared/dto/user.dto';\nexport * from './profile.dto';",
+      );
+      expect(await read('admin/dto/index.ts')).toContain(
+        "export * from '../../shared/dto/user.dto';",
+      );
+    });
+
+    it('should generate the files of the selected apps', async () => {
+      const configPath = await writeMonorepo();
+
+      await generateCommand({ config: configPath, project: ['admin'] });
+
+      await expect(
+        stat(join(tempDir, 'generated/admin/routes.ts')),
+      ).resolves.toBeDefined();
+      await expect(
+        stat(join(tempDir, 'generated/api/routes.ts')),
+      ).rejects.toThrow();
+      await expect(
+        generateCommand({ config: configPath, project: ['web'] }),
+      ).rejects.toThrow(
+        'Unknown project(s) web; the applications of nest-cli.json are api, admin',
+      );
+    });
+
+    it('should generate again the files of the app whose controller changed under watch', async () => {
+      const configPath = await writeMonorepo();
+      const consoleLog = jest
+        .spyOn(console, 'log')
+        .mockImplementation(() => {});
+      // Resolves once the watch has reported the given number of updates
+      const updated = async (count: number) => {
+        for (let wait = 0; wait < 10_000; wait += 50) {
+          if (consoleLog.mock.calls.length >= count) return;
+          await new Promise((resolve) => setTimeout(resolve, 50));
+        }
+        throw new Error(`Expected ${count} update(s) of the watch`);
+      };
+
+      const close = watchProjects(
+        await resolveGenerateSettings({ config: configPath }),
+      );
+      try {
+        await updated(1);
+        const path = (path: string) => join(tempDir, 'generated', path);
+        const past = new Date(2000, 0, 1);
+        for (const unchanged of ['admin/routes.ts', 'api/dto/profile.dto.ts']) {
+          await utimes(path(unchanged), past, past);
+        }
+
+        await writeFile(
+          join(tempDir, 'apps/api/src/users.controller.ts'),
+          controller('users').replace('findAll', 'findOne'),
+        );
+        await updated(2);
+
+        expect(consoleLog.mock.calls[1][0]).toContain('Updated 1 file(s).');
+        expect(await readFile(path('api/routes.ts'), 'utf-8')).toContain(
+          'findOne: { method: "GET", path: ["/users"] },',
+        );
+        // The admin app is generated from its program of the first run
+        expect(await readFile(path('admin/routes.ts'), 'utf-8')).toContain(
+          'export const AdminsController = {',
+        );
+        expect((await stat(path('admin/routes.ts'))).mtime).toEqual(past);
+        expect((await stat(path('api/dto/profile.dto.ts'))).mtime).toEqual(
+          past,
+        );
+      } finally {
+        close();
+        consoleLog.mockRestore();
+      }
+    });
+  });
+});
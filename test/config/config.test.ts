@@ -0,0 +1,139 @@
+import { mkdtemp, writeFile, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { InvalidConfigError, loadConfig } from '../../src/config/config';
+
+describe('config', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'test-'));
+  });
+
+  afterEach(async () => {
+    if (tempDir) {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should load a JSON config relative to its directory', async () => {
+    const configPath = join(tempDir, 'nest-dto-generator.config.json');
+    await writeFile(
+      configPath,
+      JSON.stringify({
+        tsconfig: 'tsconfig.json',
+        out: './generated',
+        include: ['src/**/*.controller.ts'],
+        formats: ['zod', 'openapi'],
+        naming: { dtoSuffix: 'Request' },
+        cache: '.cache/analysis.json',
+        controllers: {
+          UsersController: { path: 'members' },
+          HealthController: { skip: true },
+        },
+      }),
+    );
+
+    const config = await loadConfig(configPath);
+
+    expect(config).toEqual({
+      tsconfig: join(tempDir, 'tsconfig.json'),
+      out: join(tempDir, 'generated'),
+      include: [`${tempDir}/src/**/*.controller.ts`],
+      formats: ['zod', 'openapi'],
+      naming: { dtoSuffix: 'Request' },
+      cache: join(tempDir, '.cache/analysis.json'),
+      controllers: {
+        UsersController: { path: ['members'] },
+        HealthController: { skip: true },
+      },
+    });
+  });
+
+  it('should load the default export of a TypeScript config', async () => {
+    await writeFile(
+      join(tempDir, 'nest-dto-generator.config.ts'),
+      `
+        import { join } from 'path';
+
+        const formats: string[] = ['routes'];
+
+        export default {
+          tsconfig: join('apps', 'api', 'tsconfig.json'),
+          out: 'generated',
+          formats,
+          swagger: true,
+        };
+      `,
+    );
+    const cwd = process.cwd();
+    process.chdir(tempDir);
+    try {
+      const config = await loadConfig();
+
+      expect(config).toMatchObject({
+        tsconfig: join(tempDir, 'apps/api/tsconfig.json'),
+        out: join(tempDir, 'generated'),
+        formats: ['routes'],
+        swagger: true,
+      });
+    } finally {
+      process.chdir(cwd);
+    }
+  });
+
+  it('should load nothing without a config file', async () => {
+    const cwd = process.cwd();
+    process.chdir(tempDir);
+    try {
+      expect(await loadConfig()).toEqual({});
+    } finally {
+      process.chdir(cwd);
+    }
+  });
+
+  it('should list every invalid option', async () => {
+    const configPath = join(tempDir, 'nest-dto-generator.config.json');
+    await writeFile(
+      configPath,
+      JSON.stringify({
+        out: 1,
+        formats: ['class-validator', 'graphql'],
+        ouput: 'generated',
+        naming: { suffix: 'Dto' },
+        decorators: { ApiController: 'Controllers' },
+        controllers: { UsersController: { path: 1 }, HealthController: true },
+      }),
+    );
+
+    const error = await loadConfig(configPath).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(InvalidConfigError);
+    const { message } = error as InvalidConfigError;
+    expect(message).toContain('"out" must be a string');
+    expect(message).toMatch(/"formats" must be an array of class-validator, /);
+    expect(message).toContain('"ouput" is not a known option');
+    expect(message).toContain('"naming.suffix" is not a known option');
+    expect(message).toMatch(
+      /"decorators.ApiController" must be one of Controller, /,
+    );
+    expect(message).toContain(
+      '"controllers.UsersController.path" must be a string or string array',
+    );
+    expect(message).toContain(
+      '"controllers.HealthController" must be an object',
+    );
+  });
+
+  it('should report config files that cannot be loaded', async () => {
+    const configPath = join(tempDir, 'nest-dto-generator.config.json');
+    await writeFile(configPath, '{ out: ');
+
+    await expect(loadConfig(configPath)).rejects.toThrow(
+      /Cannot load config .*nest-dto-generator\.config\.json/,
+    );
+    await expect(loadConfig(join(tempDir, 'missing.json'))).rejects.toThrow(
+      InvalidConfigError,
+    );
+  });
+});
@@ -0,0 +1,28 @@
+import { globToRegExp, matchesGlob } from '../../src/config/glob';
+
+describe('glob', () => {
+  it('should match single and multiple path segments', () => {
+    expect(globToRegExp('src/*.ts').test('src/app.ts')).toBe(true);
+    expect(globToRegExp('src/*.ts').test('src/users/app.ts')).toBe(false);
+    expect(globToRegExp('src/**/*.ts').test('src/app.ts')).toBe(true);
+    expect(globToRegExp('src/**/*.ts').test('src/users/v1/app.ts')).toBe(true);
+    expect(globToRegExp('src/?.ts').test('src/a.ts')).toBe(true);
+  });
+
+  it('should match alternatives and escape special characters', () => {
+    const regExp = globToRegExp('**/*.{controller,resolver}.ts');
+
+    expect(regExp.test('src/users.controller.ts')).toBe(true);
+    expect(regExp.test('src/users.resolver.ts')).toBe(true);
+    expect(regExp.test('src/users.service.ts')).toBe(false);
+    expect(regExp.test('src/usersXcontrollerXts')).toBe(false);
+  });
+
+  it('should match any of the patterns', () => {
+    const patterns = ['./src/**/*.controller.ts', 'legacy/*.ts'];
+
+    expect(matchesGlob('src/users/users.controller.ts', patterns)).toBe(true);
+    expect(matchesGlob('legacy/users.ts', patterns)).toBe(true);
+    expect(matchesGlob('test/users.controller.spec.ts', patterns)).toBe(false);
+  });
+});
@@ -0,0 +1,80 @@
+import { mkdtemp, writeFile, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { InvalidConfigError } from '../../src/config/config';
+import { loadNestProjects } from '../../src/config/nest-cli';
+
+describe('nest-cli', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'test-'));
+  });
+
+  afterEach(async () => {
+    if (tempDir) {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  const writeNestCli = async (content: unknown) => {
+    const fileName = join(tempDir, 'nest-cli.json');
+    await writeFile(
+      fileName,
+      typeof content === 'string' ? content : JSON.stringify(content),
+    );
+    return fileName;
+  };
+
+  it('should load the apps and libraries of a monorepo', async () => {
+    const fileName = await writeNestCli({
+      monorepo: true,
+      projects: {
+        api: {
+          type: 'application',
+          root: 'apps/api',
+          compilerOptions: { tsConfigPath: 'apps/api/tsconfig.build.json' },
+        },
+        admin: { type: 'application', root: 'apps/admin' },
+        common: { type: 'library', root: 'libs/common' },
+      },
+    });
+
+    expect(await loadNestProjects(fileName)).toEqual([
+      {
+        name: 'api',
+        type: 'application',
+        root: join(tempDir, 'apps/api'),
+        tsconfig: join(tempDir, 'apps/api/tsconfig.build.json'),
+      },
+      {
+        name: 'admin',
+        type: 'application',
+        root: join(tempDir, 'apps/admin'),
+        tsconfig: join(tempDir, 'apps/admin/tsconfig.app.json'),
+      },
+      {
+        name: 'common',
+        type: 'library',
+        root: join(tempDir, 'libs/common'),
+        tsconfig: join(tempDir, 'libs/common/tsconfig.lib.json'),
+      },
+    ]);
+  });
+
+  it('should load nothing outside of a monorepo', async () => {
+    expect(await loadNestProjects(join(tempDir, 'nest-cli.json'))).toBe(
+      undefined,
+    );
+    const fileName = await writeNestCli({ sourceRoot: 'src' });
+    expect(await loadNestProjects(fileName)).toBe(undefined);
+  });
+
+  it('should report files that are not JSON', async () => {
+    const fileName = await writeNestCli('{ monorepo: true');
+
+    await expect(loadNestProjects(fileName)).rejects.toThrow(
+      InvalidConfigError,
+    );
+  });
+});
@@ -0,0 +1,70 @@
+import ts from 'typescript';
+import {
+  createDiagnostic,
+  formatDiagnostics,
+  hasDiagnosticsOfSeverity,
+} from '../../src/diagnostics/diagnostics';
+
+describe('diagnostics', () => {
+  const sourceFile = ts.createSourceFile(
+    '/project/src/users.controller.ts',
+    [
+      "import { Controller } from '@nestjs/common';",
+      '',
+      '@Controller(getPath())',
+      'export class UsersController {}',
+    ].join('\n'),
+    ts.ScriptTarget.Latest,
+    true,
+  );
+  const decorator = ts.getDecorators(
+    sourceFile.statements[1] as ts.ClassDeclaration,
+  )![0];
+
+  it('should locate a diagnostic at a node', () => {
+    const diagnostic = createDiagnostic(
+      decorator,
+      'error',
+      'invalid-controller-decorator',
+      'Controller decorator path must be a string',
+    );
+
+    expect(diagnostic).toEqual({
+      severity: 'error',
+      code: 'invalid-controller-decorator',
+      message: 'Controller decorator path must be a string',
+      fileName: '/project/src/users.controller.ts',
+      line: 3,
+      column: 1,
+      end: { line: 3, column: 23 },
+      snippet: ['@Controller(getPath())'],
+    });
+  });
+
+  it('should format diagnostics with their code context', () => {
+    const diagnostic = createDiagnostic(
+      decorator.expression,
+      'warning',
+      'some-warning',
+      'Something is off',
+    );
+
+    expect(formatDiagnostics([diagnostic], { cwd: '/project' })).toBe(
+      [
+        'src/users.controller.ts:3:2 - warning some-warning: Something is off',
+        '',
+        '3 @Controller(getPath())',
+        '   ~~~~~~~~~~~~~~~~~~~~~',
+      ].join('\n'),
+    );
+  });
+
+  it('should compare severities', () => {
+    const warning = createDiagnostic(decorator, 'warning', 'w', 'w');
+    const error = createDiagnostic(decorator, 'error', 'e', 'e');
+
+    expect(hasDiagnosticsOfSeverity([warning], 'warning')).toBe(true);
+    expect(hasDiagnosticsOfSeverity([warning], 'error')).toBe(false);
+    expect(hasDiagnosticsOfSeverity([warning, error], 'error')).toBe(true);
+  });
+});
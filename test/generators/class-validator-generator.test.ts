@@ -0,0 +1,515 @@
+import { generateClassValidatorDtos } from '../../src/generators/class-validator-generator';
+import {
+  ApiModel,
+  RouteModel,
+  TypeDeclaration,
+} from '../../src/models/api-model';
+
+describe('class-validator-generator', () => {
+  const route = (overrides: Partial<RouteModel>): RouteModel => ({
+    name: 'create',
+    httpMethod: 'POST',
+    path: [],
+    fullPath: ['/users'],
+    parameters: [],
+    response: {
+      type: { kind: 'primitive', type: 'void' },
+      isArray: false,
+      named: false,
+    },
+    ...overrides,
+  });
+
+  const model: ApiModel = {
+    controllers: [
+      {
+        name: 'UsersController',
+        fileName: '/src/users.controller.ts',
+        path: ['users'],
+        routes: [
+          route({
+            parameters: [
+              {
+                name: 'body',
+                source: 'body',
+                type: { kind: 'reference', name: 'CreateUserDto' },
+                optional: false,
+              },
+            ],
+          }),
+          route({
+            name: 'stats',
+            httpMethod: 'GET',
+            response: {
+              type: {
+                kind: 'object',
+                properties: [
+                  {
+                    name: 'total',
+                    type: { kind: 'primitive', type: 'number' },
+                    optional: false,
+                  },
+                ],
+              },
+              isArray: false,
+              named: false,
+            },
+          }),
+        ],
+      },
+    ],
+    types: [
+      {
+        kind: 'object',
+        name: 'AddressDto',
+        fileName: '/src/users.dto.ts',
+        properties: [
+          {
+            name: 'city',
+            type: { kind: 'primitive', type: 'string' },
+            optional: false,
+          },
+        ],
+      },
+      {
+        kind: 'object',
+        name: 'CreateUserDto',
+        fileName: '/src/users.dto.ts',
+        description: 'Payload to create a user',
+        properties: [
+          {
+            name: 'name',
+            type: { kind: 'primitive', type: 'string' },
+            optional: false,
+            description: 'Display name of the user',
+          },
+          {
+            name: 'age',
+            type: { kind: 'primitive', type: 'number' },
+            optional: true,
+            tags: { integer: '' },
+          },
+          {
+            name: 'role',
+            type: { kind: 'reference', name: 'Role' },
+            optional: false,
+          },
+          {
+            name: 'tags',
+            type: {
+              kind: 'array',
+              elementType: { kind: 'primitive', type: 'string' },
+            },
+            optional: false,
+          },
+          {
+            name: 'addresses',
+            type: {
+              kind: 'array',
+              elementType: { kind: 'reference', name: 'AddressDto' },
+            },
+            optional: false,
+          },
+          {
+            name: 'birthday',
+            type: {
+              kind: 'union',
+              types: [{ kind: 'date' }, { kind: 'primitive', type: 'null' }],
+            },
+            optional: false,
+          },
+          {
+            name: 'settings',
+            type: {
+              kind: 'object',
+              properties: [
+                {
+                  name: 'theme',
+                  type: {
+                    kind: 'union',
+                    types: [
+                      { kind: 'literal', value: 'light' },
+                      { kind: 'literal', value: 'dark' },
+                    ],
+                  },
+                  optional: false,
+                },
+              ],
+            },
+            optional: true,
+          },
+          {
+            name: 'metadata',
+            type: { kind: 'primitive', type: 'unknown' },
+            optional: false,
+          },
+        ],
+      },
+      {
+        kind: 'enum',
+        name: 'Role',
+        fileName: '/src/users.dto.ts',
+        members: [
+          { name: 'Admin', value: 'admin' },
+          { name: 'User', value: 'user' },
+        ],
+      },
+    ],
+  };
+
+  it('should generate a DTO file for every declaration', () => {
+    const files = generateClassValidatorDtos(model);
+
+    expect(files.map(({ path }) => path)).toEqual([
+      'dto/address.dto.ts',
+      'dto/create-user.dto.ts',
+      'dto/create-user-settings.dto.ts',
+      'dto/role.enum.ts',
+      'dto/users-stats-response.dto.ts',
+      'dto/index.ts',
+    ]);
+  });
+
+  it('should decorate properties with class-validator decorators', () => {
+    const files = generateClassValidatorDtos(model);
+    const dto = files.find(({ path }) => path === 'dto/create-user.dto.ts')!;
+
+    expect(dto.content).toBe(
+      `// This file is generated by nest-dto-generator. Do not edit manually.
+
+import { Type } from 'class-transformer';
+import { IsArray, IsDate, IsDefined, IsEnum, IsInt, IsOptional, IsString, ValidateIf, ValidateNested } from 'class-validator';
+import { AddressDto } from './address.dto';
+import { CreateUserSettingsDto } from './create-user-settings.dto';
+import { Role } from './role.enum';
+
+/** Payload to create a user */
+export class CreateUserDto {
+  /** Display name of the user */
+  @IsString()
+  name!: string;
+
+  @IsOptional()
+  @IsInt()
+  age?: number;
+
+  @IsEnum(Role)
+  role!: Role;
+
+  @IsArray()
+  @IsString({ each: true })
+  tags!: string[];
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => AddressDto)
+  addresses!: AddressDto[];
+
+  @ValidateIf((o) => o.birthday !== null)
+  @IsDate()
+  @Type(() => Date)
+  birthday!: Date | null;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => CreateUserSettingsDto)
+  settings?: CreateUserSettingsDto;
+
+  @IsDefined()
+  metadata!: unknown;
+}
+`,
+    );
+  });
+
+  it('should emit hoisted anonymous types, enums and an index', () => {
+    const files = generateClassValidatorDtos(model);
+    const content = (path: string) =>
+      files.find((file) => file.path === path)!.content;
+
+    expect(content('dto/create-user-settings.dto.ts')).toContain(
+      `export class CreateUserSettingsDto {
+  @IsIn(['light', 'dark'])
+  theme!: 'light' | 'dark';
+}`,
+    );
+    expect(content('dto/users-stats-response.dto.ts')).toContain(
+      `export class UsersStatsResponseDto {
+  @IsNumber()
+  total!: number;
+}`,
+    );
+    expect(content('dto/role.enum.ts')).toContain(
+      `export enum Role {
+  Admin = 'admin',
+  User = 'user',
+}`,
+    );
+    expect(content('dto/index.ts')).toContain(
+      "export * from './address.dto';\nexport * from './create-user-settings.dto';",
+    );
+  });
+
+  it('should give declarations whose module names clash their own files', () => {
+    const files = generateClassValidatorDtos({
+      controllers: [],
+      types: [
+        {
+          kind: 'object',
+          name: 'User',
+          fileName: '/src/user.ts',
+          properties: [],
+        },
+        {
+          kind: 'object',
+          name: 'UserDto',
+          fileName: '/src/user.dto.ts',
+          properties: [
+            {
+              name: 'user',
+              type: { kind: 'reference', name: 'User' },
+              optional: false,
+            },
+          ],
+        },
+      ],
+    });
+    const content = (path: string) =>
+      files.find((file) => file.path === path)!.content;
+
+    expect(files.map(({ path }) => path)).toEqual([
+      'dto/user.dto.ts',
+      'dto/user-2.dto.ts',
+      'dto/index.ts',
+    ]);
+    expect(content('dto/user.dto.ts')).toContain('export class User {');
+    expect(content('dto/user-2.dto.ts')).toContain(
+      "import { User } from './user.dto';",
+    );
+    expect(content('dto/user-2.dto.ts')).toContain('export class UserDto {');
+    expect(content('dto/index.ts')).toContain(
+      "export * from './user-2.dto';\nexport * from './user.dto';",
+    );
+  });
+
+  it('should import the declarations generated elsewhere', () => {
+    const files = generateClassValidatorDtos(
+      {
+        controllers: [],
+        types: [
+          {
+            kind: 'enum',
+            name: 'Role',
+            fileName: '/libs/common/role.ts',
+            members: [{ name: 'Admin', value: 'admin' }],
+          },
+          {
+            kind: 'object',
+            name: 'UserDto',
+            fileName: '/apps/api/user.dto.ts',
+            properties: [
+              {
+                name: 'role',
+                type: { kind: 'reference', name: 'Role' },
+                optional: false,
+              },
+            ],
+          },
+        ],
+      },
+      { modules: new Map([['Role', '../../shared/dto/role.enum']]) },
+    );
+    const content = (path: string) =>
+      files.find((file) => file.path === path)!.content;
+
+    expect(files.map(({ path }) => path)).toEqual([
+      'dto/user.dto.ts',
+      'dto/index.ts',
+    ]);
+    expect(content('dto/user.dto.ts')).toContain(
+      "import { Role } from '../../shared/dto/role.enum';",
+    );
+    expect(content('dto/user.dto.ts')).toContain('@IsEnum(Role)');
+    expect(content('dto/index.ts')).toContain(
+      "export * from '../../shared/dto/role.enum';\nexport * from './user.dto';",
+    );
+  });
+
+  it('should keep the flags of @Matches() patterns', () => {
+    const [dto] = generateClassValidatorDtos({
+      controllers: [],
+      types: [
+        {
+          kind: 'object',
+          name: 'WordDto',
+          fileName: '/src/word.dto.ts',
+          properties: [
+            {
+              name: 'word',
+              type: { kind: 'primitive', type: 'string' },
+              optional: false,
+              pattern: '^[a-z]+$',
+              patternFlags: 'i',
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(dto.content).toContain('@Matches(/^[a-z]+$/i)');
+  });
+
+  it('should decorate properties with @ApiProperty in swagger mode', () => {
+    const files = generateClassValidatorDtos(
+      {
+        controllers: [],
+        types: [
+          {
+            kind: 'object',
+            name: 'ListUsersQueryDto',
+            fileName: '/src/users.dto.ts',
+            properties: [
+              {
+                name: 'limit',
+                type: { kind: 'primitive', type: 'number' },
+                optional: true,
+                description: 'Page size',
+                tags: { integer: '', example: '50' },
+                default: 20,
+              },
+              {
+                name: 'roles',
+                type: {
+                  kind: 'array',
+                  elementType: { kind: 'reference', name: 'Role' },
+                },
+                optional: false,
+              },
+              {
+                name: 'manager',
+                type: {
+                  kind: 'union',
+                  types: [
+                    { kind: 'reference', name: 'ManagerDto' },
+                    { kind: 'primitive', type: 'null' },
+                  ],
+                },
+                optional: false,
+              },
+            ],
+          },
+          {
+            kind: 'object',
+            name: 'ManagerDto',
+            fileName: '/src/users.dto.ts',
+            properties: [],
+          },
+          {
+            kind: 'enum',
+            name: 'Role',
+            fileName: '/src/users.dto.ts',
+            members: [{ name: 'Admin', value: 'admin' }],
+          },
+        ],
+      },
+      { swagger: true },
+    );
+    const dto = files.find(
+      ({ path }) => path === 'dto/list-users-query.dto.ts',
+    )!;
+
+    expect(dto.content).toContain(
+      "import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';",
+    );
+    expect(dto.content).toContain(
+      `  /** Page size */
+  @ApiPropertyOptional({ description: 'Page size', type: 'integer', example: 50, default: 20 })
+  @IsOptional()
+  @IsInt()
+  limit?: number;
+
+  @ApiProperty({ enum: Role, enumName: 'Role', isArray: true })
+  @IsArray()
+  @IsEnum(Role, { each: true })
+  roles!: Role[];
+
+  @ApiProperty({ type: () => ManagerDto, nullable: true })
+  @ValidateIf((o) => o.manager !== null)
+  @ValidateNested()
+  @Type(() => ManagerDto)
+  manager!: ManagerDto | null;`,
+    );
+  });
+
+  it('should pick the class of a discriminated union by its discriminator', () => {
+    const payment = (name: string, kind: string): TypeDeclaration => ({
+      kind: 'object',
+      name,
+      fileName: '/src/payments.dto.ts',
+      properties: [
+        {
+          name: 'kind',
+          type: { kind: 'literal', value: kind },
+          optional: false,
+        },
+      ],
+    });
+    const files = generateClassValidatorDtos({
+      controllers: [],
+      types: [
+        payment('CardPaymentDto', 'card'),
+        payment('BankPaymentDto', 'bank'),
+        {
+          kind: 'object',
+          name: 'CreateOrderDto',
+          fileName: '/src/orders.dto.ts',
+          properties: [
+            {
+              name: 'payment',
+              type: {
+                kind: 'union',
+                types: [
+                  { kind: 'reference', name: 'CardPaymentDto' },
+                  { kind: 'reference', name: 'BankPaymentDto' },
+                ],
+                discriminator: {
+                  propertyName: 'kind',
+                  values: ['card', 'bank'],
+                },
+              },
+              optional: false,
+            },
+            {
+              name: 'status',
+              type: {
+                kind: 'union',
+                types: [
+                  { kind: 'literal', value: 'open' },
+                  { kind: 'literal', value: 'paid' },
+                  { kind: 'primitive', type: 'null' },
+                ],
+              },
+              optional: false,
+            },
+          ],
+        },
+      ],
+    });
+    const dto = files.find(({ path }) => path === 'dto/create-order.dto.ts')!;
+
+    expect(dto.content).toContain(
+      `export class CreateOrderDto {
+  @ValidateNested()
+  @Type(() => Object, { discriminator: { property: 'kind', subTypes: [{ value: CardPaymentDto, name: 'card' }, { value: BankPaymentDto, name: 'bank' }] }, keepDiscriminatorProperty: true })
+  payment!: CardPaymentDto | BankPaymentDto;
+
+  @ValidateIf((o) => o.status !== null)
+  @IsIn(['open', 'paid'])
+  status!: 'open' | 'paid' | null;
+}`,
+    );
+    expect(dto.content).toContain(
+      "import { CardPaymentDto } from './card-payment.dto';",
+    );
+  });
+});
@@ -0,0 +1,358 @@
+import ts from 'typescript';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { generateClient } from '../../src/generators/client-generator';
+import { ApiModel } from '../../src/models/api-model';
+
+describe('client-generator', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(
+      path.join(os.tmpdir(), 'nest-dto-generator-test-'),
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const model: ApiModel = {
+    controllers: [
+      {
+        name: 'UsersController',
+        fileName: '/src/users.controller.ts',
+        path: ['users'],
+        routes: [
+          {
+            name: 'findAll',
+            httpMethod: 'GET',
+            path: [],
+            fullPath: ['/users'],
+            parameters: [
+              {
+                name: 'query',
+                source: 'query',
+                type: { kind: 'reference', name: 'ListUsersQueryDto' },
+                optional: false,
+              },
+            ],
+            response: {
+              type: {
+                kind: 'array',
+                elementType: { kind: 'reference', name: 'UserDto' },
+              },
+              isArray: true,
+              named: true,
+            },
+          },
+          {
+            name: 'findOne',
+            httpMethod: 'GET',
+            path: [':id'],
+            fullPath: ['/users/:id'],
+            parameters: [
+              {
+                name: 'id',
+                source: 'param',
+                key: 'id',
+                type: { kind: 'primitive', type: 'number' },
+                optional: false,
+              },
+              {
+                name: 'requestId',
+                source: 'headers',
+                key: 'x-request-id',
+                type: { kind: 'primitive', type: 'string' },
+                optional: true,
+              },
+            ],
+            response: {
+              type: { kind: 'reference', name: 'UserDto' },
+              isArray: false,
+              named: true,
+            },
+          },
+          {
+            name: 'create',
+            httpMethod: 'POST',
+            path: [],
+            fullPath: ['/users'],
+            parameters: [
+              {
+                name: 'body',
+                source: 'body',
+                type: {
+                  kind: 'object',
+                  properties: [
+                    {
+                      name: 'name',
+                      type: { kind: 'primitive', type: 'string' },
+                      optional: false,
+                    },
+                  ],
+                },
+                optional: false,
+              },
+            ],
+            response: {
+              type: { kind: 'reference', name: 'UserDto' },
+              isArray: false,
+              named: true,
+            },
+          },
+          {
+            name: 'removePost',
+            httpMethod: 'DELETE',
+            path: [':id/posts/:postId'],
+            fullPath: ['/users/:id/posts/:postId'],
+            parameters: [],
+            response: {
+              type: { kind: 'primitive', type: 'void' },
+              isArray: false,
+              named: false,
+            },
+          },
+          {
+            name: 'proxy',
+            httpMethod: 'ALL',
+            path: ['proxy'],
+            fullPath: ['/users/proxy'],
+            parameters: [],
+            response: {
+              type: { kind: 'primitive', type: 'unknown' },
+              isArray: false,
+              named: false,
+            },
+          },
+        ],
+      },
+      {
+        name: 'HealthController',
+        fileName: '/src/health.controller.ts',
+        path: ['health'],
+        routes: [
+          {
+            name: 'check',
+            httpMethod: 'GET',
+            path: [],
+            fullPath: ['/health'],
+            parameters: [],
+            response: {
+              type: { kind: 'primitive', type: 'string' },
+              isArray: false,
+              named: false,
+            },
+          },
+        ],
+      },
+    ],
+    types: [
+      {
+        kind: 'object',
+        name: 'ListUsersQueryDto',
+        fileName: '/src/users.dto.ts',
+        properties: [
+          {
+            name: 'role',
+            type: { kind: 'reference', name: 'Role' },
+            optional: true,
+          },
+        ],
+      },
+      {
+        kind: 'enum',
+        name: 'Role',
+        fileName: '/src/users.dto.ts',
+        members: [
+          { name: 'Admin', value: 'admin' },
+          { name: 'User', value: 'user' },
+        ],
+      },
+      {
+        kind: 'object',
+        name: 'UserDto',
+        fileName: '/src/users.dto.ts',
+        properties: [
+          {
+            name: 'id',
+            type: { kind: 'primitive', type: 'number' },
+            optional: false,
+          },
+        ],
+      },
+    ],
+  };
+
+  it('should generate one function per route', () => {
+    const files = generateClient(model);
+
+    expect(files.map(({ path }) => path)).toEqual([
+      'client/transport.ts',
+      'client/types.ts',
+      'client/health.api.ts',
+      'client/users.api.ts',
+      'client/index.ts',
+    ]);
+
+    const users = files.find(({ path }) => path === 'client/users.api.ts')!;
+    expect(users.content).toContain(
+      `    findOne(request: {
+      params: { id: number };
+      headers?: { 'x-request-id'?: string };
+    }): Promise<UserDto> {
+      return transport<UserDto>({
+        method: 'GET',
+        path: \`/users/\${encodeURIComponent(String(request.params['id']))}\`,
+        headers: { ...request.headers },
+      });
+    },`,
+    );
+    expect(users.content).toContain(
+      `    create(request: {
+      body: UsersCreateBodyDto;
+    }): Promise<UserDto> {`,
+    );
+    expect(users.content).toContain(
+      `    removePost(request: {
+      params: { id: string; postId: string };
+    }): Promise<void> {`,
+    );
+
+    const types = files.find(({ path }) => path === 'client/types.ts')!;
+    expect(types.content).toContain("export type Role = 'admin' | 'user';");
+    expect(types.content).toContain(
+      'export interface UsersCreateBodyDto {\n  name: string;\n}',
+    );
+
+    const index = files.find(({ path }) => path === 'client/index.ts')!;
+    expect(index.content).toContain('    users: createUsersApi(transport),');
+  });
+
+  it('should type dates as the ISO strings of JSON payloads', () => {
+    const files = generateClient({
+      controllers: [
+        {
+          ...model.controllers[0],
+          routes: [
+            {
+              ...model.controllers[0].routes[0],
+              parameters: [
+                {
+                  name: 'since',
+                  source: 'query',
+                  key: 'since',
+                  type: { kind: 'date' },
+                  optional: true,
+                },
+              ],
+            },
+          ],
+        },
+      ],
+      types: [
+        {
+          kind: 'object',
+          name: 'UserDto',
+          fileName: '/src/users.dto.ts',
+          properties: [
+            {
+              name: 'createdAt',
+              type: { kind: 'date' },
+              optional: false,
+            },
+          ],
+        },
+      ],
+    });
+
+    const users = files.find(({ path }) => path === 'client/users.api.ts')!;
+    expect(users.content).toContain('query?: { since?: string };');
+    const types = files.find(({ path }) => path === 'client/types.ts')!;
+    expect(types.content).toContain('  createdAt: string;');
+    expect(types.content).not.toContain('Date');
+  });
+
+  /**
+   * Type-check the generated client with a module using it
+   */
+  const typeCheck = (model: ApiModel, usageCode: string) => {
+    const files = generateClient(model);
+    const fileNames = files.map((file) => {
+      const fileName = path.join(tempDir, file.path);
+      fs.mkdirSync(path.dirname(fileName), { recursive: true });
+      fs.writeFileSync(fileName, file.content);
+      return fileName;
+    });
+    const usage = path.join(tempDir, 'usage.ts');
+    fs.writeFileSync(usage, usageCode);
+
+    const program = ts.createProgram([...fileNames, usage], {
+      target: ts.ScriptTarget.ES2020,
+      module: ts.ModuleKind.CommonJS,
+      strict: true,
+      noEmit: true,
+      lib: ['lib.es2020.d.ts', 'lib.dom.d.ts'],
+      types: [],
+    });
+    return ts
+      .getPreEmitDiagnostics(program)
+      .map((diagnostic) =>
+        ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+      );
+  };
+
+  it('should generate a client that type-checks', () => {
+    const diagnostics = typeCheck(
+      model,
+      `
+      import { createApiClient, createFetchTransport } from './client';
+
+      const api = createApiClient(createFetchTransport('http://localhost'));
+      export const user = api.users.findOne({ params: { id: 1 } });
+      export const users = api.users.findAll({ query: { role: 'admin' } });
+      export const health = api.health.check();
+      `,
+    );
+
+    expect(diagnostics).toEqual([]);
+  });
+
+  it('should give distinct names to same-named controllers and routes', () => {
+    const [users] = model.controllers;
+    const findOne = users.routes.find(({ name }) => name === 'findOne')!;
+    const twoUsersModel: ApiModel = {
+      ...model,
+      controllers: [
+        users,
+        {
+          ...users,
+          fileName: '/src/v2/users.controller.ts',
+          routes: [findOne, { ...findOne, httpMethod: 'HEAD' }],
+        },
+      ],
+    };
+
+    expect(generateClient(twoUsersModel).map(({ path }) => path)).toEqual([
+      'client/transport.ts',
+      'client/types.ts',
+      'client/users.api.ts',
+      'client/users2.api.ts',
+      'client/index.ts',
+    ]);
+    const diagnostics = typeCheck(
+      twoUsersModel,
+      `
+      import { createApiClient, createFetchTransport } from './client';
+
+      const api = createApiClient(createFetchTransport('http://localhost'));
+      export const user = api.users.findOne({ params: { id: 1 } });
+      export const v2User = api.users2.findOneGet({ params: { id: 1 } });
+      export const v2Head = api.users2.findOneHead({ params: { id: 1 } });
+      `,
+    );
+
+    expect(diagnostics).toEqual([]);
+  });
+});
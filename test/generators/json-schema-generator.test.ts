@@ -0,0 +1,184 @@
+import { generateJsonSchemas } from '../../src/generators/json-schema-generator';
+import { ApiModel, RouteModel } from '../../src/models/api-model';
+
+describe('json-schema-generator', () => {
+  const route = (
+    name: string,
+    bodyType: string,
+    responseType: string,
+  ): RouteModel => ({
+    name,
+    httpMethod: 'POST',
+    path: [`/${name}`],
+    fullPath: [`/users/${name}`],
+    parameters: [
+      {
+        name: 'body',
+        source: 'body',
+        type: { kind: 'reference', name: bodyType },
+        optional: false,
+      },
+    ],
+    response: {
+      type: { kind: 'reference', name: responseType },
+      isArray: false,
+      named: true,
+    },
+  });
+
+  const model: ApiModel = {
+    controllers: [
+      {
+        name: 'UsersController',
+        fileName: '/src/users.controller.ts',
+        path: ['/users'],
+        routes: [
+          route('create', 'CreateUserDto', 'UserDto'),
+          route('invite', 'InviteUserDto', 'UserDto'),
+        ],
+      },
+    ],
+    types: [
+      {
+        kind: 'object',
+        name: 'CreateUserDto',
+        fileName: '/src/users.dto.ts',
+        properties: [
+          {
+            name: 'slug',
+            type: { kind: 'primitive', type: 'string' },
+            optional: false,
+            pattern: '^[a-z0-9-]+$',
+          },
+          {
+            name: 'word',
+            type: { kind: 'primitive', type: 'string' },
+            optional: true,
+            // Matched regardless of the case, which a pattern cannot express
+            pattern: '^[a-z]+$',
+            patternFlags: 'i',
+          },
+          {
+            name: 'role',
+            type: { kind: 'reference', name: 'Role' },
+            optional: true,
+            default: 'user',
+          },
+          {
+            name: 'address',
+            type: { kind: 'reference', name: 'AddressDto' },
+            optional: false,
+          },
+        ],
+      },
+      {
+        kind: 'object',
+        name: 'InviteUserDto',
+        fileName: '/src/users.dto.ts',
+        properties: [
+          {
+            name: 'role',
+            type: { kind: 'reference', name: 'Role' },
+            optional: false,
+          },
+          {
+            name: 'inviter',
+            type: { kind: 'reference', name: 'UserDto' },
+            optional: false,
+          },
+        ],
+      },
+      {
+        kind: 'object',
+        name: 'UserDto',
+        fileName: '/src/users.dto.ts',
+        properties: [
+          {
+            name: 'kind',
+            type: { kind: 'literal', value: 'user' },
+            optional: false,
+          },
+        ],
+      },
+      {
+        kind: 'object',
+        name: 'AddressDto',
+        fileName: '/src/users.dto.ts',
+        properties: [
+          {
+            name: 'city',
+            type: { kind: 'primitive', type: 'string' },
+            optional: false,
+          },
+        ],
+      },
+      {
+        kind: 'enum',
+        name: 'Role',
+        fileName: '/src/users.dto.ts',
+        members: [
+          { name: 'Admin', value: 'admin' },
+          { name: 'User', value: 'user' },
+        ],
+      },
+    ],
+  };
+
+  const files = generateJsonSchemas(model);
+  const getSchema = (path: string): unknown =>
+    JSON.parse(files.find((file) => file.path === path)!.content);
+
+  it('should generate a schema file for every request and response DTO', () => {
+    expect(files.map(({ path }) => path).sort()).toEqual([
+      'json-schema/CreateUserDto.schema.json',
+      'json-schema/InviteUserDto.schema.json',
+      'json-schema/UserDto.schema.json',
+      'json-schema/shared.schema.json',
+    ]);
+    expect(getSchema('json-schema/UserDto.schema.json')).toEqual({
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      $id: 'UserDto.schema.json',
+      title: 'UserDto',
+      type: 'object',
+      properties: { kind: { const: 'user' } },
+      required: ['kind'],
+    });
+  });
+
+  it('should keep nested types in $defs and share the common ones', () => {
+    expect(getSchema('json-schema/CreateUserDto.schema.json')).toEqual({
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      $id: 'CreateUserDto.schema.json',
+      title: 'CreateUserDto',
+      type: 'object',
+      properties: {
+        slug: { type: 'string', pattern: '^[a-z0-9-]+$' },
+        word: { type: 'string' },
+        role: { $ref: 'shared.schema.json#/$defs/Role', default: 'user' },
+        address: { $ref: '#/$defs/AddressDto' },
+      },
+      required: ['slug', 'address'],
+      $defs: {
+        AddressDto: {
+          title: 'AddressDto',
+          type: 'object',
+          properties: { city: { type: 'string' } },
+          required: ['city'],
+        },
+      },
+    });
+    expect(getSchema('json-schema/InviteUserDto.schema.json')).toMatchObject({
+      properties: {
+        role: { $ref: 'shared.schema.json#/$defs/Role' },
+        inviter: { $ref: 'UserDto.schema.json' },
+      },
+    });
+    expect(getSchema('json-schema/shared.schema.json')).toEqual({
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      $id: 'shared.schema.json',
+      $defs: {
+        Role: { title: 'Role', type: 'string', enum: ['admin', 'user'] },
+      },
+    });
+  });
+});
@@ -0,0 +1,439 @@
+import {
+  buildOpenApiDocument,
+  generateOpenApi,
+  toOpenApiPath,
+} from '../../src/generators/openapi-generator';
+import { ApiModel, TypeModel } from '../../src/models/api-model';
+
+describe('openapi-generator', () => {
+  const model: ApiModel = {
+    controllers: [
+      {
+        name: 'UsersController',
+        fileName: '/src/users.controller.ts',
+        path: ['users'],
+        routes: [
+          {
+            name: 'findAll',
+            httpMethod: 'GET',
+            path: [],
+            fullPath: ['/users'],
+            parameters: [
+              {
+                name: 'query',
+                source: 'query',
+                type: { kind: 'reference', name: 'ListUsersQueryDto' },
+                optional: false,
+              },
+            ],
+            response: {
+              type: {
+                kind: 'array',
+                elementType: { kind: 'reference', name: 'UserDto' },
+              },
+              isArray: true,
+              named: true,
+            },
+          },
+          {
+            name: 'update',
+            httpMethod: 'PATCH',
+            path: [':id'],
+            fullPath: ['/users/:id'],
+            parameters: [
+              {
+                name: 'requestId',
+                source: 'headers',
+                key: 'x-request-id',
+                type: { kind: 'primitive', type: 'string' },
+                optional: true,
+              },
+              {
+                name: 'name',
+                source: 'body',
+                key: 'name',
+                type: { kind: 'primitive', type: 'string' },
+                optional: false,
+              },
+            ],
+            response: {
+              type: { kind: 'primitive', type: 'void' },
+              isArray: false,
+              named: false,
+            },
+          },
+          {
+            name: 'create',
+            httpMethod: 'POST',
+            path: [],
+            fullPath: ['/users'],
+            parameters: [
+              {
+                name: 'body',
+                source: 'body',
+                type: {
+                  kind: 'object',
+                  properties: [
+                    {
+                      name: 'name',
+                      type: { kind: 'primitive', type: 'string' },
+                      optional: false,
+                    },
+                  ],
+                },
+                optional: false,
+              },
+            ],
+            response: {
+              type: { kind: 'reference', name: 'UserDto' },
+              isArray: false,
+              named: true,
+            },
+          },
+        ],
+      },
+    ],
+    types: [
+      {
+        kind: 'object',
+        name: 'ListUsersQueryDto',
+        fileName: '/src/users.dto.ts',
+        properties: [
+          {
+            name: 'limit',
+            type: { kind: 'primitive', type: 'number' },
+            optional: true,
+            description: 'Page size',
+            tags: { integer: '' },
+            default: 20,
+          },
+          {
+            name: 'role',
+            type: { kind: 'reference', name: 'Role' },
+            optional: true,
+          },
+        ],
+      },
+      {
+        kind: 'enum',
+        name: 'Role',
+        fileName: '/src/users.dto.ts',
+        members: [
+          { name: 'Admin', value: 'admin' },
+          { name: 'User', value: 'user' },
+        ],
+      },
+      {
+        kind: 'object',
+        name: 'UserDto',
+        fileName: '/src/users.dto.ts',
+        description: 'A user',
+        properties: [
+          {
+            name: 'id',
+            type: { kind: 'primitive', type: 'number' },
+            optional: false,
+          },
+          {
+            name: 'deletedAt',
+            type: {
+              kind: 'union',
+              types: [{ kind: 'date' }, { kind: 'primitive', type: 'null' }],
+            },
+            optional: true,
+          },
+        ],
+      },
+    ],
+  };
+
+  it('should convert express-style paths', () => {
+    expect(toOpenApiPath('/users/:id/posts/:postId?')).toBe(
+      '/users/{id}/posts/{postId}',
+    );
+  });
+
+  it('should build an OpenAPI 3.1 document', () => {
+    const document = buildOpenApiDocument(model, { title: 'Users API' });
+
+    expect(document).toEqual({
+      openapi: '3.1.0',
+      info: { title: 'Users API', version: '1.0.0' },
+      paths: {
+        '/users': {
+          get: {
+            operationId: 'UsersController_findAll',
+            tags: ['Users'],
+            parameters: [
+              {
+                name: 'limit',
+                in: 'query',
+                required: false,
+                description: 'Page size',
+                schema: { type: 'integer', default: 20 },
+              },
+              {
+                name: 'role',
+                in: 'query',
+                required: false,
+                schema: { $ref: '#/components/schemas/Role' },
+              },
+            ],
+            responses: {
+              '200': {
+                description: '',
+                content: {
+                  'application/json': {
+                    schema: {
+                      type: 'array',
+                      items: { $ref: '#/components/schemas/UserDto' },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          post: {
+            operationId: 'UsersController_create',
+            tags: ['Users'],
+            requestBody: {
+              required: true,
+              content: {
+                'application/json': {
+                  schema: {
+                    $ref: '#/components/schemas/UsersCreateBodyDto',
+                  },
+                },
+              },
+            },
+            responses: {
+              '201': {
+                description: '',
+                content: {
+                  'application/json': {
+                    schema: { $ref: '#/components/schemas/UserDto' },
+                  },
+                },
+              },
+            },
+          },
+        },
+        '/users/{id}': {
+          patch: {
+            operationId: 'UsersController_update',
+            tags: ['Users'],
+            parameters: [
+              {
+                name: 'x-request-id',
+                in: 'header',
+                required: false,
+                schema: { type: 'string' },
+              },
+              {
+                name: 'id',
+                in: 'path',
+                required: true,
+                schema: { type: 'string' },
+              },
+            ],
+            requestBody: {
+              required: true,
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: { name: { type: 'string' } },
+                    required: ['name'],
+                  },
+                },
+              },
+            },
+            responses: { '200': { description: '' } },
+          },
+        },
+      },
+      components: {
+        schemas: {
+          ListUsersQueryDto: {
+            title: 'ListUsersQueryDto',
+            type: 'object',
+            properties: {
+              limit: {
+                type: 'integer',
+                description: 'Page size',
+                default: 20,
+              },
+              role: { $ref: '#/components/schemas/Role' },
+            },
+          },
+          Role: { title: 'Role', type: 'string', enum: ['admin', 'user'] },
+          UserDto: {
+            title: 'UserDto',
+            description: 'A user',
+            type: 'object',
+            properties: {
+              id: { type: 'number' },
+              deletedAt: {
+                anyOf: [
+                  { type: 'string', format: 'date-time' },
+                  { type: 'null' },
+                ],
+              },
+            },
+            required: ['id'],
+          },
+          UsersCreateBodyDto: {
+            title: 'UsersCreateBodyDto',
+            type: 'object',
+            properties: { name: { type: 'string' } },
+            required: ['name'],
+          },
+        },
+      },
+    });
+  });
+
+  it('should tag operations with the tags of @ApiTags', () => {
+    const document = buildOpenApiDocument({
+      ...model,
+      controllers: model.controllers.map((controller) => ({
+        ...controller,
+        tags: ['accounts', 'admin'],
+      })),
+    });
+
+    expect(document).toMatchObject({
+      paths: { '/users': { get: { tags: ['accounts', 'admin'] } } },
+    });
+  });
+
+  it('should write YAML for .yaml file names', () => {
+    const [file] = generateOpenApi(model, { fileName: 'openapi.yaml' });
+
+    expect(file.path).toBe('openapi.yaml');
+    expect(file.content).toMatch(/^openapi: 3\.1\.0\n/);
+    expect(file.content).toContain('  /users/{id}:\n    patch:\n');
+  });
+
+  it('should describe discriminated unions with oneOf and a discriminator', () => {
+    const payment = (kind: string, field: string): TypeModel => ({
+      kind: 'object',
+      properties: [
+        {
+          name: 'kind',
+          type: { kind: 'literal', value: kind },
+          optional: false,
+        },
+        {
+          name: field,
+          type: { kind: 'primitive', type: 'string' },
+          optional: false,
+        },
+      ],
+    });
+    const document = buildOpenApiDocument({
+      controllers: [
+        {
+          name: 'PaymentsController',
+          fileName: '/src/payments.controller.ts',
+          path: ['payments'],
+          routes: [
+            {
+              name: 'create',
+              httpMethod: 'POST',
+              path: [],
+              fullPath: ['/payments'],
+              parameters: [
+                {
+                  name: 'body',
+                  source: 'body',
+                  type: {
+                    kind: 'union',
+                    types: [payment('card', 'cardNo'), payment('bank', 'iban')],
+                    discriminator: {
+                      propertyName: 'kind',
+                      values: ['card', 'bank'],
+                    },
+                  },
+                  optional: false,
+                },
+                {
+                  name: 'status',
+                  source: 'query',
+                  key: 'status',
+                  type: {
+                    kind: 'union',
+                    types: [
+                      { kind: 'literal', value: 'open' },
+                      { kind: 'literal', value: 'paid' },
+                      { kind: 'primitive', type: 'null' },
+                    ],
+                  },
+                  optional: true,
+                },
+              ],
+              response: {
+                type: { kind: 'primitive', type: 'void' },
+                isArray: false,
+                named: false,
+              },
+            },
+          ],
+        },
+      ],
+      types: [],
+    });
+    expect(document).toMatchObject({
+      paths: {
+        '/payments': {
+          post: {
+            parameters: [
+              {
+                name: 'status',
+                in: 'query',
+                required: false,
+                schema: {
+                  type: ['string', 'null'],
+                  enum: ['open', 'paid', null],
+                },
+              },
+            ],
+            requestBody: {
+              content: {
+                'application/json': {
+                  schema: {
+                    oneOf: [
+                      {
+                        $ref: '#/components/schemas/PaymentsCreateBodyCardDto',
+                      },
+                      {
+                        $ref: '#/components/schemas/PaymentsCreateBodyBankDto',
+                      },
+                    ],
+                    discriminator: {
+                      propertyName: 'kind',
+                      mapping: {
+                        card: '#/components/schemas/PaymentsCreateBodyCardDto',
+                        bank: '#/components/schemas/PaymentsCreateBodyBankDto',
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      components: {
+        schemas: {
+          PaymentsCreateBodyBankDto: {
+            title: 'PaymentsCreateBodyBankDto',
+            type: 'object',
+            properties: { kind: { const: 'bank' }, iban: { type: 'string' } },
+            required: ['kind', 'iban'],
+          },
+        },
+      },
+    });
+  });
+});
@@ -0,0 +1,312 @@
+import ts from 'typescript';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { generateTypes } from '../../src/generators/types-generator';
+import { ApiModel, ControllerModel } from '../../src/models/api-model';
+
+describe('types-generator', () => {
+  const controller = (
+    name: string,
+    path: string,
+    response: string,
+    tags?: string[],
+  ): ControllerModel => ({
+    name,
+    fileName: `/src/${path}.controller.ts`,
+    path: [path],
+    ...(tags ? { tags } : {}),
+    routes: [
+      {
+        name: 'findOne',
+        httpMethod: 'GET',
+        path: [':id'],
+        fullPath: [`/${path}/:id`],
+        parameters: [
+          {
+            name: 'id',
+            source: 'param',
+            key: 'id',
+            type: { kind: 'primitive', type: 'number' },
+            optional: false,
+          },
+        ],
+        response: {
+          type: { kind: 'reference', name: response },
+          isArray: false,
+          named: true,
+        },
+      },
+    ],
+  });
+
+  const model: ApiModel = {
+    controllers: [
+      controller('UsersController', 'users', 'UserDto', ['accounts']),
+      controller('AdminsController', 'admins', 'AdminDto', ['accounts']),
+      {
+        ...controller('OrdersController', 'orders', 'OrderDto', ['shop']),
+        routes: [
+          {
+            name: 'create',
+            httpMethod: 'POST',
+            path: [],
+            fullPath: ['/orders'],
+            parameters: [
+              {
+                name: 'body',
+                source: 'body',
+                type: {
+                  kind: 'object',
+                  properties: [
+                    {
+                      name: 'items',
+                      type: {
+                        kind: 'array',
+                        elementType: { kind: 'primitive', type: 'string' },
+                      },
+                      optional: false,
+                    },
+                  ],
+                },
+                optional: false,
+              },
+            ],
+            response: {
+              type: { kind: 'reference', name: 'OrderDto' },
+              isArray: false,
+              named: true,
+            },
+          },
+        ],
+      },
+    ],
+    types: [
+      {
+        kind: 'object',
+        name: 'AdminDto',
+        fileName: '/src/admin.dto.ts',
+        properties: [
+          {
+            name: 'user',
+            type: { kind: 'reference', name: 'UserDto' },
+            optional: false,
+          },
+        ],
+      },
+      {
+        kind: 'object',
+        name: 'OrderDto',
+        fileName: '/src/order.dto.ts',
+        properties: [
+          {
+            name: 'status',
+            type: { kind: 'reference', name: 'OrderStatus' },
+            optional: false,
+          },
+        ],
+      },
+      {
+        kind: 'enum',
+        name: 'OrderStatus',
+        fileName: '/src/order.dto.ts',
+        members: [
+          { name: 'Open', value: 'open' },
+          { name: 'Closed', value: 'closed' },
+        ],
+      },
+      {
+        kind: 'object',
+        name: 'UserDto',
+        fileName: '/src/user.dto.ts',
+        description: 'A registered user',
+        properties: [
+          {
+            name: 'name',
+            type: { kind: 'primitive', type: 'string' },
+            optional: false,
+          },
+        ],
+      },
+    ],
+  };
+
+  const getContents = (groupBy?: 'controller' | 'tag') =>
+    new Map(
+      generateTypes(model, { groupBy }).map(({ path, content }) => [
+        path,
+        content,
+      ]),
+    );
+
+  it('should emit one module per controller with the types shared by several in shared.ts', () => {
+    const contents = getContents();
+
+    expect([...contents.keys()]).toEqual([
+      'types/shared.ts',
+      'types/admins.types.ts',
+      'types/orders.types.ts',
+      'types/users.types.ts',
+      'types/index.ts',
+    ]);
+
+    const shared = contents.get('types/shared.ts')!;
+    expect(shared).toContain('/** A registered user */');
+    expect(shared).toContain('export interface UserDto {\n  name: string;\n}');
+    expect(shared).not.toContain('AdminDto');
+
+    const users = contents.get('types/users.types.ts')!;
+    expect(users).toContain("import type { UserDto } from './shared';");
+    expect(users).toContain(
+      '/** GET /users/:id */\nexport interface UsersFindOneRequest {\n  params: { id: number };\n}',
+    );
+    expect(users).toContain(
+      '/** GET /users/:id */\nexport type UsersFindOneResponse = UserDto;',
+    );
+
+    const admins = contents.get('types/admins.types.ts')!;
+    expect(admins).toContain("import type { UserDto } from './shared';");
+    expect(admins).toContain(
+      'export interface AdminDto {\n  user: UserDto;\n}',
+    );
+
+    const orders = contents.get('types/orders.types.ts')!;
+    expect(orders).not.toContain('import');
+    expect(orders).toContain("export type OrderStatus = 'open' | 'closed';");
+    expect(orders).toContain('export interface OrdersCreateBodyDto {');
+    expect(orders).toContain(
+      'export interface OrdersCreateRequest {\n  body: OrdersCreateBodyDto;\n}',
+    );
+
+    expect(contents.get('types/index.ts')).toContain(
+      [
+        "export * from './shared';",
+        "export * from './admins.types';",
+        "export * from './orders.types';",
+        "export * from './users.types';",
+      ].join('\n'),
+    );
+  });
+
+  it('should group the types by the first tag of each controller', () => {
+    const contents = getContents('tag');
+
+    expect([...contents.keys()]).toEqual([
+      'types/accounts.types.ts',
+      'types/shop.types.ts',
+      'types/index.ts',
+    ]);
+    const accounts = contents.get('types/accounts.types.ts')!;
+    expect(accounts).not.toContain('import');
+    expect(accounts).toContain('export interface UserDto {');
+    expect(accounts).toContain('export interface AdminDto {');
+    expect(accounts).toContain('export type UsersFindOneResponse = UserDto;');
+    expect(accounts).toContain('export type AdminsFindOneResponse = AdminDto;');
+  });
+
+  it('should not import any runtime dependency', () => {
+    const contents = [...getContents().values()].join('\n');
+
+    expect(contents).not.toMatch(/import (?!type )/);
+    expect(contents).not.toContain('class-validator');
+    expect(contents).not.toContain('class-transformer');
+    expect(contents).not.toContain('export class');
+  });
+
+  it('should give distinct names to the types of same-named controllers and routes', () => {
+    const [users] = model.controllers;
+    const [findOne] = users.routes;
+    const files = generateTypes({
+      ...model,
+      controllers: [
+        users,
+        {
+          ...users,
+          fileName: '/src/v2/users.controller.ts',
+          routes: [findOne, { ...findOne, httpMethod: 'HEAD' }],
+        },
+      ],
+    });
+
+    expect(files.map(({ path }) => path)).toEqual([
+      'types/shared.ts',
+      'types/users.types.ts',
+      'types/users2.types.ts',
+      'types/index.ts',
+    ]);
+    const users2 = files.find(({ path }) => path === 'types/users2.types.ts')!;
+    expect(users2.content).toContain('export type Users2FindOneGetResponse');
+    expect(users2.content).toContain('export type Users2FindOneHeadResponse');
+
+    const tempDir = fs.mkdtempSync(
+      path.join(os.tmpdir(), 'nest-dto-generator-test-'),
+    );
+    try {
+      const fileNames = files.map((file) => {
+        const fileName = path.join(tempDir, file.path);
+        fs.mkdirSync(path.dirname(fileName), { recursive: true });
+        fs.writeFileSync(fileName, file.content);
+        return fileName;
+      });
+      const program = ts.createProgram(fileNames, {
+        strict: true,
+        noEmit: true,
+        lib: ['lib.es2020.d.ts'],
+        types: [],
+      });
+      expect(
+        ts
+          .getPreEmitDiagnostics(program)
+          .map(({ messageText }) =>
+            ts.flattenDiagnosticMessageText(messageText, '\n'),
+          ),
+      ).toEqual([]);
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should type dates as the ISO strings of JSON payloads', () => {
+    const [users] = generateTypes({
+      controllers: [
+        {
+          name: 'UsersController',
+          fileName: '/src/users.controller.ts',
+          path: ['users'],
+          routes: [
+            {
+              name: 'lastLogin',
+              httpMethod: 'GET',
+              path: ['last-login'],
+              fullPath: ['/users/last-login'],
+              parameters: [],
+              response: {
+                type: {
+                  kind: 'object',
+                  properties: [
+                    { name: 'at', type: { kind: 'date' }, optional: false },
+                  ],
+                },
+                isArray: false,
+                named: false,
+              },
+            },
+          ],
+        },
+      ],
+      types: [],
+    });
+
+    expect(users.content).toContain(
+      'export interface UsersLastLoginResponseDto {\n  at: string;\n}',
+    );
+  });
+
+  it('should emit an empty module without controllers', () => {
+    const files = generateTypes({ controllers: [], types: [] });
+
+    expect(files).toHaveLength(1);
+    expect(files[0].path).toBe('types/index.ts');
+    expect(files[0].content).toContain('export {};');
+  });
+});
@@ -0,0 +1,216 @@
+import { generateZodSchemas } from '../../src/generators/zod-generator';
+import { ApiModel } from '../../src/models/api-model';
+
+describe('zod-generator', () => {
+  const model: ApiModel = {
+    controllers: [],
+    types: [
+      {
+        kind: 'object',
+        name: 'CreateUserDto',
+        fileName: '/src/users.dto.ts',
+        description: 'Payload to create a user',
+        properties: [
+          {
+            name: 'name',
+            type: { kind: 'primitive', type: 'string' },
+            optional: false,
+            description: 'Display name',
+          },
+          {
+            name: 'age',
+            type: { kind: 'primitive', type: 'number' },
+            optional: true,
+            tags: { integer: '' },
+          },
+          {
+            name: 'role',
+            type: { kind: 'reference', name: 'Role' },
+            optional: false,
+          },
+          {
+            name: 'level',
+            type: { kind: 'reference', name: 'Level' },
+            optional: false,
+          },
+          {
+            name: 'theme',
+            type: {
+              kind: 'union',
+              types: [
+                { kind: 'literal', value: 'light' },
+                { kind: 'literal', value: 'dark' },
+              ],
+            },
+            optional: false,
+            default: 'light',
+          },
+          {
+            name: 'kind',
+            type: { kind: 'literal', value: 'user' },
+            optional: false,
+          },
+          {
+            name: 'manager',
+            type: {
+              kind: 'union',
+              types: [
+                { kind: 'reference', name: 'TreeNodeDto' },
+                { kind: 'primitive', type: 'null' },
+              ],
+            },
+            optional: false,
+          },
+          {
+            name: 'birthday',
+            type: { kind: 'date' },
+            optional: true,
+          },
+        ],
+      },
+      {
+        kind: 'enum',
+        name: 'Level',
+        fileName: '/src/users.dto.ts',
+        members: [
+          { name: 'Low', value: 0 },
+          { name: 'High', value: 1 },
+        ],
+      },
+      {
+        kind: 'enum',
+        name: 'Role',
+        fileName: '/src/users.dto.ts',
+        members: [
+          { name: 'Admin', value: 'admin' },
+          { name: 'User', value: 'user' },
+        ],
+      },
+      {
+        kind: 'object',
+        name: 'TreeNodeDto',
+        fileName: '/src/users.dto.ts',
+        properties: [
+          {
+            name: 'children',
+            type: {
+              kind: 'array',
+              elementType: { kind: 'reference', name: 'TreeNodeDto' },
+            },
+            optional: false,
+          },
+        ],
+      },
+    ],
+  };
+
+  it('should generate schemas declared before their use', () => {
+    const [file] = generateZodSchemas(model);
+
+    expect(file.path).toBe('zod/schemas.ts');
+    expect(file.content).toBe(
+      `// This file is generated by nest-dto-generator. Do not edit manually.
+
+import { z } from 'zod';
+
+export const Role = z.enum(['admin', 'user']);
+export type Role = z.infer<typeof Role>;
+
+export const Level = z.union([z.literal(0), z.literal(1)]);
+export type Level = z.infer<typeof Level>;
+
+export interface TreeNodeDto {
+  children: TreeNodeDto[];
+}
+
+export const TreeNodeDto: z.ZodType<TreeNodeDto, z.ZodTypeDef, unknown> = z.object({
+  children: z.array(z.lazy(() => TreeNodeDto)),
+});
+
+/** Payload to create a user */
+export const CreateUserDto = z.object({
+  /** Display name */
+  name: z.string().describe('Display name'),
+  age: z.number().int().optional(),
+  role: Role,
+  level: Level,
+  theme: z.enum(['light', 'dark']).default('light'),
+  kind: z.literal('user'),
+  manager: TreeNodeDto.nullable(),
+  birthday: z.coerce.date().optional(),
+});
+export type CreateUserDto = z.infer<typeof CreateUserDto>;
+`,
+    );
+  });
+
+  it('should generate discriminated unions', () => {
+    const [file] = generateZodSchemas({
+      controllers: [],
+      types: [
+        {
+          kind: 'object',
+          name: 'CreatePaymentDto',
+          fileName: '/src/payments.dto.ts',
+          properties: [
+            {
+              name: 'method',
+              type: {
+                kind: 'union',
+                types: [
+                  {
+                    kind: 'object',
+                    properties: [
+                      {
+                        name: 'kind',
+                        type: { kind: 'literal', value: 'card' },
+                        optional: false,
+                      },
+                      {
+                        name: 'cardNo',
+                        type: { kind: 'primitive', type: 'string' },
+                        optional: false,
+                      },
+                    ],
+                  },
+                  {
+                    kind: 'object',
+                    properties: [
+                      {
+                        name: 'kind',
+                        type: { kind: 'literal', value: 'bank' },
+                        optional: false,
+                      },
+                      {
+                        name: 'iban',
+                        type: { kind: 'primitive', type: 'string' },
+                        optional: false,
+                      },
+                    ],
+                  },
+                ],
+                discriminator: {
+                  propertyName: 'kind',
+                  values: ['card', 'bank'],
+                },
+              },
+              optional: false,
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(file.content).toContain(
+      `export const CreatePaymentMethodCardDto = z.object({
+  kind: z.literal('card'),
+  cardNo: z.string(),
+});`,
+    );
+    expect(file.content).toContain(
+      `export const CreatePaymentDto = z.object({
+  method: z.discriminatedUnion('kind', [CreatePaymentMethodCardDto, CreatePaymentMethodBankDto]),
+});`,
+    );
+  });
+});